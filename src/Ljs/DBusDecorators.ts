@@ -0,0 +1,589 @@
+/** @file: src/Ljs/DBusDecorators.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+/**
+ * @changelog
+ *
+ * # 1.0.0 - Первый вариант
+ */
+
+/** @module DBusDecorators.ts
+ *
+ * D-Bus декораторы для TypeScript
+ *
+ * По аналогии с `GDecorator` (GObjectDecorators.ts) описывают D-Bus интерфейс
+ * прямо в классе:
+ * - `DBusDecorator.Interface` - имя интерфейса и соответствие JS ошибок D-Bus ошибкам
+ * - `DBusDecorator.Method` - метод интерфейса (синхронный или асинхронный)
+ * - `DBusDecorator.Property` - свойство интерфейса (get/set аксессоры)
+ * - `DBusDecorator.Signal` - сигнал интерфейса (вызов метода отправляет сигнал)
+ *
+ * По описанию генерируется introspection XML (`get_introspection_xml()`),
+ * объект публикуется через `Gio.DBusExportedObject` (`dbus_export()`),
+ * а для клиента создается типизированный прокси (`make_proxy()`).
+ *
+ * Имена членов интерфейса по умолчанию получаются из JS идентификаторов:
+ * `get_report` -> `GetReport`.
+ *
+ * Ошибки:
+ * - исключения методов преобразуются в D-Bus ошибки по таблице `Errors`
+ *   интерфейса. `GLib.Error` передаются как есть. Остальные -
+ *   `org.freedesktop.DBus.Error.Failed`
+ * - ошибки упаковки значений (не соответствуют сигнатуре) - `GLib.Error`
+ *   `Gio.DBusError.INVALID_ARGS` (`org.freedesktop.DBus.Error.InvalidArgs`)
+ * - прокси восстанавливает JS ошибки из таблицы `Errors` по имени D-Bus ошибки
+ *
+ * @example
+ * ```typescript
+ * @DBusDecorator.Interface({
+ *     Name: 'org.example.Counter',
+ *     Errors: [[RangeError, 'org.example.Counter.Error.Range']],
+ * })
+ * class Counter {
+ *     private count = 0;
+ *
+ *     @DBusDecorator.Method({ in: [['step', 'u']], out: [['count', 'u']] })
+ *     public async increment(step: number): Promise<number> {
+ *         if (step === 0) {
+ *             throw new RangeError('Step must be positive');
+ *         }
+ *         this.count += step;
+ *         this.changed(this.count);
+ *         return this.count;
+ *     }
+ *
+ *     @DBusDecorator.Property({ signature: 'u' })
+ *     public get value(): number {
+ *         return this.count;
+ *     }
+ *
+ *     @DBusDecorator.Signal({ args: [['count', 'u']] })
+ *     public changed(_count: number): void { }
+ * }
+ *
+ * // сервис
+ * const counter = new Counter();
+ * dbus_export(counter, connection, '/org/example/Counter');
+ *
+ * // клиент
+ * const proxy = make_proxy(Counter, connection, 'org.example.Counter', '/org/example/Counter');
+ * proxy.connect_signal('changed', (count) => console.log(count));
+ * await proxy.increment(2); // 2
+ * ```
+ */
+
+import GLib from 'gi://GLib?version=2.0';
+import Gio from 'gi://Gio?version=2.0';
+
+Gio._promisify(Gio.DBusConnection.prototype, 'call', 'call_finish');
+
+/** Аргумент метода или сигнала: [имя, сигнатура] */
+export type DBusArg = [name: string, signature: string];
+
+/** Конструктор JS ошибки */
+type ErrorClass = new (message?: string, options?: ErrorOptions) => Error;
+
+/** Соответствие JS ошибки имени D-Bus ошибки */
+export type DBusErrorMapping = [error_class: ErrorClass, dbus_error_name: string];
+
+interface InterfaceOptions {
+    /** Имя интерфейса, например `org.example.Counter` */
+    Name: string,
+    /** Соответствие JS ошибок D-Bus ошибкам.
+     * Проверяется по порядку (`instanceof`), поэтому базовые классы - в конце */
+    Errors?: DBusErrorMapping[],
+}
+
+interface MethodInfo {
+    key: string,
+    name: string,
+    in_args: DBusArg[],
+    out_args: DBusArg[],
+}
+
+interface PropertyInfo {
+    key: string,
+    name: string,
+    signature: string,
+    access: 'read' | 'readwrite',
+}
+
+interface SignalInfo {
+    key: string,
+    name: string,
+    args: DBusArg[],
+}
+
+/** Описание интерфейса, накопленное декораторами членов */
+interface InterfaceInfo {
+    name: string,
+    errors: DBusErrorMapping[],
+    methods: MethodInfo[],
+    properties: PropertyInfo[],
+    signals: SignalInfo[],
+    xml: string,
+}
+
+interface WithSymbolInterface {
+    [interface_symbol]?: InterfaceInfo;
+}
+
+/** Ошибка описания D-Bus интерфейса.
+ *
+ * Выбрасывается при не валидных именах и сигнатурах, а также при
+ * использовании не декорированного класса. */
+export class DBusInterfaceError extends Error {
+    constructor(message = 'Invalid D-Bus interface', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'DBusInterfaceError';
+    }
+}
+
+/** Класс D-Bus интерфейса (с любыми параметрами конструктора) */
+type DBusInterfaceConstructor<T extends object = object> = abstract new (...args: never[]) => T;
+
+/** Методы прокси: те же имена, результат - Promise */
+type ProxyMethods<T> = {
+    [K in keyof T as T[K] extends (...args: never[]) => unknown ? K : never]:
+        T[K] extends (...args: infer A) => infer R ? (...args: A) => Promise<Awaited<R>> : never;
+};
+
+/** Типизированный клиентский прокси D-Bus интерфейса.
+ *
+ * Доступны только члены, объявленные декораторами. */
+export type DBusProxy<T> = ProxyMethods<T> & {
+    /** Подписывается на сигнал. Возвращает ID подписки */
+    connect_signal<K extends keyof ProxyMethods<T>>(signal: K, callback: (...args: T[K] extends (...args: infer A) => unknown ? A : never) => void): number,
+    /** Отменяет подписку на сигнал */
+    disconnect_signal(subscription_id: number): void,
+    /** Читает свойство */
+    get_property<K extends keyof T>(property: K): Promise<T[K]>,
+    /** Записывает свойство */
+    set_property<K extends keyof T>(property: K, value: T[K]): Promise<void>,
+};
+
+const interface_symbol = Symbol('dbus_interface');
+
+/** Опубликованные объекты каждого экземпляра (для отправки сигналов) */
+const exported_objects = new WeakMap<object, Gio.DBusExportedObject[]>();
+
+export const DBusDecorator = {
+
+    /** Декоратор для описания класса как D-Bus интерфейса.
+     *
+     * Должен быть применен к классу, члены которого отмечены
+     * декораторами `Method`, `Property`, `Signal`.
+     *
+     * @param meta_info.Name Имя интерфейса
+     * @param meta_info.Errors Соответствие JS ошибок D-Bus ошибкам
+     *
+     * @returns Декоратор класса
+     *
+     * @throws {DBusInterfaceError} Если имя интерфейса или имена ошибок не валидны,
+     *                              или сгенерированный XML не принимается GDBus */
+    Interface: function (meta_info: InterfaceOptions) {
+        return function <C extends DBusInterfaceConstructor>(constructor: C): C {
+
+            if (!Gio.dbus_is_interface_name(meta_info.Name)) {
+                throw new DBusInterfaceError(`Invalid D-Bus interface name '${meta_info.Name}'`);
+            }
+            for (const [, error_name] of meta_info.Errors ?? []) {
+                if (!Gio.dbus_is_interface_name(error_name)) {
+                    throw new DBusInterfaceError(`Invalid D-Bus error name '${error_name}'`);
+                }
+            }
+
+            const info = ensure_interface_storage(constructor.prototype);
+            info.name = meta_info.Name;
+            info.errors = meta_info.Errors ?? [];
+            info.xml = build_xml(info);
+
+            // GDBus проверяет описание целиком
+            try {
+                Gio.DBusNodeInfo.new_for_xml(info.xml);
+            } catch (error) {
+                throw new DBusInterfaceError(`Invalid D-Bus interface '${info.name}': ${(error as Error).message}`, { cause: error });
+            }
+
+            return constructor;
+        };
+    },
+
+    /** Декоратор метода интерфейса.
+     *
+     * Метод может быть асинхронным. Значение метода с несколькими
+     * выходными аргументами - массив.
+     *
+     * @param param.name Имя метода. По умолчанию - из идентификатора (`get_report` -> `GetReport`)
+     * @param param.in Входные аргументы
+     * @param param.out Выходные аргументы */
+    Method: function (param: Partial<{
+        name: string,
+        in: DBusArg[],
+        out: DBusArg[],
+    }> = {}) {
+        return function (target: object, property_key: string, _descriptor: PropertyDescriptor): void {
+            const in_args = validate_args(param.in ?? [], property_key);
+            const out_args = validate_args(param.out ?? [], property_key);
+            ensure_interface_storage(target).methods.push({
+                key: property_key,
+                name: prepare_member_name(param.name, property_key),
+                in_args,
+                out_args,
+            });
+        };
+    },
+
+    /** Декоратор свойства интерфейса.
+     *
+     * Применяется к get-аксессору. Для `access: 'readwrite'` нужен и set-аксессор.
+     * Уведомление об изменении - `dbus_emit_property_changed()`.
+     *
+     * @param param.name Имя свойства. По умолчанию - из идентификатора
+     * @param param.signature Сигнатура значения
+     * @param param.access Доступ. По умолчанию `'read'` */
+    Property: function (param: {
+        name?: string,
+        signature: string,
+        access?: 'read' | 'readwrite',
+    }) {
+        return function (target: object, property_key: string, descriptor: PropertyDescriptor): void {
+            const [[, signature]] = validate_args([['value', param.signature]], property_key);
+            const access = param.access ?? 'read';
+            if (descriptor.get === undefined || (access === 'readwrite' && descriptor.set === undefined)) {
+                throw new DBusInterfaceError(`D-Bus property '${property_key}' requires ${access === 'read' ? 'a getter' : 'a getter and a setter'}`);
+            }
+            ensure_interface_storage(target).properties.push({
+                key: property_key,
+                name: prepare_member_name(param.name, property_key),
+                signature,
+                access,
+            });
+        };
+    },
+
+    /** Декоратор сигнала интерфейса.
+     *
+     * Применяется к методу-заглушке: тело метода заменяется отправкой
+     * сигнала через все опубликованные объекты экземпляра.
+     *
+     * @param param.name Имя сигнала. По умолчанию - из идентификатора
+     * @param param.args Аргументы сигнала */
+    Signal: function (param: Partial<{
+        name: string,
+        args: DBusArg[],
+    }> = {}) {
+        return function (target: object, property_key: string, descriptor: PropertyDescriptor): void {
+            const signal: SignalInfo = {
+                key: property_key,
+                name: prepare_member_name(param.name, property_key),
+                args: validate_args(param.args ?? [], property_key),
+            };
+            ensure_interface_storage(target).signals.push(signal);
+
+            descriptor.value = function (this: object, ...args: unknown[]): void {
+                const parameters = pack(signal.args, args, `signal ${signal.name}`);
+                for (const exported of exported_objects.get(this) ?? []) {
+                    exported.emit_signal(signal.name, parameters);
+                }
+            };
+        };
+    },
+
+};
+
+// #region Публичные функции
+
+/** Возвращает introspection XML интерфейса.
+ *
+ * @param constructor Класс, отмеченный `DBusDecorator.Interface`
+ *
+ * @throws {DBusInterfaceError} Если класс не отмечен декоратором */
+export function get_introspection_xml(constructor: DBusInterfaceConstructor): string {
+    return get_interface_info(constructor.prototype).xml;
+}
+
+/** Публикует объект на шине.
+ *
+ * Объект может быть опубликован несколько раз (разные соединения
+ * или пути). Сигналы отправляются через все публикации.
+ *
+ * @param instance Экземпляр класса, отмеченного `DBusDecorator.Interface`
+ * @param connection Соединение с шиной
+ * @param object_path Путь объекта
+ *
+ * @returns Опубликованный объект
+ *
+ * @throws {DBusInterfaceError} Если класс не отмечен декоратором */
+export function dbus_export(instance: object, connection: Gio.DBusConnection, object_path: string): Gio.DBusExportedObject {
+
+    const info = get_interface_info(instance);
+    const implementation: Record<string, unknown> = {};
+
+    for (const method of info.methods) {
+        implementation[`${method.name}Async`] = (params: unknown[], invocation: Gio.DBusMethodInvocation) => {
+            invoke_method(instance, info, method, params, invocation);
+        };
+    }
+
+    for (const property of info.properties) {
+        Object.defineProperty(implementation, property.name, {
+            get: () => (instance as Record<string, unknown>)[property.key],
+            set: (property.access === 'readwrite')
+                ? (value: unknown) => { (instance as Record<string, unknown>)[property.key] = value; }
+                : undefined,
+        });
+    }
+
+    const exported = Gio.DBusExportedObject.wrapJSObject(info.xml, implementation);
+    exported.export(connection, object_path);
+
+    exported_objects.set(instance, [...(exported_objects.get(instance) ?? []), exported]);
+
+    return exported;
+}
+
+/** Снимает все публикации объекта.
+ *
+ * @param instance Опубликованный экземпляр */
+export function dbus_unexport(instance: object): void {
+    for (const exported of exported_objects.get(instance) ?? []) {
+        exported.unexport();
+    }
+    exported_objects.delete(instance);
+}
+
+/** Отправляет уведомление об изменении свойства.
+ *
+ * @param instance Опубликованный экземпляр
+ * @param property_key JS идентификатор свойства
+ *
+ * @throws {DBusInterfaceError} Если свойство не отмечено декоратором */
+export function dbus_emit_property_changed(instance: object, property_key: string): void {
+    const property = get_interface_info(instance).properties.find(item => item.key === property_key);
+    if (property === undefined) {
+        throw new DBusInterfaceError(`'${property_key}' is not a D-Bus property`);
+    }
+    const value = pack([['value', property.signature]], [(instance as Record<string, unknown>)[property_key]], `property ${property.name}`);
+    for (const exported of exported_objects.get(instance) ?? []) {
+        exported.emit_property_changed(property.name, value.get_child_value(0));
+    }
+}
+
+/** Создает клиентский прокси интерфейса.
+ *
+ * Методы прокси возвращают Promise. Ошибки:
+ * - D-Bus ошибки из таблицы `Errors` восстанавливаются как JS ошибки
+ *   (исходная `GLib.Error` - в `cause`)
+ * - остальные - `GLib.Error` (имя D-Bus ошибки: `Gio.DBusError.get_remote_error()`)
+ * - не валидные аргументы - `GLib.Error` `Gio.DBusError.INVALID_ARGS`
+ *
+ * @param constructor Класс, отмеченный `DBusDecorator.Interface`
+ * @param connection Соединение с шиной
+ * @param bus_name Имя сервиса на шине
+ * @param object_path Путь объекта
+ *
+ * @throws {DBusInterfaceError} Если класс не отмечен декоратором */
+export function make_proxy<T extends object>(constructor: DBusInterfaceConstructor<T>, connection: Gio.DBusConnection, bus_name: string, object_path: string): DBusProxy<T> {
+
+    const info = get_interface_info(constructor.prototype);
+    const proxy: Record<string, unknown> = {};
+
+    /** Вызов метода на шине */
+    const call = async (interface_name: string, method: string, in_args: DBusArg[], out_args: DBusArg[], args: unknown[]): Promise<unknown[]> => {
+        const parameters = pack(in_args, args, `arguments of ${method}`);
+        try {
+            const result = await connection.call(
+                bus_name, object_path, interface_name, method, parameters,
+                new GLib.VariantType(tuple_signature(out_args)), Gio.DBusCallFlags.NONE, -1, null
+            );
+            return result.deepUnpack<unknown[]>();
+        } catch (error) {
+            throw restore_error(info, error);
+        }
+    };
+
+    for (const method of info.methods) {
+        proxy[method.key] = async (...args: unknown[]) => {
+            const result = await call(info.name, method.name, method.in_args, method.out_args, args);
+            return (method.out_args.length === 1) ? result[0] : (method.out_args.length === 0 ? undefined : result);
+        };
+    }
+
+    proxy.connect_signal = (key: string, callback: (...args: unknown[]) => void): number => {
+        const signal = info.signals.find(item => item.key === key);
+        if (signal === undefined) {
+            throw new DBusInterfaceError(`'${key}' is not a D-Bus signal`);
+        }
+        return connection.signal_subscribe(
+            bus_name, info.name, signal.name, object_path, null, Gio.DBusSignalFlags.NONE,
+            (_connection, _sender, _path, _interface, _signal, parameters) => {
+                callback(...parameters!.deepUnpack<unknown[]>());
+            }
+        );
+    };
+
+    proxy.disconnect_signal = (subscription_id: number): void => {
+        connection.signal_unsubscribe(subscription_id);
+    };
+
+    proxy.get_property = async (key: string): Promise<unknown> => {
+        const property = find_property(info, key);
+        const [value] = await call('org.freedesktop.DBus.Properties', 'Get', [['interface', 's'], ['name', 's']], [['value', 'v']], [info.name, property.name]);
+        return (value as GLib.Variant).deepUnpack();
+    };
+
+    proxy.set_property = async (key: string, value: unknown): Promise<void> => {
+        const property = find_property(info, key);
+        const variant = pack([['value', property.signature]], [value], `property ${property.name}`).get_child_value(0);
+        await call('org.freedesktop.DBus.Properties', 'Set', [['interface', 's'], ['name', 's'], ['value', 'v']], [], [info.name, property.name, variant]);
+    };
+
+    return proxy as DBusProxy<T>;
+}
+
+// #endregion
+
+// #region Приватные функции
+
+function ensure_interface_storage(target: object): InterfaceInfo {
+    const constructor = target.constructor as WithSymbolInterface;
+
+    if (!Object.hasOwn(constructor, interface_symbol)) { // атачим символ, если еще нет
+        constructor[interface_symbol] = { name: '', errors: [], methods: [], properties: [], signals: [], xml: '' };
+    }
+
+    return constructor[interface_symbol]!;
+}
+
+/** Описание интерфейса класса экземпляра или прототипа */
+function get_interface_info(target: object): InterfaceInfo {
+    const info = (target.constructor as WithSymbolInterface)[interface_symbol];
+    if (info === undefined || info.name === '') {
+        throw new DBusInterfaceError(`Class ${target.constructor.name} is not decorated with DBusDecorator.Interface`);
+    }
+    return info;
+}
+
+function find_property(info: InterfaceInfo, key: string): PropertyInfo {
+    const property = info.properties.find(item => item.key === key);
+    if (property === undefined) {
+        throw new DBusInterfaceError(`'${key}' is not a D-Bus property`);
+    }
+    return property;
+}
+
+/** Имя члена интерфейса: явное или из JS идентификатора (`get_report` -> `GetReport`) */
+function prepare_member_name(name: string | undefined, property_key: string): string {
+    const member_name = name ?? property_key
+        .replace(/^[#_]+/, '')
+        .split('_')
+        .filter(word => word.length > 0)
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+        .join('');
+
+    if (!Gio.dbus_is_member_name(member_name)) {
+        throw new DBusInterfaceError(`Invalid D-Bus member name '${member_name}' for '${property_key}'`);
+    }
+    return member_name;
+}
+
+/** Проверяет сигнатуры аргументов. Каждая должна быть одним полным типом */
+function validate_args(args: DBusArg[], property_key: string): DBusArg[] {
+    for (const [name, signature] of args) {
+        if (!GLib.variant_type_string_is_valid(signature) || !GLib.variant_is_signature(signature)) {
+            throw new DBusInterfaceError(`Invalid D-Bus signature '${signature}' of argument '${name}' in '${property_key}'`);
+        }
+    }
+    return args;
+}
+
+function tuple_signature(args: DBusArg[]): string {
+    return `(${args.map(([, signature]) => signature).join('')})`;
+}
+
+/** Упаковывает значения в кортеж.
+ *
+ * @throws {GLib.Error} `Gio.DBusError.INVALID_ARGS` Если значения не соответствуют сигнатуре */
+function pack(args: DBusArg[], values: unknown[], what: string): GLib.Variant {
+    const signature = tuple_signature(args);
+    try {
+        if (values.length !== args.length) {
+            throw new TypeError(`expected ${args.length} values, got ${values.length}`);
+        }
+        return new GLib.Variant(signature, values);
+    } catch (error) {
+        throw new Gio.DBusError({
+            code: Gio.DBusError.INVALID_ARGS,
+            message: `Cannot marshal ${what} as '${signature}': ${(error as Error).message}`,
+        });
+    }
+}
+
+/** Вызывает метод экземпляра и возвращает результат через `invocation` */
+async function invoke_method(instance: object, info: InterfaceInfo, method: MethodInfo, params: unknown[], invocation: Gio.DBusMethodInvocation): Promise<void> {
+
+    let value: unknown;
+    try {
+        value = await (instance as Record<string, (...args: unknown[]) => unknown>)[method.key](...params);
+    } catch (error) {
+        if (error instanceof GLib.Error) {
+            invocation.return_gerror(error);
+            return;
+        }
+        const mapping = info.errors.find(([error_class]) => error instanceof error_class);
+        invocation.return_dbus_error(
+            mapping?.[1] ?? 'org.freedesktop.DBus.Error.Failed',
+            (error as Error)?.message ?? String(error)
+        );
+        return;
+    }
+
+    try {
+        const values = (method.out_args.length === 1) ? [value] : (method.out_args.length === 0 ? [] : value as unknown[]);
+        invocation.return_value(pack(method.out_args, values, `result of ${method.name}`));
+    } catch (error) {
+        invocation.return_gerror(error as GLib.Error);
+    }
+}
+
+/** Восстанавливает JS ошибку по имени D-Bus ошибки */
+function restore_error(info: InterfaceInfo, error: unknown): unknown {
+    if (!(error instanceof GLib.Error) || !Gio.DBusError.is_remote_error(error)) {
+        return error;
+    }
+    const error_name = Gio.DBusError.get_remote_error(error);
+    const mapping = info.errors.find(([, name]) => name === error_name);
+    if (mapping === undefined) {
+        return error;
+    }
+    const message = error.message.replace(/^GDBus\.Error:[^ ]+ /, '');
+    return new mapping[0](message, { cause: error });
+}
+
+function build_xml(info: InterfaceInfo): string {
+    const arg = ([name, signature]: DBusArg, direction?: 'in' | 'out'): string =>
+        `<arg name="${name}" type="${signature}"${direction ? ` direction="${direction}"` : ''}/>`;
+
+    return [
+        '<node>',
+        `<interface name="${info.name}">`,
+        ...info.methods.map(method => [
+            `<method name="${method.name}">`,
+            ...method.in_args.map(item => arg(item, 'in')),
+            ...method.out_args.map(item => arg(item, 'out')),
+            '</method>',
+        ].join('')),
+        ...info.properties.map(property =>
+            `<property name="${property.name}" type="${property.signature}" access="${property.access}"/>`),
+        ...info.signals.map(signal => [
+            `<signal name="${signal.name}">`,
+            ...signal.args.map(item => arg(item)),
+            '</signal>',
+        ].join('')),
+        '</interface>',
+        '</node>',
+    ].join('\n');
+}
+
+// #endregion
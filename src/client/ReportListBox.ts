@@ -1,8 +1,10 @@
 /** @file: src/client/ReportListBox.ts */
 /** @license: https://www.gnu.org/licenses/gpl.txt */
-/** @version: 1.0.0 */
+/** @version: 1.1.0 */
 /**
  * @changelog
+ * # 1.1.0 - Записи, спасенные правилом-исключением, получают
+ *           CSS-класс `allowed` вместо `matched`.
  * # 1.0.0 - Первый вариант.
  * */
 
@@ -88,6 +90,16 @@ let one_time_styling: ((widget: Gtk.Widget) => void) | false = (widget: Gtk.Widg
                 background-color: rgba(255, 192, 87, 0.1);
             }
 
+            report-list-box row > box.allowed {
+                border-color: rgba(38, 162, 105, 0.75);
+                background-color: rgba(38, 162, 105, 0.12);
+            }
+
+            report-list-box.dark row > box.allowed {
+                border-color: rgba(38, 162, 105, 0.65);
+                background-color: rgba(38, 162, 105, 0.08);
+            }
+
         `);
 
     const display = widget.get_display();
@@ -119,6 +131,9 @@ type SignalSignatures = DelayedSignalSignatures & Adw.Bin.SignalSignatures;
  * Отображает список с выделением элементов имеющие не пустой {@link ReportItem список критериев фильтрации}
  *  ("sins").
  *
+ * Элементы, спасенные правилом-исключением (первый "sin" имеет тип `'allow'`),
+ * выделяются иначе - CSS-классом `allowed`.
+ *
  * - Использует темную тему, если имеет CSS-класс `dark`.
  * - Активация строк по клику.
  *
@@ -141,9 +156,9 @@ type SignalSignatures = DelayedSignalSignatures & Adw.Bin.SignalSignatures;
  * report-list-box[.dark]
  * └── list.data-table
  *     ├── row
- *     │   └── box[.matched]
+ *     │   └── box[.matched|.allowed]
  *     │       ├──label.monospace
- *     │       └──label.caption.monospace /может отсутствовать, присутствует только в box.matched/
+ *     │       └──label.caption.monospace /может отсутствовать, присутствует только в box.matched и box.allowed/
  *     ├── row
  *     └── ...
  *
@@ -272,7 +287,8 @@ export class ReportListBox extends Adw.Bin implements IDecommissionable {
      * @affects Полностью очищает и перестраивает содержимое {@link list_box.widget}
      * @affects При пустом отчете показывает placeholder
      *
-     * @affects Строки с {@link ReportItem элементами} имеющими не пустой список критериев фильтрации получают CSS-класс `matched`.
+     * @affects Строки с {@link ReportItem элементами} имеющими не пустой список критериев фильтрации получают CSS-класс `matched`,
+     *          или `allowed`, если элемент спасен правилом-исключением.
      * */
     public async present_report(report: Report): Promise<void> {
 
@@ -319,7 +335,10 @@ export class ReportListBox extends Adw.Bin implements IDecommissionable {
 
                 if (report_item[ReportFields.SINS].length > 0) {
 
-                    row_container.add_css_class('matched');
+                    // правило-исключение всегда первое в списке
+                    row_container.add_css_class(
+                        (report_item[ReportFields.SINS][0][0] === 'allow') ? 'allowed' : 'matched'
+                    );
 
                     const info = report_item[ReportFields.SINS].map(([type, info]) => `${type}: ${info}`).join(', ');
 
@@ -0,0 +1,598 @@
+/** @file: src/service/DBusService.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.7.0 */
+/**
+ * @changelog
+ *
+ * # 1.7.0 - Методы `TagFiles` и `UntagFiles` (атрибут-метка файлов)
+ *
+ * # 1.6.0 - Режим презентации: методы `StartPresentation`, `StopPresentation`
+ *           и свойство `Presentation`
+ *
+ * # 1.5.0 - Свойство `PurgeThumbnails`, метод `PurgeThumbnailsFor` и
+ *           сигнал `ThumbnailsPurged` (удаление миниатюр)
+ *         - `RemoveItems` удаляет миниатюры удаленных записей, если
+ *           `PurgeThumbnails` включено
+ *
+ * # 1.4.0 - Источник записи в отчете `GetReport` (`a(ssa(ss)s)`), в журнале
+ *           `GetDryRunLog` (`a(s(ss)ts)`) и в сигнале `ItemsRemoved` (`(ass)`)
+ *         - `GetReport` проверяет историю всех источников
+ *
+ * # 1.3.0 - `RemoveItems` удаляет записи пакетом (`RecentFilesProvider.remove_items()`)
+ *
+ * # 1.2.0 - Свойство `DryRun` и метод `GetDryRunLog` (режим наблюдения)
+ *
+ * # 1.1.0 - Интерфейс описан декораторами `DBusDecorator`
+ *           (introspection XML генерируется)
+ *         - Методы интерфейса доступны и как методы класса
+ *
+ * # 1.0.0 - Первый вариант.
+ *           - D-Bus интерфейс сервиса: отчет, критерии, удаление записей,
+ *             состояние мониторинга
+ */
+
+import type Gio from 'gi://Gio?version=2.0';
+
+import {
+    DBusDecorator,
+    dbus_emit_property_changed,
+    dbus_export,
+    dbus_unexport
+} from '../Ljs/DBusDecorators.js';
+import {
+    IDecommissionable,
+    DecommissionedError,
+    decommission_signals,
+    DECOMMISSIONED,
+    DecommissionType
+} from '../Ljs/Decommissionable.js';
+import type {
+    HandlerID,
+    SinInfo,
+} from '../shared/common-types.js';
+import {
+    NO_HANDLER,
+} from '../shared/common-types.js';
+import {
+    DBUS_INTERFACE,
+    DBUS_PATH,
+    DBusErrorName
+} from '../shared/dbus-interface.js';
+import {
+    CriteriaValidateError,
+    Inquisitor,
+    ProcessAbortError,
+    SetCriteriaCancelledError,
+    recent_info_to_tuple
+} from './Inquisitor.js';
+import type {
+    CriteriaSpec,
+    CriteriaType
+} from './Inquisitor.js';
+import {
+    HistoryDisabledError
+} from './RecentFilesProvider.js';
+import type {
+    MonitoringState
+} from './RecentFilesProvider.js';
+import {
+    DEFAULT_SOURCE
+} from './RecentFilesService.js';
+import type {
+    RecentFilesService
+} from './RecentFilesService.js';
+import {
+    StoredCriteriaError
+} from './SettingsProvider.js';
+import type {
+    SettingsProvider
+} from './SettingsProvider.js';
+
+/** Ошибка разбора JSON-аргумента метода.
+ *
+ * Аргумент не является JSON или JSON-массивом. Исходная ошибка разбора
+ * доступна через свойство `cause`. */
+export class InvalidJsonError extends Error {
+    constructor(message = 'Invalid JSON argument', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'InvalidJsonError';
+    }
+}
+
+/** Разбирает JSON-массив правил.
+ *
+ * @param json JSON-массив `CriteriaSpec`
+ * @param what Название аргумента для сообщений об ошибках
+ *
+ * @returns Правила (не проверенные)
+ *
+ * @throws {InvalidJsonError} Если `json` не является JSON-массивом */
+function parse_criteria_json(json: string, what: string): CriteriaSpec<CriteriaType>[] {
+
+    let criteria: unknown;
+    try {
+        criteria = JSON.parse(json);
+    } catch (error) {
+        throw new InvalidJsonError(`${what} must be a JSON array: ${(error as Error).message}`, { cause: error });
+    }
+
+    if (!Array.isArray(criteria)) {
+        throw new InvalidJsonError(`${what} must be a JSON array`);
+    }
+    return criteria as CriteriaSpec<CriteriaType>[];
+}
+
+/** Запись отчета `GetReport`: запись отчета `Inquisitor` (`ReportItem`) и ее источник */
+export type SourceReportItem = [uri: string, uri_display: string, sins: SinInfo[], source: string];
+
+/** Запись журнала `GetDryRunLog` (@see {@link RecentFilesService.dry_run_log}) */
+export type DryRunLogEntry = [uri: string, sin: SinInfo, time: number, source: string];
+
+/** DBusService - D-Bus интерфейс сервиса.
+ *
+ * ### Описание
+ *
+ * Расширение и окно настроек работают в других процессах, чем "уборщик".
+ * Этот класс публикует {@link RecentFilesService} и {@link SettingsProvider}
+ * на шине сеанса. Интерфейс `DBUS_INTERFACE` описан декораторами
+ * `DBusDecorator`; клиент получает прокси через `make_proxy(DBusService, ...)`.
+ *
+ * - `GetReport` - отчет о проверке истории всех источников (`SourceReportItem`:
+ *   запись отчета `Inquisitor` и ее источник, например `flatpak:<id>`). Отчет строит
+ *   отдельный `Inquisitor` с сохраненными правилами: фоновая уборка и отчет
+ *   не прерывают друг друга. Новый отчет прерывает предыдущий
+ * - `GetCriteria`/`SetCriteria` - правила в виде JSON-массива `CriteriaSpec`.
+ *   `SetCriteria` проверяет правила (ошибки валидации возвращаются вызывающему)
+ *   и сохраняет их в настройках; применяет их `SettingsProvider`
+ * - `RemoveItems` - удаление записей одним пакетом (файл истории записывается
+ *   один раз). Возвращает фактически удаленные URI. Записи, которые не удалось
+ *   удалить (нет в истории, уже в очереди), пропускаются. При включенном
+ *   `PurgeThumbnails` удаляет и миниатюры удаленных записей
+ * - `GetState` - `MonitoringState` провайдера
+ * - `DryRun` - режим наблюдения сервиса (чтение/запись)
+ * - `GetDryRunLog` - журнал режима наблюдения: что было бы удалено, из какого
+ *   источника и каким правилом
+ * - `PurgeThumbnails` - удалять миниатюры удаленных записей (чтение/запись)
+ * - `PurgeThumbnailsFor` - удаление миниатюр URI по запросу. Возвращает
+ *   количество удаленных миниатюр
+ * - `ThumbnailsPurged` - миниатюры записи удалены (URI и количество)
+ * - `StartPresentation`/`StopPresentation` - режим презентации: записи вне
+ *   списка разрешенных (JSON-массив `CriteriaSpec`) временно скрываются.
+ *   Возвращают количество скрытых и возвращенных записей
+ * - `Presentation` - включен ли режим презентации
+ * - `TagFiles`/`UntagFiles` - пометка файлов атрибутом-меткой для критерия
+ *   `tag` (пустая строка - атрибут по умолчанию `metadata::rfb-private`).
+ *   Возвращают количество файлов, метка которых изменена
+ * - `ItemsRemoved` - записи источника удалены (фоновой уборкой или через `RemoveItems`)
+ * - `CriteriaChanged` - сохраненные правила изменились (через `SetCriteria`
+ *   или в обход сервиса, например `gsettings set ...`)
+ *
+ * Ошибки возвращаются как D-Bus ошибки с именами из `DBusErrorName`
+ * (прокси восстанавливает исходные JS ошибки). Аргумент, который не является
+ * JSON-массивом, - `InvalidJsonError` (`DBusErrorName.INVALID_JSON`). Ошибки
+ * упаковки аргументов GDBus (`DBusErrorName.INVALID_ARGS`) прокси передает
+ * как `GLib.Error`.
+ *
+ * Владение имени на шине - задача вызывающего кода (`Gio.bus_own_name()`).
+ *
+ * ### API
+ *
+ * #### Параметры конструктора:
+ * - `service: RecentFilesService` Сервис. Не принадлежит объекту
+ * - `settings_provider: SettingsProvider` Хранилище правил. Не принадлежит объекту
+ *
+ * #### Методы интерфейса:
+ * - `get_report(): Promise<SourceReportItem[]>` `GetReport`
+ * - `get_criteria(): string` `GetCriteria`
+ * - `set_criteria(criteria_json: string): void` `SetCriteria`
+ * - `remove_items(uris: string[]): Promise<string[]>` `RemoveItems` (источник `DEFAULT_SOURCE`)
+ * - `get_state(): MonitoringState` `GetState`
+ * - `get_dry_run_log(): DryRunLogEntry[]` `GetDryRunLog`
+ * - `purge_thumbnails_for(uris: string[]): Promise<number>` `PurgeThumbnailsFor`
+ * - `start_presentation(allowlist_json: string): Promise<number>` `StartPresentation`
+ * - `stop_presentation(): number` `StopPresentation`
+ * - `tag_files(uris: string[], attribute: string): Promise<number>` `TagFiles`
+ * - `untag_files(uris: string[], attribute: string): Promise<number>` `UntagFiles`
+ *
+ * #### Свойства интерфейса:
+ * - `dry_run: boolean` `DryRun`
+ * - `purge_thumbnails: boolean` `PurgeThumbnails`
+ * - `presentation: boolean` `Presentation`
+ *
+ * #### Сигналы интерфейса:
+ * - `items_removed(uris: string[], source: string)` `ItemsRemoved`
+ * - `criteria_changed(criteria_json: string)` `CriteriaChanged`
+ * - `thumbnails_purged(uri: string, count: number)` `ThumbnailsPurged`
+ *
+ * #### Методы:
+ * - `export(connection: Gio.DBusConnection, object_path?: string): void` Публикует интерфейс.
+ * - `unexport(): void` Снимает интерфейс с публикации.
+ * - `decommission(): void` Выводит объект из эксплуатации.
+ *
+ * #### Ошибки:
+ * - `DecommissionedError`
+ * - `InvalidJsonError` `set_criteria()`, `start_presentation()`
+ *
+ * @example
+ * ```typescript
+ * const dbus_service = new DBusService(service, settings_provider);
+ *
+ * Gio.bus_own_name(Gio.BusType.SESSION, DBUS_NAME, Gio.BusNameOwnerFlags.NONE,
+ *     (connection) => dbus_service.export(connection),
+ *     null,
+ *     () => dbus_service.unexport());
+ *
+ * // клиент (другой процесс)
+ * const proxy = make_proxy(DBusService, connection, DBUS_NAME, DBUS_PATH);
+ * const report = await proxy.get_report();
+ * ```
+ * */
+@DBusDecorator.Interface({
+    Name: DBUS_INTERFACE,
+    Errors: [
+        [CriteriaValidateError, DBusErrorName.INVALID_CRITERIA],
+        [HistoryDisabledError, DBusErrorName.HISTORY_DISABLED],
+        [ProcessAbortError, DBusErrorName.ABORTED],
+        [SetCriteriaCancelledError, DBusErrorName.ABORTED],
+        [InvalidJsonError, DBusErrorName.INVALID_JSON],
+    ],
+})
+export class DBusService implements IDecommissionable {
+
+    /** Сервис */
+    private service: RecentFilesService;
+
+    /** Хранилище правил */
+    private settings_provider: SettingsProvider;
+
+    /** Проверяющий для отчетов.
+     *
+     * Проверяющий сервиса занят фоновой уборкой: новая проверка
+     * прерывает текущую (`ProcessAbortError`). */
+    private report_inquisitor = new Inquisitor();
+
+    /** ID обработчиков */
+    private handlers_ids = {
+        /** ID обработчика сигнала 'item-removed' от сервиса */
+        item_removed: NO_HANDLER as HandlerID,
+        /** ID обработчика сигнала 'rules-changed' от хранилища правил */
+        rules_changed: NO_HANDLER as HandlerID,
+        /** ID обработчика сигнала 'notify::dry-run' от сервиса */
+        dry_run_changed: NO_HANDLER as HandlerID,
+        /** ID обработчика сигнала 'thumbnails-purged' от сервиса */
+        thumbnails_purged: NO_HANDLER as HandlerID,
+        /** ID обработчика сигнала 'notify::purge-thumbnails' от сервиса */
+        purge_thumbnails_changed: NO_HANDLER as HandlerID,
+        /** ID обработчика сигнала 'notify::presentation' от сервиса */
+        presentation_changed: NO_HANDLER as HandlerID,
+    };
+
+    /** Constructor */
+    constructor(service: RecentFilesService, settings_provider: SettingsProvider) {
+
+        this.service = service;
+        this.settings_provider = settings_provider;
+
+        this.handlers_ids.item_removed = this.service.connect(
+            'item-removed',
+            (_service: RecentFilesService, uri: string, _sin: SinInfo, source: string) => this.items_removed([uri], source)
+        );
+
+        this.handlers_ids.rules_changed = this.settings_provider.connect(
+            'rules-changed',
+            this.rules_changed_cb.bind(this)
+        );
+
+        this.handlers_ids.dry_run_changed = this.service.connect(
+            'notify::dry-run',
+            () => dbus_emit_property_changed(this, 'dry_run')
+        );
+
+        this.handlers_ids.thumbnails_purged = this.service.connect(
+            'thumbnails-purged',
+            (_service: RecentFilesService, uri: string, count: number) => this.thumbnails_purged(uri, count)
+        );
+
+        this.handlers_ids.purge_thumbnails_changed = this.service.connect(
+            'notify::purge-thumbnails',
+            () => dbus_emit_property_changed(this, 'purge_thumbnails')
+        );
+
+        this.handlers_ids.presentation_changed = this.service.connect(
+            'notify::presentation',
+            () => dbus_emit_property_changed(this, 'presentation')
+        );
+    }
+
+    // #region ПУБЛИЧНЫЙ API
+
+    /** Публикует интерфейс на шине.
+     *
+     * @param connection Соединение с шиной
+     * @param object_path Путь объекта */
+    public export(connection: Gio.DBusConnection, object_path: string = DBUS_PATH): void {
+        dbus_export(this, connection, object_path);
+    }
+
+    /** Снимает интерфейс с публикации.
+     *
+     * Если интерфейс не опубликован - ничего не делает. */
+    public unexport(): void {
+        dbus_unexport(this);
+    }
+
+    // #endregion
+
+    // #region МЕТОДЫ ИНТЕРФЕЙСА
+
+    /** Проверяет историю всех источников сохраненными правилами и формирует отчет.
+     *
+     * @returns Записи отчета по источникам, начиная с `DEFAULT_SOURCE`
+     *
+     * @throws {HistoryDisabledError} Если история отключена
+     * @throws {StoredCriteriaError} Если сохраненные правила повреждены
+     * @throws {CriteriaValidateError} Если сохраненные правила не валидны
+     * @throws {ProcessAbortError} Если отчет прерван более новым
+     * @throws {SetCriteriaCancelledError} Если отчет прерван более новым до начала проверки */
+    @DBusDecorator.Method({ out: [['report', 'a(ssa(ss)s)']] })
+    public async get_report(): Promise<SourceReportItem[]> {
+
+        const inquisitor = this.report_inquisitor;
+
+        if (!this.service.provider.recent_files_enabled) {
+            throw new HistoryDisabledError();
+        }
+
+        // правила те же, что SettingsProvider применяет к проверяющему сервиса;
+        // set_criteria() прерывает предыдущий отчет
+        await inquisitor.set_criteria(this.settings_provider.read_criteria());
+
+        const report: SourceReportItem[] = [];
+        for (const source of this.service.sources) {
+
+            // источник мог быть удален во время проверки
+            const provider = this.service.get_source_provider(source);
+            if (!provider?.recent_files_enabled || provider.history_items_count === 0) {
+                continue;
+            }
+
+            const items = await provider.get_items(recent_info_to_tuple);
+            for (const [uri, uri_display, sins] of await inquisitor.inspect_to_report(items)) {
+                report.push([uri, uri_display, sins, source]);
+            }
+        }
+
+        return report;
+    }
+
+    /** Читает сохраненные правила.
+     *
+     * @returns JSON-массив правил
+     *
+     * @throws {StoredCriteriaError} Если сохраненные правила повреждены */
+    @DBusDecorator.Method({ out: [['criteria', 's']] })
+    public get_criteria(): string {
+        return JSON.stringify(this.settings_provider.read_rules());
+    }
+
+    /** Проверяет и сохраняет правила.
+     *
+     * Сохраненные правила применяет к `Inquisitor` сервиса `SettingsProvider`
+     * (по изменению настроек).
+     *
+     * @throws {InvalidJsonError} Если `criteria_json` не является JSON-массивом
+     * @throws {CriteriaValidateError} Если правила не валидны (в том числе
+     *         повторяются `id`). Правила не сохраняются */
+    @DBusDecorator.Method({ in: [['criteria', 's']] })
+    public set_criteria(criteria_json: string): void {
+
+        const criteria = parse_criteria_json(criteria_json, 'Criteria');
+
+        // при ошибке сохраненные правила не меняются
+        Inquisitor.validate_criteria(criteria);
+        this.settings_provider.store_criteria(criteria);
+    }
+
+    /** Удаляет записи из истории.
+     *
+     * @returns Фактически удаленные URI
+     *
+     * @throws {HistoryDisabledError} Если история отключена
+     *
+     * @fires ItemsRemoved Если удалена хотя бы одна запись (источник `DEFAULT_SOURCE`)
+     * @fires ThumbnailsPurged Для каждой удаленной записи, если `PurgeThumbnails` включено */
+    @DBusDecorator.Method({ in: [['uris', 'as']], out: [['removed', 'as']] })
+    public async remove_items(uris: string[]): Promise<string[]> {
+
+        const result = await this.service.provider.remove_items(uris);
+
+        const removed = [...result].filter(([_uri, error]) => error === null).map(([uri]) => uri);
+        if (this.handlers_ids !== undefined && removed.length > 0) {
+            this.items_removed(removed, DEFAULT_SOURCE);
+            if (this.service.purge_thumbnails) {
+                await this.service.purge_thumbnails_for(removed);
+            }
+        }
+
+        return removed;
+    }
+
+    /** Состояние мониторинга истории */
+    @DBusDecorator.Method({ out: [['state', 'u']] })
+    public get_state(): MonitoringState {
+        return this.service.provider.state;
+    }
+
+    /** Журнал режима наблюдения, от старых к новым.
+     *
+     * @returns Кортежи `[uri, sin, time, source]` (@see {@link RecentFilesService.dry_run_log}) */
+    @DBusDecorator.Method({ out: [['log', 'a(s(ss)ts)']] })
+    public get_dry_run_log(): DryRunLogEntry[] {
+        return this.service.dry_run_log.map(({ uri, sin, time, source }) => [uri, sin, time, source]);
+    }
+
+    /** Режим наблюдения сервиса */
+    @DBusDecorator.Property({ signature: 'b', access: 'readwrite' })
+    public get dry_run(): boolean {
+        return this.service.dry_run;
+    }
+
+    public set dry_run(value: boolean) {
+        this.service.dry_run = value;
+    }
+
+    /** Удаление миниатюр удаленных записей */
+    @DBusDecorator.Property({ signature: 'b', access: 'readwrite' })
+    public get purge_thumbnails(): boolean {
+        return this.service.purge_thumbnails;
+    }
+
+    public set purge_thumbnails(value: boolean) {
+        this.service.purge_thumbnails = value;
+    }
+
+    /** Удаляет миниатюры URI из кэша миниатюр. Записи истории не затрагиваются.
+     *
+     * @returns Количество удаленных миниатюр
+     *
+     * @fires ThumbnailsPurged Для каждого URI */
+    @DBusDecorator.Method({ in: [['uris', 'as']], out: [['purged', 'u']] })
+    public purge_thumbnails_for(uris: string[]): Promise<number> {
+        return this.service.purge_thumbnails_for(uris);
+    }
+
+    /** Включает режим презентации (или меняет список разрешенных).
+     *
+     * @returns Количество скрытых записей
+     *
+     * @throws {InvalidJsonError} Если `allowlist_json` не является JSON-массивом
+     * @throws {CriteriaValidateError} Если правила не валидны. Режим не меняется
+     * @throws {HistoryDisabledError} Если история отключена */
+    @DBusDecorator.Method({ in: [['allowlist', 's']], out: [['hidden', 'u']] })
+    public async start_presentation(allowlist_json: string): Promise<number> {
+        return this.service.start_presentation(parse_criteria_json(allowlist_json, 'Allowlist'));
+    }
+
+    /** Выключает режим презентации.
+     *
+     * @returns Количество возвращенных записей */
+    @DBusDecorator.Method({ out: [['restored', 'u']] })
+    public stop_presentation(): number {
+        return this.service.stop_presentation();
+    }
+
+    /** Помечает файлы атрибутом-меткой.
+     *
+     * @param attribute Атрибут-метка. Пустая строка - атрибут по умолчанию
+     *
+     * @returns Количество помеченных файлов
+     *
+     * @throws {CriteriaValidateError} Если атрибут не валиден */
+    @DBusDecorator.Method({ in: [['uris', 'as'], ['attribute', 's']], out: [['tagged', 'u']] })
+    public tag_files(uris: string[], attribute: string): Promise<number> {
+        return this.service.tag_files(uris, attribute || undefined);
+    }
+
+    /** Снимает атрибут-метку с файлов.
+     *
+     * @param attribute Атрибут-метка. Пустая строка - атрибут по умолчанию
+     *
+     * @returns Количество файлов, с которых метка снята
+     *
+     * @throws {CriteriaValidateError} Если атрибут не валиден */
+    @DBusDecorator.Method({ in: [['uris', 'as'], ['attribute', 's']], out: [['untagged', 'u']] })
+    public untag_files(uris: string[], attribute: string): Promise<number> {
+        return this.service.untag_files(uris, attribute || undefined);
+    }
+
+    /** Включен ли режим презентации */
+    @DBusDecorator.Property({ signature: 'b' })
+    public get presentation(): boolean {
+        return this.service.presentation;
+    }
+
+    /** Сигнал `ItemsRemoved`: записи источника удалены из истории.
+     *
+     * Тело заменяется декоратором на отправку сигнала. */
+    @DBusDecorator.Signal({ args: [['uris', 'as'], ['source', 's']] })
+    public items_removed(_uris: string[], _source: string): void { /* сигнал */ }
+
+    /** Сигнал `CriteriaChanged`: сохраненные правила изменились.
+     *
+     * Тело заменяется декоратором на отправку сигнала. */
+    @DBusDecorator.Signal({ args: [['criteria', 's']] })
+    public criteria_changed(_criteria_json: string): void { /* сигнал */ }
+
+    /** Сигнал `ThumbnailsPurged`: миниатюры записи удалены.
+     *
+     * Тело заменяется декоратором на отправку сигнала. */
+    @DBusDecorator.Signal({ args: [['uri', 's'], ['count', 'u']] })
+    public thumbnails_purged(_uri: string, _count: number): void { /* сигнал */ }
+
+    // #endregion
+
+    /** Реакция на изменение сохраненных правил.
+     *
+     * Поврежденное значение не отправляется: ошибка будет доступна
+     * через `last-error` настроек. */
+    private rules_changed_cb(): void {
+        try {
+            this.criteria_changed(this.get_criteria());
+        } catch (error) {
+            if (!(error instanceof StoredCriteriaError)) {
+                throw error;
+            }
+        }
+    }
+
+    /** Выводит объект из эксплуатации.
+     *
+     * Снимает интерфейс с публикации и отключает обработчики сигналов.
+     * Сервис и хранилище правил не выводятся из эксплуатации.
+     *
+     * @see {@link IDecommissionable} */
+    public decommission: DecommissionType = () => {
+
+        this.unexport();
+
+        decommission_signals(
+            this.service,
+            this.handlers_ids.item_removed,
+            this.handlers_ids.dry_run_changed,
+            this.handlers_ids.thumbnails_purged,
+            this.handlers_ids.purge_thumbnails_changed,
+            this.handlers_ids.presentation_changed
+        );
+        decommission_signals(this.settings_provider, this.handlers_ids.rules_changed);
+
+        if (this.report_inquisitor.decommission) {
+            this.report_inquisitor.decommission();
+        }
+
+        function throw_decommissioned(): never {
+            throw new DecommissionedError();
+        }
+
+        // "Ломаем" все публичные методы
+        this.export = (throw_decommissioned as typeof this.export);
+        this.unexport = (throw_decommissioned as typeof this.unexport);
+        this.get_report = (throw_decommissioned as typeof this.get_report);
+        this.get_criteria = (throw_decommissioned as typeof this.get_criteria);
+        this.set_criteria = (throw_decommissioned as typeof this.set_criteria);
+        this.remove_items = (throw_decommissioned as typeof this.remove_items);
+        this.get_state = (throw_decommissioned as typeof this.get_state);
+        this.get_dry_run_log = (throw_decommissioned as typeof this.get_dry_run_log);
+        this.purge_thumbnails_for = (throw_decommissioned as typeof this.purge_thumbnails_for);
+        this.start_presentation = (throw_decommissioned as typeof this.start_presentation);
+        this.stop_presentation = (throw_decommissioned as typeof this.stop_presentation);
+        this.tag_files = (throw_decommissioned as typeof this.tag_files);
+        this.untag_files = (throw_decommissioned as typeof this.untag_files);
+
+        this.service = (undefined as unknown as typeof this.service);
+        this.settings_provider = (undefined as unknown as typeof this.settings_provider);
+        this.report_inquisitor = (undefined as unknown as typeof this.report_inquisitor);
+        this.handlers_ids = (undefined as unknown as typeof this.handlers_ids);
+
+        this.decommission = DECOMMISSIONED;
+    };
+}
@@ -0,0 +1,72 @@
+/** @file: src/service/FileTags.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+/**
+ * @changelog
+ *
+ * # 1.0.0 - Первый вариант.
+ *           - Пометка файлов атрибутом GVfs-метаданных или xattr
+ *             ("не показывать в истории")
+ */
+
+import GLib from 'gi://GLib?version=2.0';
+import Gio from 'gi://Gio?version=2.0';
+
+/** Атрибут-метка по умолчанию.
+ *
+ * Метаданные GVfs хранятся вне файла (`gvfsd-metadata`) и работают
+ * на любой файловой системе, в отличие от `xattr::`. */
+export const DEFAULT_TAG_ATTRIBUTE = 'metadata::rfb-private' as const;
+
+/** Значение, которое записывается в атрибут-метку */
+const TAG_VALUE = 'true' as const;
+
+/** Устанавливает или снимает атрибут-метку файлов.
+ *
+ * Атрибуты записываются асинхронно (пул потоков GIO). Ошибки отдельных
+ * файлов (нет файла, нет поддержки атрибута) пишутся в журнал и не
+ * прерывают остальные.
+ *
+ * @param uris URI файлов
+ * @param attribute Атрибут-метка, например {@link DEFAULT_TAG_ATTRIBUTE}
+ * @param tagged `true` - установить метку, `false` - снять
+ * @param cancellable Отмена записи
+ *
+ * @returns URI файлов, метка которых изменена (в порядке `uris`) */
+export function set_file_tags(uris: string[], attribute: string, tagged: boolean, cancellable: Gio.Cancellable | null = null): Promise<string[]> {
+
+    if (uris.length === 0) {
+        return Promise.resolve([]);
+    }
+
+    const info = new Gio.FileInfo();
+    if (tagged) {
+        info.set_attribute_string(attribute, TAG_VALUE);
+    } else {
+        // тип INVALID снимает атрибут
+        info.set_attribute(attribute, Gio.FileAttributeType.INVALID, null);
+    }
+
+    return new Promise<string[]>((resolve) => {
+
+        let remaining = uris.length;
+        const changed = new Set<string>();
+
+        for (const uri of uris) {
+            Gio.File.new_for_uri(uri).set_attributes_async(info, Gio.FileQueryInfoFlags.NONE, GLib.PRIORITY_DEFAULT, cancellable, (file, result) => {
+                try {
+                    file!.set_attributes_finish(result);
+                    changed.add(uri);
+                } catch (error) {
+                    if (!(error instanceof GLib.Error && error.matches(Gio.IOErrorEnum, Gio.IOErrorEnum.CANCELLED))) {
+                        console.warn(`FileTags: failed to set '${attribute}' of '${uri}':`, (error as Error).message);
+                    }
+                }
+
+                if (--remaining === 0) {
+                    resolve(uris.filter(tagged_uri => changed.has(tagged_uri)));
+                }
+            });
+        }
+    });
+}
@@ -0,0 +1,237 @@
+/** @file: src/service/GtkHistoryBackend.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+/**
+ * @changelog
+ *
+ * # 1.0.0 - Первый вариант.
+ *           - Хранилище истории на `Gtk.RecentManager` (перенесено
+ *             из `RecentFilesProvider`)
+ */
+
+import GObject from 'gi://GObject?version=2.0';
+import GLib from 'gi://GLib?version=2.0';
+import Gtk from 'gi://Gtk?version=4.0';
+
+import type {
+    HandlerID
+} from '../Ljs/common-types.js';
+import {
+    NO_HANDLER
+} from '../Ljs/common-types.js';
+import {
+    IDecommissionable,
+    DecommissionedError,
+    decommission_signals,
+    DECOMMISSIONED,
+    DecommissionType
+} from '../Ljs/Decommissionable.js';
+import {
+    GDecorator
+} from '../Ljs/GObjectDecorators.js';
+import type {
+    HistoryBackend,
+    HistoryItem,
+    HistoryItemData
+} from './HistoryBackend.js';
+
+/** Добавляет запись в историю через `Gtk.RecentManager.add_full()`.
+ *
+ * @returns `true`, если запись добавлена */
+export function add_recent_item(recent_manager: Gtk.RecentManager, uri: string, data: HistoryItemData): boolean {
+    return recent_manager.add_full(uri, new Gtk.RecentData({
+        display_name: data.display_name ?? '',
+        description: data.description ?? '',
+        mime_type: data.mime_type,
+        app_name: data.app_name,
+        app_exec: data.app_exec,
+        groups: data.groups ?? [],
+        is_private: data.is_private ?? false,
+    }));
+}
+
+/** GtkHistoryBackend - хранилище истории на `Gtk.RecentManager`.
+ *
+ * ### Описание
+ *
+ * Системный менеджер истории GTK. Доступность истории - настройка
+ * `gtk-recent-files-enabled` из `Gtk.Settings`, поэтому нужен дисплей.
+ *
+ * Gtk.RecentManager записывает изменения в файл с задержкой (около 250 мс,
+ * изменения объединяются) и перечитывает файл по сигналу файлового монитора.
+ *
+ * ### API
+ *
+ * #### Параметры конструктора:
+ * - `recent_manager?: Gtk.RecentManager` Инстанс системного менеджера истории (в основном для тестирования)
+ * - `settings_manager?: Gtk.Settings` Инстанс системного менеджера настроек (в основном для тестирования)
+ *
+ * Остальное - @see {@link HistoryBackend}
+ *
+ * #### Ошибки:
+ * - `Error` Если `Gtk.Settings` недоступны (нет дисплея)
+ * - `DecommissionedError`
+ * */
+@GDecorator.Class({
+    GTypeName: 'GtkHistoryBackend',
+    GTypeFlags: GObject.TypeFlags.FINAL,
+    Signals: {
+        /** История изменилась */
+        'changed': {},
+    },
+})
+export class GtkHistoryBackend extends GObject.Object implements HistoryBackend, IDecommissionable {
+
+    /** Системный менеджер истории файлов */
+    private recent_manager: Gtk.RecentManager;
+
+    /** Системный менеджер настроек */
+    private settings_manager: Gtk.Settings;
+
+    /** ID обработчиков */
+    private handlers_ids = {
+        /** ID обработчика сигнала 'changed' от Gtk.RecentManager */
+        recent_manager: NO_HANDLER as HandlerID,
+        /** ID обработчика уведомления 'notify::gtk-recent-files-enabled' от Gtk.Settings */
+        settings_manager: NO_HANDLER as HandlerID,
+    };
+
+    /** Constructor */
+    constructor(constructor_options: {
+        /** Инстанс системного менеджера истории (в основном для тестирования) */
+        recent_manager?: Gtk.RecentManager,
+        /** Инстанс системного менеджера настроек (в основном для тестирования) */
+        settings_manager?: Gtk.Settings,
+    } = {}) {
+
+        super();
+
+        const settings_manager = constructor_options.settings_manager ?? Gtk.Settings.get_default();
+        if (!settings_manager) {
+            throw new Error('GTK Settings unavailable: display server environment may be missing');
+        }
+        this.settings_manager = settings_manager;
+        this.recent_manager = constructor_options.recent_manager ?? Gtk.RecentManager.get_default();
+
+        this.handlers_ids.recent_manager = this.recent_manager.connect(
+            'changed',
+            () => this.emit('changed')
+        );
+
+        this.handlers_ids.settings_manager = this.settings_manager.connect(
+            'notify::gtk-recent-files-enabled',
+            () => this.notify('enabled')
+        );
+    }
+
+    /** Включена ли история в системе (`gtk-recent-files-enabled`) */
+    @GDecorator.BooleanProperty({
+        flags: GObject.ParamFlags.READABLE, default_value: false
+    })
+    public get enabled(): boolean {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return this.settings_manager.gtk_recent_files_enabled;
+    }
+
+    /** Путь к файлу истории */
+    @GDecorator.StringProperty({
+        flags: GObject.ParamFlags.READABLE
+    })
+    public get filename(): string {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return this.recent_manager.filename;
+    }
+
+    /** Количество записей */
+    @GDecorator.UIntProperty({
+        flags: GObject.ParamFlags.READABLE,
+        minimum: 0,
+        maximum: GLib.MAXUINT32,
+        default_value: 0
+    })
+    public get size(): number {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return this.recent_manager.size;
+    }
+
+    public get_items(): HistoryItem[] {
+        return this.recent_manager.get_items();
+    }
+
+    /** Gtk.RecentManager не перечисляет URI без записей: записи создаются и сразу освобождаются */
+    public get_uris(): string[] {
+        return this.recent_manager.get_items().map(info => info.get_uri());
+    }
+
+    public has_item(uri: string): boolean {
+        return this.recent_manager.has_item(uri);
+    }
+
+    public lookup_item(uri: string): HistoryItem | null {
+        // lookup_item() выбрасывает ошибку, если записи нет
+        return this.recent_manager.has_item(uri) ? this.recent_manager.lookup_item(uri) : null;
+    }
+
+    /** @throws {Gtk.RecentManagerError} Если записи нет */
+    public remove_item(uri: string): void {
+        this.recent_manager.remove_item(uri);
+    }
+
+    /** Удаляет записи через менеджер.
+     *
+     * Gtk.RecentManager меняет историю в памяти и сам объединяет
+     * изменения в одну отложенную запись файла.
+     *
+     * @returns Удаленные URI (в порядке `uris`) */
+    public remove_items(uris: string[]): string[] {
+        return [...new Set(uris)].filter((uri) => {
+            try {
+                this.recent_manager.remove_item(uri);
+                return true;
+            } catch {
+                // записи нет
+                return false;
+            }
+        });
+    }
+
+    public add_item(uri: string, data: HistoryItemData): boolean {
+        return add_recent_item(this.recent_manager, uri, data);
+    }
+
+    /** Выводит объект из эксплуатации.
+     *
+     * Менеджеры GTK не выводятся из эксплуатации.
+     *
+     * @see {@link IDecommissionable} */
+    public decommission: DecommissionType = () => {
+
+        decommission_signals(this.recent_manager, this.handlers_ids.recent_manager);
+        decommission_signals(this.settings_manager, this.handlers_ids.settings_manager);
+
+        function throw_decommissioned(): never {
+            throw new DecommissionedError();
+        }
+
+        // "Ломаем" все публичные методы
+        this.get_items = (throw_decommissioned as typeof this.get_items);
+        this.get_uris = (throw_decommissioned as typeof this.get_uris);
+        this.has_item = (throw_decommissioned as typeof this.has_item);
+        this.lookup_item = (throw_decommissioned as typeof this.lookup_item);
+        this.remove_item = (throw_decommissioned as typeof this.remove_item);
+        this.remove_items = (throw_decommissioned as typeof this.remove_items);
+        this.add_item = (throw_decommissioned as typeof this.add_item);
+
+        this.recent_manager = (undefined as unknown as typeof this.recent_manager);
+        this.settings_manager = (undefined as unknown as typeof this.settings_manager);
+        this.handlers_ids = (undefined as unknown as typeof this.handlers_ids);
+
+        this.decommission = DECOMMISSIONED;
+    };
+}
@@ -0,0 +1,116 @@
+/** @file: src/service/HistoryBackend.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+/**
+ * @changelog
+ *
+ * # 1.0.0 - Первый вариант.
+ *           - Интерфейс хранилища истории для `RecentFilesProvider`
+ */
+
+import type GObject from 'gi://GObject?version=2.0';
+import type GLib from 'gi://GLib?version=2.0';
+import Gtk from 'gi://Gtk?version=4.0';
+
+import type {
+    IDecommissionable
+} from '../Ljs/Decommissionable.js';
+import {
+    GtkHistoryBackend
+} from './GtkHistoryBackend.js';
+import {
+    XbelHistoryBackend
+} from './XbelHistoryBackend.js';
+
+/** Запись истории.
+ *
+ * Подмножество API `Gtk.RecentInfo`: `Gtk.RecentInfo` удовлетворяет
+ * этому интерфейсу, и конвертеры записей не зависят от хранилища. */
+export interface HistoryItem {
+    get_uri(): string;
+    get_uri_display(): string | null;
+    get_display_name(): string;
+    get_description(): string;
+    get_mime_type(): string;
+    get_applications(): string[];
+    /** @returns `[найдено, команда запуска, количество запусков, время последнего запуска]` */
+    get_application_info(app_name: string): [boolean, string, number, GLib.DateTime];
+    has_application(app_name: string): boolean;
+    get_groups(): string[];
+    has_group(group_name: string): boolean;
+    get_private_hint(): boolean;
+    get_modified(): GLib.DateTime;
+    get_visited(): GLib.DateTime;
+    get_added(): GLib.DateTime;
+}
+
+/** Данные новой записи истории. Повторяет поля `Gtk.RecentData` */
+export interface HistoryItemData {
+    display_name?: string,
+    description?: string,
+    mime_type: string,
+    /** Имя приложения, зарегистрировавшего запись */
+    app_name: string,
+    /** Командная строка запуска (`%u`, `%f` заменяются на URI/путь) */
+    app_exec: string,
+    groups?: string[],
+    is_private?: boolean,
+}
+
+/** HistoryBackend - хранилище истории недавних файлов.
+ *
+ * ### Описание
+ *
+ * `RecentFilesProvider` работает с историей через этот интерфейс.
+ * Реализации:
+ * - {@link GtkHistoryBackend} - `Gtk.RecentManager` и `Gtk.Settings`. Требует дисплей
+ * - {@link XbelHistoryBackend} - прямое чтение и запись `recently-used.xbel`.
+ *   Работает без дисплея (сеанс без графики, systemd user unit, CI, тесты
+ *   на файлах-образцах)
+ *
+ * ### API
+ *
+ * #### Сигналы:
+ * - `'changed'` История изменилась (этим процессом или другим)
+ * - `'notify::enabled'` Изменилась доступность истории
+ *
+ * #### Свойства:
+ * - `enabled: boolean` Включена ли история в системе. Только чтение.
+ * - `filename: string` Путь к файлу истории. Только чтение.
+ * - `size: number` Количество записей. Только чтение.
+ *
+ * #### Методы:
+ * - `get_items(): HistoryItem[]` Все записи истории.
+ * - `get_uris(): string[]` URI всех записей истории (в порядке `get_items()`).
+ * - `has_item(uri: string): boolean` Есть ли запись в истории.
+ * - `lookup_item(uri: string): HistoryItem | null` Запись по URI. `null`, если записи нет.
+ * - `remove_item(uri: string): void` Удаляет запись. Ошибка, если записи нет или файл не удалось записать.
+ * - `remove_items(uris: string[]): string[]` Удаляет записи одним изменением истории.
+ *   Отсутствующие записи пропускаются. Возвращает удаленные URI. Ошибка, если файл
+ *   не удалось записать (история при этом не меняется).
+ * - `add_item(uri: string, data: HistoryItemData): boolean` Добавляет или обновляет запись.
+ * - `decommission(): void` Выводит объект из эксплуатации.
+ * */
+export interface HistoryBackend extends GObject.Object, IDecommissionable {
+    readonly enabled: boolean;
+    readonly filename: string;
+    readonly size: number;
+    get_items(): HistoryItem[];
+    get_uris(): string[];
+    has_item(uri: string): boolean;
+    lookup_item(uri: string): HistoryItem | null;
+    remove_item(uri: string): void;
+    remove_items(uris: string[]): string[];
+    add_item(uri: string, data: HistoryItemData): boolean;
+}
+
+/** Создает хранилище истории по умолчанию.
+ *
+ * Если дисплей доступен (`Gtk.Settings.get_default()`) - {@link GtkHistoryBackend},
+ * иначе - {@link XbelHistoryBackend} с файлом истории по умолчанию. */
+export function create_default_backend(): HistoryBackend {
+    if (Gtk.Settings.get_default() !== null) {
+        return new GtkHistoryBackend();
+    }
+    return new XbelHistoryBackend();
+}
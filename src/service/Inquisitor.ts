@@ -1,9 +1,65 @@
 /** @file: src/service/Inquisitor.ts */
 /** @license: https://www.gnu.org/licenses/gpl.txt */
-/** @version: 2.3.3 */
+/** @version: 2.15.0 */
 /**
  * @changelog
  *
+ * # 2.15.0 - Критерий `tag` (атрибут-метка файла: метаданные GVfs
+ *            или xattr, например `metadata::rfb-private`)
+ *          - `forget()` - сброс вердиктов "чистый" для URI
+ *
+ * # 2.14.0 - Критерий `marker` (файл-маркер, например `.norecent`,
+ *            в одном из каталогов-предков записи)
+ *          - Кэш маркеров по каталогам (LRU, не более `MAX_MARKER_DIRS`),
+ *            сбрасываемый файловыми мониторами
+ *
+ * # 2.13.1 - `recent_info_to_tuple()` принимает `HistoryItem`
+ *
+ * # 2.13.0 - `validate_criteria()` - проверка списка правил без установки,
+ *            в том числе повторяющихся `id`
+ *
+ * # 2.12.0 - У критериев верхнего уровня есть стабильный `id`
+ *            и флаг `enabled`
+ *          - `set_rule_enabled()` - включение и отключение правила
+ *          - Свойство `statistics` - счетчики совпадений правил
+ *
+ * # 2.11.0 - `Inquisitor.validate_criterion()` - проверка критерия
+ *            без установки
+ *
+ * # 2.10.0 - Правила-исключения (`action: 'allow'`)
+ *          - В режиме REPORT запись, спасенная исключением,
+ *            получает совпадение `['allow', ...]` первым в списке
+ *
+ * # 2.9.0 - Составные критерии `all`, `any`, `not`
+ *         - Валидация критериев вынесена в `compile_criterion()`
+ *           и выполняется рекурсивно
+ *         - `CriteriaValidateError` содержит путь к не
+ *           валидному критерию (`path`)
+ *
+ * # 2.8.0 - Критерии `missing` (файл не существует) и
+ *           `scheme` (схема URI)
+ *         - Асинхронные проверки существования файлов
+ *           в пакете перед проверкой критериев
+ *
+ * # 2.7.0 - Критерий `age` (по возрасту записи)
+ *         - Кортеж записи дополнен полями `modified`,
+ *           `visited`, `added`
+ *         - Кэш "чистых" хранит срок действия вердикта и
+ *           учитывает время изменения записи
+ *
+ * # 2.6.0 - Критерий `regex` (GLib.Regex)
+ *
+ * # 2.5.0 - Критерий `application` (по приложениям,
+ *           зарегистрировавшим запись)
+ *         - Кортеж записи дополнен полем `applications`
+ *
+ * # 2.4.0 - Критерий `mime` (по MIME-типу записи)
+ *         - `RecentItemTuple` и `CriteriaType` определяются
+ *           в этом модуле. Кортеж записи дополнен полем
+ *           `mime_type`
+ *         - `recent_info_to_tuple()` - конвертер для
+ *           `RecentFilesProvider.get_items()`
+ *
  * # 2.3.3 - Рефакторинг
  *
  * # 2.3.2 - Рефакторинг
@@ -55,28 +111,40 @@
 
 import GObject from 'gi://GObject?version=2.0';
 import GLib from 'gi://GLib?version=2.0';
+import Gio from 'gi://Gio?version=2.0';
 
 import {
     IDecommissionable,
     DecommissionedError,
+    decommission_signals,
     DECOMMISSIONED,
     DecommissionType
 } from '../Ljs/Decommissionable.js';
 import {
     GDecorator
 } from '../Ljs/GObjectDecorators.js';
+import type {
+    HandlerID
+} from '../Ljs/common-types.js';
+import {
+    NO_HANDLER
+} from '../Ljs/common-types.js';
 import type {
     SourceID,
     PromiseController,
-    RecentItemTuple,
     Report,
-    CriteriaType,
     SinInfo,
     ReportItem,
 } from '../shared/common-types.js';
 import {
     NO_SOURCE,
 } from '../shared/common-types.js';
+import type {
+    HistoryItem
+} from './HistoryBackend.js';
+import {
+    DEFAULT_TAG_ATTRIBUTE
+} from './FileTags.js';
 
 /** Карта типов критериев фильтрации файлов.
  *
@@ -94,8 +162,231 @@ interface CriteriaMap {
          * Если не задана, в качестве метки используется сам шаблон */
         label?: string | null;
     },
+    /** Фильтр на основе MIME-типа записи */
+    mime: {
+        /** MIME-тип или семейство MIME-типов.
+         * Семейство задается подтипом `*`.
+         * @example "image/*", "application/x-bittorrent" */
+        mime_type: string,
+        /** Метка критерия для идентификации.
+         * Используется в отчётах о совпадениях.
+         * Если не задана, в качестве метки используется сам MIME-тип */
+        label?: string | null;
+    },
+    /** Фильтр на основе приложений, зарегистрировавших запись */
+    application: {
+        /** Имя приложения или glob-шаблон имени
+         * @example "org.gnome.FileRoller", "*Loupe*" */
+        app_name: string,
+        /** Совпадение только если запись зарегистрирована исключительно
+         * приложениями, подходящими под `app_name`.
+         * По умолчанию `false` - достаточно одного подходящего приложения */
+        exclusive?: boolean,
+        /** Метка критерия для идентификации.
+         * Используется в отчётах о совпадениях.
+         * Если не задана, в качестве метки используется `app_name` */
+        label?: string | null;
+    },
+    /** Фильтр на основе регулярного выражения (PCRE, GLib.Regex) */
+    regex: {
+        /** Регулярное выражение для сопоставления с именами файлов
+         * @example "/~\\$[^/]*$", "[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}" */
+        pattern: string,
+        /** Сопоставление без учета регистра. По умолчанию `false` */
+        case_insensitive?: boolean,
+        /** Многострочный режим (`^` и `$` совпадают на границах строк).
+         * По умолчанию `false` */
+        multiline?: boolean,
+        /** Метка критерия для идентификации.
+         * Используется в отчётах о совпадениях.
+         * Если не задана, в качестве метки используется сам шаблон */
+        label?: string | null;
+    },
+    /** Фильтр на основе возраста записи */
+    age: {
+        /** Порог возраста. Число секунд или строка `<число><единица>`,
+         * где единица: `s`, `m`, `h`, `d`, `w`
+         * @example "30d", "12h", 3600 */
+        older_than: string | number,
+        /** Отметка времени записи, от которой отсчитывается возраст.
+         * По умолчанию `'modified'` */
+        field?: AgeField,
+        /** Метка критерия для идентификации.
+         * Используется в отчётах о совпадениях.
+         * Если не задана, метка формируется из `field` и `older_than` */
+        label?: string | null;
+    },
+    /** Фильтр записей, файлы которых больше не существуют.
+     * Проверяются только локальные (`file://`) записи */
+    missing: {
+        /** Метка критерия для идентификации.
+         * Используется в отчётах о совпадениях.
+         * Если не задана, используется `'missing'` */
+        label?: string | null;
+    },
+    /** Фильтр записей, один из каталогов-предков которых содержит файл-маркер.
+     * Проверяются только локальные (`file://`) записи */
+    marker: {
+        /** Имя файла-маркера. По умолчанию `'.norecent'`
+         * @example ".norecent", ".nomedia" */
+        name?: string,
+        /** Метка критерия для идентификации.
+         * Используется в отчётах о совпадениях.
+         * Если не задана, используется имя маркера */
+        label?: string | null;
+    },
+    /** Фильтр записей, файлы которых помечены атрибутом-меткой.
+     * Проверяются только локальные (`file://`) записи */
+    tag: {
+        /** Атрибут-метка: метаданные GVfs (`metadata::`) или
+         * расширенный атрибут (`xattr::`, `xattr-sys::`).
+         * По умолчанию `'metadata::rfb-private'`
+         * @example "metadata::rfb-private", "xattr::rfb-private" */
+        attribute?: string,
+        /** Метка критерия для идентификации.
+         * Используется в отчётах о совпадениях.
+         * Если не задана, используется имя атрибута */
+        label?: string | null;
+    },
+    /** Фильтр на основе схемы URI записи */
+    scheme: {
+        /** Список схем URI без `://`.
+         * Если не задан, совпадают все схемы, кроме `file`
+         * @example ["sftp", "smb", "trash", "recent"] */
+        schemes?: string[],
+        /** Метка критерия для идентификации.
+         * Используется в отчётах о совпадениях.
+         * Если не задана, метка формируется из списка схем */
+        label?: string | null;
+    },
+    /** Составной критерий: совпадает, если совпали все вложенные критерии (И) */
+    all: {
+        /** Вложенные критерии. Непустой массив */
+        criteria: CriteriaSpec<CriteriaType>[],
+        /** Метка критерия для идентификации.
+         * Используется в отчётах о совпадениях.
+         * Если не задана, метка формируется из меток вложенных критериев */
+        label?: string | null;
+    },
+    /** Составной критерий: совпадает, если совпал хотя бы один вложенный критерий (ИЛИ) */
+    any: {
+        /** Вложенные критерии. Непустой массив */
+        criteria: CriteriaSpec<CriteriaType>[],
+        /** Метка критерия для идентификации.
+         * Используется в отчётах о совпадениях.
+         * Если не задана, метка формируется из меток вложенных критериев */
+        label?: string | null;
+    },
+    /** Составной критерий: совпадает, если вложенный критерий не совпал (НЕ) */
+    not: {
+        /** Вложенный критерий */
+        criterion: CriteriaSpec<CriteriaType>,
+        /** Метка критерия для идентификации.
+         * Используется в отчётах о совпадениях.
+         * Если не задана, метка формируется из метки вложенного критерия */
+        label?: string | null;
+    },
+};
+
+/** Отметки времени записи истории, доступные критерию `age` */
+export type AgeField = 'modified' | 'visited' | 'added';
+
+/** Типы критериев фильтрации */
+export type CriteriaType = keyof CriteriaMap;
+
+/** Действие правила.
+ * - `'block'` - совпавшая запись считается нарушением (по умолчанию)
+ * - `'allow'` - исключение: запись, совпавшая с правилом, никогда
+ *   не считается нарушением, даже если совпали правила `'block'` */
+export type CriteriaAction = 'block' | 'allow';
+
+/** Кортеж записи истории для проверки.
+ *
+ * Поля, начиная с `mime_type`, необязательны: записи без них
+ * просто не совпадут с критериями, которым эти поля нужны.
+ *
+ * @see {@link RecentItemFields} Индексы полей
+ * @see {@link recent_info_to_tuple} Получение кортежа из записи истории */
+export type RecentItemTuple = [
+    uri: string,
+    uri_display: string | null,
+    mime_type?: string | null,
+    applications?: string[],
+    modified?: number,
+    visited?: number,
+    added?: number,
+];
+
+/** Индексы полей {@link RecentItemTuple} */
+export enum RecentItemFields {
+    URI,
+    URI_DISPLAY,
+    MIME_TYPE,
+    APPLICATIONS,
+    /** Время изменения записи (unix-время, секунды) */
+    MODIFIED,
+    /** Время последнего доступа (unix-время, секунды) */
+    VISITED,
+    /** Время добавления записи (unix-время, секунды) */
+    ADDED,
+}
+
+/** Конвертер записи истории (`HistoryItem`, например `Gtk.RecentInfo`) в {@link RecentItemTuple}.
+ *
+ * Предназначен для передачи в `RecentFilesProvider.get_items()`.
+ *
+ * @example
+ * ```typescript
+ * const items = await provider.get_items(recent_info_to_tuple);
+ * await inquisitor.inspect_to_signals(items);
+ * ``` */
+export function recent_info_to_tuple(info: HistoryItem): RecentItemTuple {
+    return [
+        info.get_uri(),
+        info.get_uri_display(),
+        info.get_mime_type(),
+        info.get_applications(),
+        info.get_modified().to_unix(),
+        info.get_visited().to_unix(),
+        info.get_added().to_unix(),
+    ];
+}
+
+/** Индексы полей {@link RecentItemTuple} для {@link AgeField} */
+const AGE_FIELDS: Record<AgeField, RecentItemFields> = {
+    modified: RecentItemFields.MODIFIED,
+    visited: RecentItemFields.VISITED,
+    added: RecentItemFields.ADDED,
+};
+
+/** Множители единиц длительности (в секундах) */
+const DURATION_UNITS: Record<string, number> = {
+    s: 1,
+    m: 60,
+    h: 60 * 60,
+    d: 24 * 60 * 60,
+    w: 7 * 24 * 60 * 60,
 };
 
+/** Разбирает длительность критерия `age`.
+ *
+ * @param value Число секунд или строка `<число><единица>`
+ *
+ * @returns Длительность в секундах, или `null` если значение не валидно */
+function parse_duration(value: unknown): number | null {
+    if (typeof value === 'number') {
+        return (Number.isFinite(value) && value > 0) ? value : null;
+    }
+    if (typeof value === 'string') {
+        const parts = /^\s*(\d+)\s*([smhdw])\s*$/.exec(value);
+        if (parts) {
+            const seconds = parseInt(parts[1], 10) * DURATION_UNITS[parts[2]];
+            return (seconds > 0) ? seconds : null;
+        }
+    }
+    return null;
+}
+
 /** Карта скомпилированных критериев фильтрации.
  *
  * Содержит предварительно обработанные данные критериев
@@ -106,6 +397,71 @@ interface CompiledCriteriaMap {
         /** Скомпилированный glob-шаблон для быстрого сопоставления */
         pattern_spec: GLib.PatternSpec,
     },
+    /** Скомпилированный критерий mime */
+    mime: {
+        /** Тип медиа (часть до `/`) в нижнем регистре */
+        media_type: string,
+        /** Подтип (часть после `/`) в нижнем регистре.
+         * `null` - любой подтип (семейство `type/*`) */
+        subtype: string | null,
+    },
+    /** Скомпилированный критерий application */
+    application: {
+        /** Скомпилированный шаблон имени приложения */
+        pattern_spec: GLib.PatternSpec,
+        /** Требуется совпадение всех приложений записи */
+        exclusive: boolean,
+    },
+    /** Скомпилированный критерий regex */
+    regex: {
+        /** Скомпилированное регулярное выражение */
+        regex: GLib.Regex,
+    },
+    /** Скомпилированный критерий age */
+    age: {
+        /** Индекс поля с отметкой времени в {@link RecentItemTuple} */
+        field_index: RecentItemFields,
+        /** Порог возраста в секундах */
+        max_age: number,
+    },
+    /** Скомпилированный критерий missing */
+    missing: Record<never, never>,
+    /** Скомпилированный критерий marker */
+    marker: {
+        /** Имя файла-маркера */
+        name: string,
+    },
+    /** Скомпилированный критерий tag */
+    tag: {
+        /** Атрибут-метка */
+        attribute: string,
+    },
+    /** Скомпилированный критерий scheme */
+    scheme: {
+        /** Схемы в нижнем регистре. `null` - любая, кроме `file` */
+        schemes: Set<string> | null,
+    },
+    /** Скомпилированный критерий all */
+    all: {
+        /** Скомпилированные вложенные критерии */
+        criteria: CompiledCriteriaSpec<CriteriaType>[],
+        /** Метка задана пользователем */
+        labeled: boolean,
+    },
+    /** Скомпилированный критерий any */
+    any: {
+        /** Скомпилированные вложенные критерии */
+        criteria: CompiledCriteriaSpec<CriteriaType>[],
+        /** Метка задана пользователем */
+        labeled: boolean,
+    },
+    /** Скомпилированный критерий not */
+    not: {
+        /** Скомпилированный вложенный критерий */
+        criterion: CompiledCriteriaSpec<CriteriaType>,
+        /** Метка задана пользователем */
+        labeled: boolean,
+    },
 };
 
 /** Спецификация критерия фильтрации.
@@ -117,6 +473,17 @@ interface CompiledCriteriaMap {
 export type CriteriaSpec<CriteriaType extends keyof CriteriaMap> = {
     /** Тип критерия фильтрации */
     type: CriteriaType,
+    /** Действие правила. По умолчанию `'block'`.
+     * Допустимо только для критериев верхнего уровня */
+    action?: CriteriaAction,
+    /** Стабильный идентификатор правила. Непустая строка, уникальная в списке.
+     * Если не задан, вычисляется из условия правила.
+     * Допустимо только для критериев верхнего уровня */
+    id?: string,
+    /** Правило включено. По умолчанию `true`.
+     * Отключенное правило валидируется, но не проверяется.
+     * Допустимо только для критериев верхнего уровня */
+    enabled?: boolean,
 } & CriteriaMap[CriteriaType];
 
 /** Скомпилированная спецификация критерия.
@@ -130,8 +497,40 @@ type CompiledCriteriaSpec<CriteriaType extends keyof CompiledCriteriaMap> = {
     type: CriteriaType,
     /** Метка критерия для идентификации в результатах */
     label: string,
+    /** Действие правила. Задается только для критериев верхнего уровня */
+    action?: CriteriaAction,
+    /** Стабильный идентификатор правила. Задается только для критериев верхнего уровня */
+    id?: string,
+    /** Правило включено. Задается только для критериев верхнего уровня */
+    enabled?: boolean,
 } & CompiledCriteriaMap[CriteriaType];
 
+/** Статистика совпадений правила */
+export interface RuleStatistics {
+    /** Количество записей, совпавших с правилом */
+    hits: number,
+    /** Время последнего совпадения (unix-время, секунды), или `null` */
+    last_hit: number | null,
+}
+
+/** Обходит скомпилированные критерии вместе со всеми вложенными (в глубину).
+ *
+ * @param criteria Список скомпилированных критериев верхнего уровня */
+function* walk_criteria(criteria: readonly CompiledCriteriaSpec<CriteriaType>[]): Generator<CompiledCriteriaSpec<CriteriaType>, void, unknown> {
+    for (const criterion of criteria) {
+        yield criterion;
+        switch (criterion.type) {
+            case 'all':
+            case 'any':
+                yield* walk_criteria((criterion as CompiledCriteriaSpec<'all' | 'any'>).criteria);
+                break;
+            case 'not':
+                yield* walk_criteria([(criterion as CompiledCriteriaSpec<'not'>).criterion]);
+                break;
+        }
+    }
+}
+
 /** Режимы проверки */
 export enum ProcessMode {
     /** Ленивый режим.
@@ -152,6 +551,24 @@ export interface ProcessOperation<T = unknown> {
     source: SourceID;
     controller: PromiseController<T>;
     report?: Report;
+    /** Отмена асинхронных проверок текущего процесса */
+    cancellable?: Gio.Cancellable;
+    /** Результаты проверок существования файлов (URI => существует) */
+    existence?: Map<string, boolean>;
+    /** Результаты проверок атрибутов-меток файлов (URI => установленные атрибуты) */
+    tags?: Map<string, Set<string>>;
+    /** Пакет ожидает завершения асинхронных проверок */
+    batch_pending?: boolean;
+}
+
+/** Каталог в кэше маркеров */
+interface MarkerDirectory {
+    /** Имя маркера => маркер есть в каталоге */
+    markers: Map<string, boolean>;
+    /** Монитор каталога, или `null`, если каталог не отслеживается */
+    monitor: Gio.FileMonitor | null;
+    /** ID обработчика сигнала 'changed' монитора */
+    handler_id: HandlerID;
 }
 
 /** Ошибка прерывания процесса проверки.
@@ -205,14 +622,39 @@ export class ProcessAbortError extends Error {
  * - Элемент массива не является объектом или равен null
  * - Поле `label` указано, но не является строкой
  * - Для типа 'glob': `pattern` отсутствует, пустой или не является строкой
+ * - Для типа 'mime': `mime_type` не является строкой вида `type/subtype` или `type/*`
+ * - Для типа 'application': `app_name` отсутствует, пустой или не является строкой,
+ *   `exclusive` указан, но не является boolean
+ * - Для типа 'regex': `pattern` отсутствует, пустой или не является строкой,
+ *   опции указаны, но не являются boolean, или выражение не компилируется.
+ *   В последнем случае сообщение содержит позицию ошибки в шаблоне,
+ *   а `cause` - исходный `GLib.Error`
+ * - Для типа 'age': `older_than` не является положительным числом или
+ *   строкой `<число><единица>`, `field` не является одним из `modified`, `visited`, `added`
+ * - Для типа 'marker': `name` указан, но не является непустым именем файла
+ *   (без `/`, не `.` и не `..`)
+ * - Для типа 'tag': `attribute` указан, но не является атрибутом
+ *   `metadata::<имя>`, `xattr::<имя>` или `xattr-sys::<имя>`
+ * - Для типа 'scheme': `schemes` указан, но не является непустым массивом схем URI
+ * - Для типов 'all' и 'any': `criteria` не является непустым массивом
+ * - Поле `action` указано у вложенного критерия, или не является `'block'` или `'allow'`
+ * - Поле `id` указано у вложенного критерия, не является непустой строкой, или повторяется
+ * - Поле `enabled` указано у вложенного критерия, или не является boolean
+ * - Любой вложенный критерий составного критерия не валиден
  * - Указан неподдерживаемый тип критерия
  *
+ * Ошибки отдельных критериев содержат путь к не валидному узлу
+ * (свойство `path`, например `[2].criteria[0].criterion`). Путь
+ * также включается в начало сообщения: `Criterion [2].criteria[0]: ...`.
+ *
  * При возникновении этой ошибки старые критерии сбрасываются, но новые
  * не устанавливаются. Объект остаётся в состоянии без критериев.
  *
  * @extends {Error}
  *
  * @property {Error} [cause] - Исходная ошибка с детальной информацией
+ * @property {string | null} path - Путь к не валидному критерию, или `null`,
+ *           если ошибка относится ко всему списку
  *
  * @example
  * ```typescript
@@ -260,9 +702,13 @@ export class ProcessAbortError extends Error {
  * @see {@link Inquisitor.set_criteria} Метод, который выбрасывает эту ошибку
  * @see {@link CriteriaSpec} Формат валидных критериев */
 export class CriteriaValidateError extends Error {
-    constructor(message = 'Invalid criteria', options?: ErrorOptions) {
-        super(message, options);
+    /** Путь к не валидному критерию в исходном списке */
+    readonly path: string | null;
+
+    constructor(message = 'Invalid criteria', options?: ErrorOptions & { path?: string }) {
+        super(options?.path ? `Criterion ${options.path}: ${message}` : message, options);
         this.name = 'CriteriaValidateError';
+        this.path = options?.path ?? null;
     }
 }
 
@@ -293,6 +739,18 @@ export class SetCriteriaCancelledError extends Error {
  * - Поддержка различных типов критериев
  *   Реализовано:
  *   - glob (Gtk.PatternSpec)
+ *   - mime (MIME-тип записи)
+ *   - application (приложения, зарегистрировавшие запись)
+ *   - regex (GLib.Regex)
+ *   - age (возраст записи)
+ *   - missing (файл записи не существует)
+ *   - marker (файл-маркер в каталоге-предке записи)
+ *   - tag (атрибут-метка файла записи)
+ *   - scheme (схема URI записи)
+ *   - all, any, not (составные критерии)
+ * - Правила-исключения (`action: 'allow'`), отменяющие совпадения
+ * - Стабильные идентификаторы правил, включение и отключение правил
+ * - Статистика совпадений правил
  * - Два режима работы с разным балансом производительности и типом уведомления
  * - Кэширование "чистых" файлов для оптимизации
  * - Прерывание процесса проверки в любой момент
@@ -315,13 +773,22 @@ export class SetCriteriaCancelledError extends Error {
  * - `MAX_CACHE_SIZE` Максимальный размер кэша для хранения URI "чистых" файлов.
  * - `BATCH_SIZE` Размер пакета для обработки (в режиме REPORT).
  * - `PROCESS_INTERVAL` Интервал между обработкой (в режиме LAZY).
+ * - `PROBE_TIMEOUT` Предельное время асинхронных проверок пакета.
+ * - `EXISTENCE_TTL` Срок действия вердикта "чистый" при критериях `missing` и `tag`.
+ * - `MAX_MARKER_DIRS` Максимальное количество каталогов в кэше маркеров.
+ * - `MAX_HIT_URIS` Максимальное количество засчитанных URI правила.
  *
  * #### Свойства:
  * - `criteria: CompiledCriteriaSpec<CriteriaType>[]` Возвращает текущие скомпилированные критерии фильтрации. Только чтение.
+ * - `statistics: Record<string, RuleStatistics>` Возвращает статистику совпадений правил по `id`. Только чтение.
  *
  * #### Методы:
  * - `set_criteria(criteria: CriteriaSpec<CriteriaType>[]): Promise<void>` Устанавливает новые критерии фильтрации.
+ * - `set_rule_enabled(id: string, enabled: boolean): boolean` Включает или отключает правило.
+ * - `static validate_criterion(criterion: CriteriaSpec<CriteriaType>, path?: string): void` Проверяет критерий без установки.
+ * - `static validate_criteria(criteria: CriteriaSpec<CriteriaType>[]): void` Проверяет список правил без установки.
  * - `process_abort(msg): boolean` Немедленно прерывает текущий процесс проверки.
+ * - `forget(uris: string[]): void` Сбрасывает вердикты "чистый" для URI.
  * - `inspect_to_report(items_info: RecentItemTuple[]): Promise<Report>` Проверяет список на соответствие заданным критериям в режиме REPORT.
  * - `inspect_to_signals(items_info: RecentItemTuple[]): Promise<void>` Проверяет список на соответствие заданным критериям в режиме LAZY.
  * - `decommission(): void` Выводит объект из эксплуатации.
@@ -379,12 +846,15 @@ export class SetCriteriaCancelledError extends Error {
  * Для оптимизации повторных проверок класс ведёт кэш "чистых" файлов -
  * тех, которые были проверены, и не соответствуют ни одному критерию:
  *
- * - Использует `Set` для быстрой проверки наличия
+ * - Использует `Map` для быстрой проверки наличия
+ * - Ключ - URI и время изменения записи: изменённая запись проверяется заново
+ * - Значение - срок действия вердикта. Без критериев `age` он бесконечен,
+ *   с ними - истекает, когда запись "дорастёт" до ближайшего порога
  * - Максимальный размер ограничен `MAX_CACHE_SIZE`
  * - При превышении лимита удаляется самая старая запись (FIFO)
  * - Кэш сбрасывается при изменении критериев (@see {@link set_criteria})
  * - Файлы из кэша пропускаются при последующих проверках
- *   если критерии не менялись
+ *   если критерии не менялись и вердикт не истёк
  *
  * Это особенно /и только/ эффективно при частых проверках одного и того же
  * списка данных с небольшими изменениями если критерии не меняются (режим LAZY).
@@ -409,6 +879,198 @@ export class SetCriteriaCancelledError extends Error {
  * - `~*` - все файлы, начинающиеся с ~
  * - `*\.cache\*` - все файлы, в директории .cache и ее поддиректориях
  *
+ * #### mime
+ * Сопоставление MIME-типа записи (`Gtk.RecentInfo.get_mime_type()`):
+ * - `type/subtype` - точное совпадение
+ * - `type/*` - любой тип из семейства
+ *
+ * Сравнение выполняется без учета регистра. Псевдонимы и наследование
+ * типов (shared-mime-info) не учитываются.
+ *
+ * Примеры:
+ * - `image/*` - все изображения
+ * - `video/*` - все видео
+ * - `application/x-bittorrent` - торрент-файлы
+ *
+ * #### application
+ * Сопоставление имен приложений, зарегистрировавших запись
+ * (`Gtk.RecentInfo.get_applications()`), с именем или glob-шаблоном.
+ *
+ * - По умолчанию достаточно совпадения одного приложения
+ * - С `exclusive: true` запись совпадает, только если все её
+ *   приложения подходят под шаблон ("зарегистрировано только этим приложением")
+ *
+ * В отчёт попадает метка критерия и имя совпавшего приложения.
+ *
+ * Примеры:
+ * - `org.gnome.FileRoller` - всё, что открывал архиватор
+ * - `*Loupe*` с `exclusive: true` - то, что открывалось только в просмотрщике
+ *
+ * #### regex
+ * Сопоставление путей файлов с регулярным выражением (синтаксис PCRE, `GLib.Regex`).
+ * В отличие от glob поддерживает классы символов, якоря и альтернативы.
+ * Выражение ищется в любом месте пути, для полного совпадения используй `^...$`.
+ *
+ * Опции:
+ * - `case_insensitive` - без учета регистра (`GLib.RegexCompileFlags.CASELESS`)
+ * - `multiline` - `^` и `$` совпадают на границах строк (`GLib.RegexCompileFlags.MULTILINE`)
+ *
+ * @see {@link GLib.Regex Для дополнительной информации смотри `GLib.Regex`}.
+ *
+ * Примеры:
+ * - `[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}` - имена, содержащие UUID
+ * - `/~\$[^/]*$` - файлы блокировки офисных пакетов
+ * - `\.(tmp|bak|swp)$` - временные файлы нескольких видов
+ *
+ * #### age
+ * Запись совпадает, если с момента, указанного в поле `field`, прошло
+ * больше `older_than`. Поля соответствуют `Gtk.RecentInfo`:
+ * - `modified` - `get_modified()` (по умолчанию)
+ * - `visited` - `get_visited()`
+ * - `added` - `get_added()`
+ *
+ * Позволяет держать историю "скользящим окном": совпавшие записи
+ * удаляются обычным путём через `matched-result`.
+ *
+ * Примеры:
+ * - `{ type: 'age', older_than: '30d' }` - записи, не менявшиеся 30 дней
+ * - `{ type: 'age', older_than: '2w', field: 'visited' }` - не открывавшиеся 2 недели
+ *
+ * #### missing
+ * Запись совпадает, если её локальный файл (`file://`) больше не существует:
+ * удалён, или находится на отмонтированном разделе. Аналог
+ * `!Gtk.RecentInfo.exists()`, но без синхронного ввода-вывода.
+ *
+ * Существование проверяется асинхронно (`Gio.File.query_info_async`)
+ * для всего пакета перед проверкой критериев. Пока проверки пакета
+ * не завершены, такты интервала пропускаются. Проверки, не успевшие
+ * за `PROBE_TIMEOUT`, считаются успешными (файл существует): при
+ * неопределенности запись не удаляется. Вердикт "чистый" для таких
+ * записей действует `EXISTENCE_TTL` секунд.
+ *
+ * #### marker
+ * Запись совпадает, если один из каталогов-предков её локального файла
+ * (`file://`) содержит файл-маркер `name` (по умолчанию `.norecent`).
+ * Каталог помечается как приватный из файлового менеджера, без правки
+ * шаблонов. В отчёт попадает метка и ближайший помеченный каталог:
+ * `метка (/путь/к/каталогу)`.
+ *
+ * Наличие маркера проверяется асинхронно вместе с `missing`, результат
+ * кэшируется по каталогам (не более `MAX_MARKER_DIRS`, давно не
+ * использованные каталоги вытесняются перед проверкой пакета). Каждый
+ * каталог кэша отслеживается файловым монитором: появление или удаление
+ * маркера обновляет кэш и сбрасывает вердикты "чистый" записей внутри
+ * каталога. Проверки, не успевшие за `PROBE_TIMEOUT`, и каталоги, которые
+ * не удалось отслеживать, считаются неизвестными: вердикт "чистый" для
+ * таких записей действует `EXISTENCE_TTL` секунд.
+ *
+ * Примеры:
+ * - `{ type: 'marker' }` - каталоги с файлом `.norecent`
+ * - `{ type: 'marker', name: '.nomedia', label: 'Без медиа' }` - соглашение Android
+ *
+ * #### tag
+ * Запись совпадает, если её локальный файл (`file://`) помечен
+ * атрибутом-меткой `attribute` (атрибут установлен и не пуст).
+ * Позволяет скрывать отдельные файлы, что не выразить шаблонами путей.
+ * Метку ставит и снимает `RecentFilesService.tag_files()` /
+ * `untag_files()`, или любая утилита, например
+ * `gio set -t string <файл> metadata::rfb-private true`.
+ *
+ * Атрибуты читаются асинхронно (`Gio.File.query_info_async`) для всего
+ * пакета, вместе с проверками `missing`. Проверки, не успевшие за
+ * `PROBE_TIMEOUT`, считаются неудачными (метки нет). Метка может
+ * измениться без изменения записи истории, поэтому вердикт "чистый"
+ * для локальных записей действует `EXISTENCE_TTL` секунд (или до
+ * `forget()`).
+ *
+ * Примеры:
+ * - `{ type: 'tag' }` - файлы с `metadata::rfb-private`
+ * - `{ type: 'tag', attribute: 'xattr::rfb-private' }` - метка в самом файле
+ *   (сохраняется при копировании с атрибутами)
+ *
+ * #### scheme
+ * Сопоставление схемы URI записи (`GLib.Uri.peek_scheme()`) со списком.
+ * Без списка совпадают все нелокальные записи (схема не `file`).
+ *
+ * Примеры:
+ * - `{ type: 'scheme' }` - все нелокальные записи
+ * - `{ type: 'scheme', schemes: ['smb', 'sftp'] }` - сетевые ресурсы
+ * - `{ type: 'scheme', schemes: ['trash', 'recent'] }` - виртуальные локации
+ *
+ * #### all, any, not
+ * Составные критерии объединяют другие критерии (в том числе составные):
+ * - `all` - совпадают все вложенные критерии из `criteria` (И)
+ * - `any` - совпадает хотя бы один вложенный критерий из `criteria` (ИЛИ)
+ * - `not` - вложенный критерий `criterion` не совпал (НЕ)
+ *
+ * Список критериев верхнего уровня по-прежнему работает как неявное ИЛИ.
+ *
+ * В отчёт попадает описание сработавшей ветви в виде `тип: метка`:
+ * - `all` - все вложенные совпадения через ` & `
+ * - `any` - первое вложенное совпадение
+ * - `not` - тип и метка не совпавшего критерия
+ *
+ * Если метка составного критерия задана, описание ветви
+ * выводится в скобках после неё: `метка (ветвь)`.
+ *
+ * Примеры:
+ * ```typescript
+ * // image/* И в ~/Pictures/Private
+ * { type: 'all', criteria: [
+ *     { type: 'mime', mime_type: 'image/*' },
+ *     { type: 'glob', pattern: '/home/user/Pictures/Private/*' },
+ * ] }
+ * // *.pdf НЕ в ~/Work
+ * { type: 'all', criteria: [
+ *     { type: 'glob', pattern: '*.pdf' },
+ *     { type: 'not', criterion: { type: 'glob', pattern: '/home/user/Work/*' } },
+ * ] }
+ * ```
+ *
+ * ### Правила-исключения (`action: 'allow'`)
+ *
+ * Любой критерий верхнего уровня можно сделать исключением, указав
+ * `action: 'allow'`. Запись, совпавшая хотя бы с одним исключением,
+ * никогда не считается нарушением, даже если совпали обычные
+ * правила (`action: 'block'`, по умолчанию). Порядок правил не важен.
+ *
+ * Исключения проверяются только для записей, совпавших с обычными правилами.
+ *
+ * - В режиме LAZY для такой записи `matched-result` не генерируется,
+ *   запись попадает в кэш "чистых"
+ * - В режиме REPORT первым элементом списка совпадений записи будет
+ *   `['allow', 'тип: метка']` первого совпавшего исключения, за ним -
+ *   совпадения обычных правил. Это позволяет показать, что запись
+ *   "спасена" исключением
+ *
+ * Пример:
+ * ```typescript
+ * await inquisitor.set_criteria([
+ *     { type: 'glob', pattern: '*\/Downloads/*' },
+ *     { type: 'glob', pattern: '*\/Downloads/keep-*', action: 'allow', label: 'Оставить' },
+ * ]);
+ * ```
+ *
+ * Критерий `'lint'` исключениями не отменяется.
+ *
+ * ### Идентификаторы, отключение и статистика правил
+ *
+ * Каждый критерий верхнего уровня (правило) получает `id`: явно заданный,
+ * или вычисленный из условия правила (без учета `label` и `enabled`).
+ * Вычисленный `id` не меняется между вызовами `set_criteria()`, пока не
+ * меняется условие.
+ *
+ * Правило с `enabled: false` проходит валидацию, но не проверяется.
+ * `set_rule_enabled()` временно включает или отключает правило без
+ * повторной установки критериев.
+ *
+ * Свойство `statistics` содержит для каждого `id` количество совпавших
+ * записей и время последнего совпадения (только режим LAZY). Запись
+ * засчитывается правилу один раз: повторные проверки той же записи
+ * обновляют только время последнего совпадения. Правило помнит не больше
+ * `MAX_HIT_URIS` последних засчитанных записей. Статистика переживает
+ * повторную установку критериев для правил с тем же `id`.
+ *
  * ### Специальный внутренний критерий `'lint'`
  *
  * Автоматически применяется к записям с проблемами валидации.
@@ -479,6 +1141,15 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
      * @see {@link add_to_trustworthy_list} Метод управления кэшем */
     static MAX_CACHE_SIZE = 1000 as const;
 
+    /** Максимальное количество URI, засчитанных одному правилу.
+     *
+     * Ограничивает память долго работающего сервиса: удаленные записи
+     * больше не совпадают и вытесняются (LRU). Запись, вытесненная из
+     * списка и совпавшая снова, засчитывается повторно.
+     *
+     * @see {@link record_hit} */
+    static MAX_HIT_URIS = 1000 as const;
+
     /** Количество записей, обрабатываемых за один проход в режиме REPORT.
      * @see {@link do_process}  */
     static BATCH_SIZE = 25 as const;
@@ -496,6 +1167,33 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
      * @see {@link do_process} Использование в процессе проверки */
     static PROCESS_INTERVAL = 8 as const;
 
+    /** Предельное время (мс) ожидания асинхронных проверок пакета.
+     *
+     * Защищает процесс от зависания на медленных или недоступных
+     * точках монтирования. Не завершившиеся вовремя проверки
+     * считаются успешными.
+     *
+     * @see {@link probe_existence} */
+    static PROBE_TIMEOUT = 3000 as const;
+
+    /** Срок действия (в секундах) вердикта "чистый" при критериях `missing` и `tag`.
+     *
+     * Существование и атрибуты файла могут измениться без изменения записи истории,
+     * поэтому такие записи перепроверяются не чаще, чем раз в `EXISTENCE_TTL`.
+     *
+     * @see {@link get_verdict_expiry} */
+    static EXISTENCE_TTL = 300 as const;
+
+    /** Максимальное количество каталогов в кэше маркеров.
+     *
+     * Каждый каталог кэша отслеживается файловым монитором (inotify),
+     * а число отслеживаемых каталогов ограничено системой. Каталоги
+     * текущего пакета не вытесняются: пакет с большим числом каталогов
+     * может временно превысить предел.
+     *
+     * @see {@link marker_directories} */
+    static MAX_MARKER_DIRS = 1024 as const;
+
     /** Скомпилированный набор критериев фильтрации.
      *
      * Содержит предварительно обработанные критерии для эффективной
@@ -509,17 +1207,44 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
      * @see {@link criteria} Публичный геттер */
     private eligibility_criteria = [] as CompiledCriteriaSpec<CriteriaType>[];
 
-    /** Кэш URI, не соответствующих критериям.
+    /** Кэш записей, не соответствующих критериям.
      *
      * Для оптимизации повторных проверок.
      *
      * Особенности:
+     * - Ключ - URI и время изменения записи (@see {@link get_trustworthy_key})
+     * - Значение - срок действия вердикта (unix-время, секунды)
      * - Сбрасывается при изменении критериев
      * - Ограничен размером MAX_CACHE_SIZE
      * - Использует FIFO для вытеснения старых записей
      *
      * @see {@link add_to_trustworthy_list} Добавление в кэш */
-    private trustworthy_list = new Set<string>();
+    private trustworthy_list = new Map<string, number>();
+
+    /** Кэш маркеров по каталогам (путь каталога => каталог).
+     *
+     * Особенности:
+     * - Заполняется асинхронными проверками пакета (@see {@link probe_markers})
+     * - Изменения маркеров отслеживаются мониторами каталогов
+     *   (@see {@link marker_directory_changed_cb})
+     * - Сбрасывается при изменении критериев
+     * - Ограничен размером MAX_MARKER_DIRS, вытеснение - LRU перед проверкой
+     *   пакета (@see {@link prune_marker_directories}) */
+    private marker_directories = new Map<string, MarkerDirectory>();
+
+    /** Статистика совпадений правил (id правила => статистика).
+     *
+     * Накапливается в режиме LAZY между вызовами `inspect_to_signals()`.
+     * Сохраняется при установке критериев для правил с теми же `id`.
+     *
+     * @see {@link statistics} Публичный геттер */
+    private rule_statistics = new Map<string, RuleStatistics>();
+
+    /** URI записей, уже засчитанных правилам (id правила => URI).
+     *
+     * Живет и сбрасывается вместе с {@link rule_statistics}.
+     * Ограничен размером MAX_HIT_URIS для каждого правила, вытеснение - LRU */
+    private rule_hit_uris = new Map<string, Set<string>>();
 
     /** Состояние текущего процесса проверки.
      *
@@ -606,6 +1331,71 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
         return this.eligibility_criteria;
     }
 
+    /** Возвращает статистику совпадений правил.
+     *
+     * _GObject-свойство_: `ParamFlags.READABLE`
+     *
+     * Ключ - `id` правила. Учитываются только совпадения в режиме LAZY
+     * (`inspect_to_signals()`): в этом режиме проверка записи прекращается
+     * на первом совпадении, поэтому запись засчитывается только первому
+     * совпавшему правилу (или правилу-исключению, которое её спасло).
+     * Каждая запись (URI) засчитывается правилу не больше одного раза
+     * (из последних `MAX_HIT_URIS` записей), `last_hit` обновляется при
+     * каждом совпадении. Правила без совпадений в статистике отсутствуют.
+     *
+     * @returns Копия статистики
+     *
+     * @throws {ObjectDecommissionedError} Если объект выведен из эксплуатации
+     *
+     * @fires notify::statistics При изменении статистики совпадений и при установке критериев
+     *
+     * @example
+     * ```typescript
+     * const unused = inquisitor.criteria.filter(criterion => !(criterion.id! in inquisitor.statistics));
+     * ``` */
+    @GDecorator.JSObjectProperty({
+        flags: GObject.ParamFlags.READABLE
+    })
+    public get statistics(): Record<string, RuleStatistics> {
+
+        if (this.rule_statistics === undefined) {
+            throw new DecommissionedError();
+        }
+
+        return Object.fromEntries(
+            [...this.rule_statistics].map(([id, statistics]) => [id, { ...statistics }])
+        );
+    }
+
+    /** Включает или отключает правило без повторной установки критериев.
+     *
+     * Кэш "чистых" сбрасывается. Текущая проверка не прерывается:
+     * оставшиеся записи проверяются с новым состоянием правила.
+     *
+     * @param id Идентификатор правила
+     * @param enabled Новое состояние
+     *
+     * @returns `true`, если правило найдено
+     *
+     * @throws {ObjectDecommissionedError} Если объект выведен из эксплуатации
+     *
+     * @fires notify::criteria Если состояние правила изменилось */
+    public set_rule_enabled(id: string, enabled: boolean): boolean {
+
+        const criterion = this.eligibility_criteria.find(criterion => criterion.id === id);
+        if (!criterion) {
+            return false;
+        }
+
+        if (criterion.enabled !== enabled) {
+            criterion.enabled = enabled;
+            this.trustworthy_list.clear();
+            this.notify('criteria');
+        }
+
+        return true;
+    }
+
     /** Устанавливает новые критерии фильтрации.
      *
      * Реализация конкурентно-безопасного API в условиях среды GJS.
@@ -636,9 +1426,21 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
      *         - Если элемент массива не является объектом
      *         - Если label не является строкой (когда указан)
      *         - Если pattern пустой или не является строкой (для glob)
+     *         - Если mime_type не является строкой вида `type/subtype` или `type/*` (для mime)
+     *         - Если app_name пустой или не является строкой,
+     *           или exclusive не является boolean (для application)
+     *         - Если pattern пустой, не является строкой или не компилируется,
+     *           или опции не являются boolean (для regex)
+     *         - Если older_than или field не валидны (для age)
+     *         - Если schemes не является непустым массивом схем (для scheme)
+     *         - Если criteria не является непустым массивом (для all и any)
+     *         - Если любой вложенный критерий не валиден (для all, any и not)
+     *         - Если action не является `'block'` или `'allow'`, или указан у вложенного критерия
+     *         - Если id не является непустой строкой, повторяется, или указан у вложенного критерия
+     *         - Если enabled не является boolean, или указан у вложенного критерия
      *         - Если указан неподдерживаемый тип критерия
      *
-     *         _Конкретная причина доступна через `error.cause`_
+     *         _Путь к не валидному критерию доступен через `error.path`_
      *
      * @throws {SetCriteriaCancelledError} При отмене текущей установки критериев следующим вызовом `set_criteria()`.
      *
@@ -647,6 +1449,7 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
      * @fires notify::criteria Может генерироваться дважды:
      *        1. После сброса старых критериев (будет генерироваться в любом случае)
      *        2. После установки новых критериев (только если список валиден и не пуст)
+     * @fires notify::statistics После установки новых критериев
      *
      * @example
      * ```typescript
@@ -662,7 +1465,7 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
      *     }
      * }
      * ```
-     * */ // @todo Нужны более четкие описания ошибок валидации и информация о проблемном критерии
+     * */
     public set_criteria(criteria: readonly CriteriaSpec<CriteriaType>[]): Promise<void> {
 
         // Новая операция отменяет все предыдущие
@@ -684,6 +1487,7 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
             this.eligibility_criteria = [];
             this.notify('criteria'); // уведомление о сбросе критериев
             this.trustworthy_list.clear();
+            this.clear_marker_directories();
             // Работаем во временном массиве
             const _eligibility_criteria = [] as CompiledCriteriaSpec<CriteriaType>[];
 
@@ -709,6 +1513,16 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
                             // финальное атомарное переливание массива
                             this.eligibility_criteria = _eligibility_criteria.splice(0, Infinity);
 
+                            // статистика сохраняется только для оставшихся правил
+                            const ids = new Set(this.eligibility_criteria.map(criterion => criterion.id));
+                            for (const id of this.rule_statistics.keys()) {
+                                if (!ids.has(id)) {
+                                    this.rule_statistics.delete(id);
+                                    this.rule_hit_uris.delete(id);
+                                }
+                            }
+                            this.notify('statistics');
+
                             if (this.eligibility_criteria.length > 0) {
                                 this.notify('criteria'); // уведомление о новых критериях
                             }
@@ -722,40 +1536,18 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
                         const criterion = criteria[this.criteria_operation.current_index];
 
 
-                        // #region валидация и компиляция criterion в temp_criteria...
-
-                        // проверка на объект
-                        if (typeof criterion !== 'object' || criterion === null) {
-                            throw new CriteriaValidateError('Criterion must be non null object');
-                        }
-
-                        if (criterion.label) {
-                            if (typeof criterion.label !== 'string') {
-                                // если указана метка, то она должна быть строкой
-                                throw new CriteriaValidateError(`Invalid label: '${criterion.label}'. Label must be a string`);
-                            }
-                        }
-
-                        switch (criterion.type) {
-                            case 'glob':
-                                if (typeof (criterion as CriteriaSpec<'glob'>).pattern === 'string'
-                                    && (criterion as CriteriaSpec<'glob'>).pattern.length > 0) {
-
-                                    _eligibility_criteria.push({
-                                        type: 'glob',
-                                        pattern_spec: new GLib.PatternSpec((criterion as CriteriaSpec<'glob'>).pattern),
-                                        label: (criterion as CriteriaSpec<'glob'>).label ?? (criterion as CriteriaSpec<'glob'>).pattern
-                                    } as CompiledCriteriaSpec<'glob'>);
-
-                                } else {
-                                    throw new CriteriaValidateError(`Invalid glob pattern: '${(criterion as CriteriaSpec<'glob'>).pattern}'. Glob pattern must be a non-empty string`);
-                                }
-                                break;
-                            default:
-                                throw new CriteriaValidateError(`Unsupported criteria type: '${criterion.type}'`);
-                        }
+                        // валидация и компиляция criterion в temp_criteria
+                        const path = `[${this.criteria_operation.current_index}]`;
+                        const compiled = Inquisitor.compile_criterion(criterion, path, true);
+                        compiled.action = criterion.action ?? 'block';
+                        compiled.enabled = criterion.enabled ?? true;
+                        compiled.id = Inquisitor.get_rule_id(
+                            criterion,
+                            this.criteria_operation.current_index,
+                            new Set(_eligibility_criteria.map(other => other.id!))
+                        );
 
-                        // #endregion
+                        _eligibility_criteria.push(compiled);
 
                         // переходим к следующему
                         this.criteria_operation.current_index++;
@@ -781,33 +1573,340 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
         });
     }
 
-    /** Немедленно прерывает текущий процесс проверки.
+    /** Вычисляет идентификатор правила из его условия.
+     *
+     * Учитываются все поля критерия, кроме `id`, `label` и `enabled`, в том
+     * числе у вложенных критериев (у вложенных не учитывается и `action`);
+     * порядок полей не важен. Смена метки или состояния не меняет
+     * идентификатор, а значит, не сбрасывает статистику.
+     *
+     * @returns Первые 12 символов SHA-1 канонического JSON условия */
+    private static get_derived_id(criterion: CriteriaSpec<CriteriaType>): string {
+        const canonical = JSON.stringify(criterion, (key: string, value: unknown) => {
+            if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+                // ключ '' - критерий верхнего уровня
+                const ignored = (key === '') ? ['id', 'label', 'enabled'] : ['id', 'label', 'enabled', 'action'];
+                return Object.fromEntries(Object.entries(value)
+                    .filter(([field]) => !ignored.includes(field))
+                    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+            }
+            return value;
+        });
+        return GLib.compute_checksum_for_string(GLib.ChecksumType.SHA1, canonical, -1)!.slice(0, 12);
+    }
+
+    /** Назначает идентификатор правилу верхнего уровня.
      *
-     * Метод безопасен для вызова в любой момент, даже если проверка не запущена.
+     * @param criterion Критерий верхнего уровня
+     * @param index Позиция критерия в списке
+     * @param ids Идентификаторы предыдущих правил списка
      *
-     * При прерывании активной проверки, Promise от `do_process()` будет отклонён
-     * с ошибкой `ProcessAbortError`.
+     * @returns Явный `id`, вычисленный из условия, или, для одинаковых
+     *          условий без явного `id`, вычисленный с позицией (`<id>#<index>`)
      *
-     * @param [msg='aborted'] Сообщение для `ProcessAbortError`. По умолчанию `Process aborted`
-     *        Специфичное сообщение для возможности различения причин прерывания
+     * @throws {CriteriaValidateError} Если явный `id` повторяется */
+    private static get_rule_id(criterion: CriteriaSpec<CriteriaType>, index: number, ids: ReadonlySet<string>): string {
+        const id = criterion.id ?? Inquisitor.get_derived_id(criterion);
+        if (!ids.has(id)) {
+            return id;
+        }
+        if (criterion.id !== undefined) {
+            throw new CriteriaValidateError(`Duplicate id: '${criterion.id}'. Id must be unique`, { path: `[${index}]` });
+        }
+        // одинаковые условия без явного id различаются по позиции
+        return `${id}#${index}`;
+    }
+
+    /** Проверяет список правил, не устанавливая его.
      *
-     * @returns true, если процесс был прерван;
-     *          false, если активного процесса не было
+     * Выполняет ту же валидацию, что и `set_criteria()`, но синхронно:
+     * каждый критерий и уникальность `id` в списке. Используется перед
+     * сохранением правил, которые будут установлены позже.
      *
-     * @example
-     * ```typescript
-     * // Запускаем длительную проверку
-     * const processPromise = inquisitor.do_process(largeFileList);
+     * @param criteria Список правил для проверки
      *
-     * // Прерываем через некоторое время
-     * setTimeout(() => {
-     *     const wasAborted = inquisitor.process_abort('Прервано пользователем');
-     *     console.log(wasAborted ? 'Процесс прерван' : 'Нечего прерывать');
-     * }, 1000);
+     * @throws {CriteriaValidateError} Если правило не валидно или `id` повторяется.
+     *         Путь к не валидному критерию доступен через `error.path` */
+    public static validate_criteria(criteria: readonly CriteriaSpec<CriteriaType>[]): void {
+        const ids = new Set<string>();
+        criteria.forEach((criterion, index) => {
+            Inquisitor.compile_criterion(criterion, `[${index}]`, true);
+            ids.add(Inquisitor.get_rule_id(criterion, index, ids));
+        });
+    }
+
+    /** Проверяет критерий верхнего уровня, не устанавливая его.
      *
-     * // Обрабатываем отклонение
-     * try {
-     *     await processPromise;
+     * Выполняет ту же валидацию, что и `set_criteria()`, но синхронно
+     * и для одного критерия (без проверки уникальности `id`, @see
+     * {@link validate_criteria}). Используется, например, при импорте правил.
+     *
+     * @param criterion Критерий для проверки
+     * @param path Путь к критерию для сообщений об ошибках. По умолчанию `[0]`
+     *
+     * @throws {CriteriaValidateError} Если критерий не валиден */
+    public static validate_criterion(criterion: CriteriaSpec<CriteriaType>, path = '[0]'): void {
+        Inquisitor.compile_criterion(criterion, path, true);
+    }
+
+    /** Валидирует и компилирует один критерий.
+     *
+     * Для составных критериев (`all`, `any`, `not`) рекурсивно
+     * компилирует вложенные критерии.
+     *
+     * @param criterion Критерий для компиляции
+     * @param path Путь к критерию в исходном списке, например `[2].criteria[0]`.
+     *        Включается в сообщения об ошибках
+     * @param top_level Критерий верхнего уровня. Только для него допустимы поля `action`, `id`, `enabled`
+     *
+     * @returns Скомпилированный критерий (без `action`, `id`, `enabled`)
+     *
+     * @throws {CriteriaValidateError} Если критерий или любой вложенный в него критерий не валиден.
+     *         `error.path` указывает на первый не валидный узел */
+    private static compile_criterion(criterion: CriteriaSpec<CriteriaType>, path: string, top_level = false): CompiledCriteriaSpec<CriteriaType> {
+
+        // проверка на объект
+        if (typeof criterion !== 'object' || criterion === null) {
+            throw new CriteriaValidateError('Criterion must be non null object', { path });
+        }
+
+        if (criterion.action !== undefined) {
+            if (!top_level) {
+                // вложенные критерии - части условия, а не самостоятельные правила
+                throw new CriteriaValidateError(`Unexpected action: '${criterion.action}'. Action is allowed only for top-level criteria`, { path });
+            }
+            if (criterion.action !== 'block' && criterion.action !== 'allow') {
+                throw new CriteriaValidateError(`Invalid action: '${criterion.action}'. Action must be 'block' or 'allow'`, { path });
+            }
+        }
+
+        if (criterion.id !== undefined) {
+            if (!top_level) {
+                throw new CriteriaValidateError(`Unexpected id: '${criterion.id}'. Id is allowed only for top-level criteria`, { path });
+            }
+            if (typeof criterion.id !== 'string' || criterion.id.length === 0) {
+                throw new CriteriaValidateError(`Invalid id: '${criterion.id}'. Id must be a non-empty string`, { path });
+            }
+        }
+
+        if (criterion.enabled !== undefined) {
+            if (!top_level) {
+                throw new CriteriaValidateError(`Unexpected enabled flag: '${criterion.enabled}'. Enabled flag is allowed only for top-level criteria`, { path });
+            }
+            if (typeof criterion.enabled !== 'boolean') {
+                throw new CriteriaValidateError(`Invalid enabled flag: '${criterion.enabled}'. Enabled flag must be a boolean`, { path });
+            }
+        }
+
+        if (criterion.label) {
+            if (typeof criterion.label !== 'string') {
+                // если указана метка, то она должна быть строкой
+                throw new CriteriaValidateError(`Invalid label: '${criterion.label}'. Label must be a string`, { path });
+            }
+        }
+
+        switch (criterion.type) {
+            case 'glob':
+                if (typeof (criterion as CriteriaSpec<'glob'>).pattern === 'string'
+                    && (criterion as CriteriaSpec<'glob'>).pattern.length > 0) {
+
+                    return {
+                        type: 'glob',
+                        pattern_spec: new GLib.PatternSpec((criterion as CriteriaSpec<'glob'>).pattern),
+                        label: (criterion as CriteriaSpec<'glob'>).label ?? (criterion as CriteriaSpec<'glob'>).pattern
+                    } as CompiledCriteriaSpec<'glob'>;
+
+                } else {
+                    throw new CriteriaValidateError(`Invalid glob pattern: '${(criterion as CriteriaSpec<'glob'>).pattern}'. Glob pattern must be a non-empty string`, { path });
+                }
+            case 'mime': {
+                const mime_type = (criterion as CriteriaSpec<'mime'>).mime_type;
+                const parts = (typeof mime_type === 'string') ? /^([^/*\s]+)\/([^/\s]+)$/.exec(mime_type) : null;
+                if (parts && (parts[2] === '*' || !parts[2].includes('*'))) {
+
+                    return {
+                        type: 'mime',
+                        media_type: parts[1].toLowerCase(),
+                        subtype: (parts[2] === '*') ? null : parts[2].toLowerCase(),
+                        label: (criterion as CriteriaSpec<'mime'>).label ?? mime_type
+                    } as CompiledCriteriaSpec<'mime'>;
+
+                } else {
+                    throw new CriteriaValidateError(`Invalid MIME type: '${mime_type}'. MIME type must be a string like 'type/subtype' or 'type/*'`, { path });
+                }
+            }
+            case 'application': {
+                const app_name = (criterion as CriteriaSpec<'application'>).app_name;
+                const exclusive = (criterion as CriteriaSpec<'application'>).exclusive ?? false;
+                if (typeof app_name !== 'string' || app_name.length === 0) {
+                    throw new CriteriaValidateError(`Invalid application name: '${app_name}'. Application name must be a non-empty string`, { path });
+                }
+                if (typeof exclusive !== 'boolean') {
+                    throw new CriteriaValidateError(`Invalid exclusive flag: '${exclusive}'. Exclusive flag must be a boolean`, { path });
+                }
+
+                return {
+                    type: 'application',
+                    pattern_spec: new GLib.PatternSpec(app_name),
+                    exclusive,
+                    label: (criterion as CriteriaSpec<'application'>).label ?? app_name
+                } as CompiledCriteriaSpec<'application'>;
+            }
+            case 'regex': {
+                const {
+                    pattern,
+                    case_insensitive = false,
+                    multiline = false
+                } = criterion as CriteriaSpec<'regex'>;
+                if (typeof pattern !== 'string' || pattern.length === 0) {
+                    throw new CriteriaValidateError(`Invalid regex pattern: '${pattern}'. Regex pattern must be a non-empty string`, { path });
+                }
+                if (typeof case_insensitive !== 'boolean' || typeof multiline !== 'boolean') {
+                    throw new CriteriaValidateError(`Invalid regex options for pattern '${pattern}'. Options must be a boolean`, { path });
+                }
+
+                let regex: GLib.Regex;
+                try {
+                    regex = GLib.Regex.new(
+                        pattern,
+                        GLib.RegexCompileFlags.OPTIMIZE
+                        | (case_insensitive ? GLib.RegexCompileFlags.CASELESS : 0)
+                        | (multiline ? GLib.RegexCompileFlags.MULTILINE : 0),
+                        GLib.RegexMatchFlags.DEFAULT
+                    );
+                } catch (error) {
+                    // GLib сообщает позицию ошибки только в тексте сообщения
+                    const offset = /at char (\d+)/.exec((error as GLib.Error).message)?.[1] ?? '?';
+                    throw new CriteriaValidateError(
+                        `Invalid regex pattern: '${pattern}'. Compile error at offset ${offset}`,
+                        { path, cause: error }
+                    );
+                }
+
+                return {
+                    type: 'regex',
+                    regex,
+                    label: (criterion as CriteriaSpec<'regex'>).label ?? pattern
+                } as CompiledCriteriaSpec<'regex'>;
+            }
+            case 'age': {
+                const { older_than, field = 'modified' } = criterion as CriteriaSpec<'age'>;
+                const max_age = parse_duration(older_than);
+                if (max_age === null) {
+                    throw new CriteriaValidateError(`Invalid age threshold: '${older_than}'. Threshold must be a positive number of seconds or a string like '30d'`, { path });
+                }
+                if (!Object.hasOwn(AGE_FIELDS, field)) {
+                    throw new CriteriaValidateError(`Invalid age field: '${field}'. Field must be one of: ${Object.keys(AGE_FIELDS).join(', ')}`, { path });
+                }
+
+                return {
+                    type: 'age',
+                    field_index: AGE_FIELDS[field],
+                    max_age,
+                    label: (criterion as CriteriaSpec<'age'>).label ?? `${field} > ${older_than}`
+                } as CompiledCriteriaSpec<'age'>;
+            }
+            case 'missing':
+                return {
+                    type: 'missing',
+                    label: (criterion as CriteriaSpec<'missing'>).label ?? 'missing'
+                } as CompiledCriteriaSpec<'missing'>;
+            case 'marker': {
+                const name = (criterion as CriteriaSpec<'marker'>).name ?? '.norecent';
+                if (typeof name !== 'string' || name.length === 0 || name.includes('/') || name === '.' || name === '..') {
+                    throw new CriteriaValidateError(`Invalid marker name: '${name}'. Marker name must be a non-empty file name`, { path });
+                }
+
+                return {
+                    type: 'marker',
+                    name,
+                    label: (criterion as CriteriaSpec<'marker'>).label ?? name
+                } as CompiledCriteriaSpec<'marker'>;
+            }
+            case 'tag': {
+                const attribute = (criterion as CriteriaSpec<'tag'>).attribute ?? DEFAULT_TAG_ATTRIBUTE;
+                if (typeof attribute !== 'string' || !/^(metadata|xattr|xattr-sys)::[^\s,*]+$/.test(attribute)) {
+                    throw new CriteriaValidateError(`Invalid tag attribute: '${attribute}'. Attribute must be like 'metadata::<name>', 'xattr::<name>' or 'xattr-sys::<name>'`, { path });
+                }
+
+                return {
+                    type: 'tag',
+                    attribute,
+                    label: (criterion as CriteriaSpec<'tag'>).label ?? attribute
+                } as CompiledCriteriaSpec<'tag'>;
+            }
+            case 'scheme': {
+                const schemes = (criterion as CriteriaSpec<'scheme'>).schemes;
+                if (schemes !== undefined
+                    && (!Array.isArray(schemes) || schemes.length === 0
+                        || !schemes.every(scheme => typeof scheme === 'string' && /^[a-z][a-z0-9+.-]*$/i.test(scheme)))) {
+                    throw new CriteriaValidateError(`Invalid URI schemes: '${schemes}'. Schemes must be a non-empty array of URI schemes`, { path });
+                }
+
+                return {
+                    type: 'scheme',
+                    schemes: schemes ? new Set(schemes.map(scheme => scheme.toLowerCase())) : null,
+                    label: (criterion as CriteriaSpec<'scheme'>).label ?? (schemes ? schemes.join(', ') : 'non-local')
+                } as CompiledCriteriaSpec<'scheme'>;
+            }
+            case 'all':
+            case 'any': {
+                const children = (criterion as CriteriaSpec<'all' | 'any'>).criteria;
+                if (!Array.isArray(children) || children.length === 0) {
+                    throw new CriteriaValidateError(`Invalid '${criterion.type}' criteria. Criteria must be a non-empty array`, { path });
+                }
+
+                const criteria = children.map((child, index) => Inquisitor.compile_criterion(child, `${path}.criteria[${index}]`));
+
+                return {
+                    type: criterion.type,
+                    criteria,
+                    labeled: typeof criterion.label === 'string' && criterion.label.length > 0,
+                    label: criterion.label || `${criterion.type}(${criteria.map(child => child.label).join(', ')})`
+                } as CompiledCriteriaSpec<'all' | 'any'>;
+            }
+            case 'not': {
+                const child = Inquisitor.compile_criterion((criterion as CriteriaSpec<'not'>).criterion, `${path}.criterion`);
+
+                return {
+                    type: 'not',
+                    criterion: child,
+                    labeled: typeof criterion.label === 'string' && criterion.label.length > 0,
+                    label: criterion.label || `not(${child.label})`
+                } as CompiledCriteriaSpec<'not'>;
+            }
+            default:
+                throw new CriteriaValidateError(`Unsupported criteria type: '${(criterion as { type: unknown }).type}'`, { path });
+        }
+    }
+
+    /** Немедленно прерывает текущий процесс проверки.
+     *
+     * Метод безопасен для вызова в любой момент, даже если проверка не запущена.
+     *
+     * При прерывании активной проверки, Promise от `do_process()` будет отклонён
+     * с ошибкой `ProcessAbortError`.
+     *
+     * @param [msg='aborted'] Сообщение для `ProcessAbortError`. По умолчанию `Process aborted`
+     *        Специфичное сообщение для возможности различения причин прерывания
+     *
+     * @returns true, если процесс был прерван;
+     *          false, если активного процесса не было
+     *
+     * @example
+     * ```typescript
+     * // Запускаем длительную проверку
+     * const processPromise = inquisitor.do_process(largeFileList);
+     *
+     * // Прерываем через некоторое время
+     * setTimeout(() => {
+     *     const wasAborted = inquisitor.process_abort('Прервано пользователем');
+     *     console.log(wasAborted ? 'Процесс прерван' : 'Нечего прерывать');
+     * }, 1000);
+     *
+     * // Обрабатываем отклонение
+     * try {
+     *     await processPromise;
      * } catch (error) {
      *     if (error instanceof ProcessAbortError) {
      *         console.log('Проверка прервана:', error.message);
@@ -820,6 +1919,10 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
             clearInterval(this.process_operation.source);
             this.process_operation.source = null;
 
+            // отменяем асинхронные проверки пакета
+            this.process_operation.cancellable?.cancel();
+            this.process_operation.batch_pending = false;
+
             this.process_operation.controller.reject!(new ProcessAbortError(msg));
             this.process_operation.controller.reject = undefined;
 
@@ -853,7 +1956,7 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
      * Если в момент вызова уже выполняется другая проверка, она будет прервана
      * с ошибкой `ProcessAbortError('New process will be initiated')`.
      *
-     * @param items_infos Список для проверки (кортеж кортежей `[uri, uri_display]`)
+     * @param items_infos Список для проверки (кортеж кортежей `RecentItemTuple`)
      *                    ВНИМАНИЕ: Архитектура предполагает, что Inquisitor единственный/крайний
      *                    потребитель этого списка. И, в угоду производительности, он
      *                    будет очищать его по мере обработки.
@@ -897,6 +2000,11 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
             this.process_operation.report = undefined;
         }
 
+        this.process_operation.cancellable = new Gio.Cancellable();
+        this.process_operation.existence = new Map();
+        this.process_operation.tags = new Map();
+        this.process_operation.batch_pending = false;
+
         // Возвращаем Promise
         return new Promise<T>((resolve, reject) => {
 
@@ -918,24 +2026,64 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
     /** Колбек setInterval`а процесса проверки на соответствие критериям */
     private process_interval_cb(items_infos: RecentItemTuple[], mode: ProcessMode) {
 
+        // Пакет ожидает асинхронных проверок - пропускаем такт
+        if (this.process_operation.batch_pending) {
+            return;
+        }
+
         try {
 
             // Обрабатываем пакет элементов
             // Определяем количество элементов для обработки (пакета) в этом цикле
             // "Съедаем" список по мере обработки
             const items_batch = items_infos.splice(0, (mode === ProcessMode.REPORT) ? Inquisitor.BATCH_SIZE : 1);
+
+            // Если пакету нужны асинхронные проверки - проверяем его после их завершения
+            const probes = [this.probe_existence(items_batch), this.probe_markers(items_batch), this.probe_tags(items_batch)]
+                .filter(probe => probe !== null);
+            const probing = (probes.length > 0) ? Promise.all(probes) : null;
+            if (probing) {
+                const source = this.process_operation.source;
+                this.process_operation.batch_pending = true;
+                probing.then(() => {
+                    // процесс мог быть прерван, пока шли проверки
+                    if (this.process_operation?.source !== source) {
+                        return;
+                    }
+                    this.process_operation.batch_pending = false;
+                    this.inspect_batch(items_batch, items_infos, mode);
+                }).catch((error) => {
+                    this.process_fail(error);
+                });
+                return;
+            }
+
+            this.inspect_batch(items_batch, items_infos, mode);
+
+        } catch (error) {
+            this.process_fail(error);
+        }
+    };
+
+    /** Проверяет пакет записей и завершает процесс, если список исчерпан */
+    private inspect_batch(items_batch: RecentItemTuple[], items_infos: RecentItemTuple[], mode: ProcessMode) {
+
+        try {
+
             for (const item_tuple of items_batch) {
 
                 const [uri, uri_display] = item_tuple;
 
                 const sins: SinInfo[] = [];
 
-                // Проверяем, не находится ли файл уже в кэше чистых,
+                const trustworthy_key = Inquisitor.get_trustworthy_key(item_tuple);
+
+                // Проверяем, не находится ли файл уже в кэше чистых (и не истек ли вердикт),
                 // если да - пропускаем. Если нет - проверяем
-                if (!this.trustworthy_list.has(uri)) {
+                if (!this.is_trustworthy(trustworthy_key)) {
 
                     // Проверяем на совпадение критериев, собираем грехи
-                    const check_criteria = this.check_criteria(uri_display);
+                    const check_criteria = this.check_criteria(item_tuple, mode);
                     for (const sin of check_criteria) {
                         sins.push(sin);
                         // Для ленивого режима прерываем проверку после любого первого совпадения
@@ -950,7 +2098,7 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
 
                     if (sins.length === 0) {
                         // Если совпадений не было - добавляем в кэш чистых файлов ...
-                        this.add_to_trustworthy_list(uri);
+                        this.add_to_trustworthy_list(trustworthy_key, this.get_verdict_expiry(item_tuple));
                     }
 
                 }
@@ -980,24 +2128,446 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
             }
 
         } catch (error) {
-            clearInterval(this.process_operation.source!);
-            this.process_operation.source = null;
-            this.process_operation.controller.reject?.(
-                new Error('Processing failed! Unknown error', { cause: error })
+            this.process_fail(error);
+        }
+    }
+
+    /** Останавливает процесс проверки из-за непредвиденной ошибки */
+    private process_fail(error: unknown) {
+        clearInterval(this.process_operation.source!);
+        this.process_operation.source = null;
+        this.process_operation.cancellable?.cancel();
+        this.process_operation.batch_pending = false;
+        this.process_operation.controller.reject?.(
+            new Error('Processing failed! Unknown error', { cause: error })
+        );
+    }
+
+    /** Асинхронно проверяет существование файлов пакета.
+     *
+     * Проверяются только локальные записи, которых нет в кэше "чистых",
+     * и только если среди критериев (в том числе вложенных) есть `missing`. Результаты сохраняются
+     * в `process_operation.existence`.
+     *
+     * Проверки выполняются в пуле потоков GIO и не блокируют основной цикл.
+     * Promise разрешается не позже, чем через `PROBE_TIMEOUT`; не завершившиеся
+     * к этому моменту проверки считаются успешными.
+     *
+     * @returns Promise завершения проверок, или `null` если проверять нечего */
+    private probe_existence(items_batch: RecentItemTuple[]): Promise<void> | null {
+
+        if (![...walk_criteria(this.enabled_criteria)].some(criterion => criterion.type === 'missing')) {
+            return null;
+        }
+
+        const existence = this.process_operation.existence!;
+        const uris = items_batch
+            .filter(item_tuple => !this.is_trustworthy(Inquisitor.get_trustworthy_key(item_tuple)))
+            .map(item_tuple => item_tuple[RecentItemFields.URI])
+            .filter(uri => !existence.has(uri) && GLib.Uri.peek_scheme(uri) === 'file');
+
+        if (uris.length === 0) {
+            return null;
+        }
+
+        const cancellable = this.process_operation.cancellable!;
+
+        return new Promise<void>((resolve) => {
+
+            let remaining = uris.length;
+
+            // не ждем медленные точки монтирования дольше PROBE_TIMEOUT
+            const timeout = setTimeout(resolve, Inquisitor.PROBE_TIMEOUT);
+
+            for (const uri of uris) {
+                Gio.File.new_for_uri(uri).query_info_async(
+                    Gio.FILE_ATTRIBUTE_STANDARD_TYPE,
+                    Gio.FileQueryInfoFlags.NONE,
+                    GLib.PRIORITY_LOW,
+                    cancellable,
+                    (file, result) => {
+                        try {
+                            file!.query_info_finish(result);
+                            existence.set(uri, true);
+                        } catch (error) {
+                            // только "не найден" означает отсутствие файла,
+                            // остальные ошибки (доступ, отмена) - неопределенность
+                            existence.set(uri, !(error instanceof GLib.Error
+                                && error.matches(Gio.IOErrorEnum, Gio.IOErrorEnum.NOT_FOUND)));
+                        }
+
+                        if (--remaining === 0) {
+                            clearTimeout(timeout);
+                            resolve();
+                        }
+                    }
+                );
+            }
+        });
+    }
+
+    /** Асинхронно проверяет наличие маркеров в каталогах-предках записей пакета.
+     *
+     * Проверяются только локальные записи, которых нет в кэше "чистых",
+     * и только если среди критериев (в том числе вложенных) есть `marker`.
+     * Проверяются только каталоги и маркеры, которых еще нет в кэше маркеров.
+     *
+     * Как и {@link probe_existence}, Promise разрешается не позже, чем через
+     * `PROBE_TIMEOUT`; не завершившиеся проверки остаются неизвестными.
+     *
+     * @returns Promise завершения проверок, или `null` если проверять нечего */
+    private probe_markers(items_batch: RecentItemTuple[]): Promise<void> | null {
+
+        const names = new Set([...walk_criteria(this.enabled_criteria)]
+            .filter(criterion => criterion.type === 'marker')
+            .map(criterion => (criterion as CompiledCriteriaSpec<'marker'>).name));
+        if (names.size === 0) {
+            return null;
+        }
+
+        // каталоги записей пакета
+        const batch_dirs = new Set<string>();
+        for (const item_tuple of items_batch) {
+            if (this.is_trustworthy(Inquisitor.get_trustworthy_key(item_tuple))) {
+                continue;
+            }
+            for (const dir of Inquisitor.get_ancestor_dirs(item_tuple[RecentItemFields.URI]) ?? []) {
+                batch_dirs.add(dir);
+            }
+        }
+
+        // между пакетами: проверки предыдущего пакета завершены
+        this.prune_marker_directories(batch_dirs);
+
+        // каталог => имена маркеров, которые нужно проверить
+        const lookups = new Map<string, Set<string>>();
+        for (const dir of batch_dirs) {
+            const markers = this.marker_directories.get(dir)?.markers;
+            for (const name of names) {
+                if (!markers?.has(name)) {
+                    lookups.set(dir, (lookups.get(dir) ?? new Set()).add(name));
+                }
+            }
+        }
+
+        if (lookups.size === 0) {
+            return null;
+        }
+
+        const cancellable = this.process_operation.cancellable!;
+
+        return new Promise<void>((resolve) => {
+
+            let remaining = [...lookups.values()].reduce((count, lookup_names) => count + lookup_names.size, 0);
+
+            // не ждем медленные точки монтирования дольше PROBE_TIMEOUT
+            const timeout = setTimeout(resolve, Inquisitor.PROBE_TIMEOUT);
+
+            for (const [dir, lookup_names] of lookups) {
+                const markers = this.get_marker_directory(dir).markers;
+                for (const name of lookup_names) {
+                    Gio.File.new_for_path(GLib.build_filenamev([dir, name])).query_info_async(
+                        Gio.FILE_ATTRIBUTE_STANDARD_TYPE,
+                        Gio.FileQueryInfoFlags.NONE,
+                        GLib.PRIORITY_LOW,
+                        cancellable,
+                        (file, result) => {
+                            try {
+                                file!.query_info_finish(result);
+                                markers.set(name, true);
+                            } catch (error) {
+                                // отмененная проверка остается неизвестной,
+                                // остальные ошибки (доступ) - маркера нет
+                                if (!(error instanceof GLib.Error
+                                    && error.matches(Gio.IOErrorEnum, Gio.IOErrorEnum.CANCELLED))) {
+                                    markers.set(name, false);
+                                }
+                            }
+
+                            if (--remaining === 0) {
+                                clearTimeout(timeout);
+                                resolve();
+                            }
+                        }
+                    );
+                }
+            }
+        });
+    }
+
+    /** Асинхронно читает атрибуты-метки файлов пакета.
+     *
+     * Проверяются только локальные записи, которых нет в кэше "чистых",
+     * и только если среди критериев (в том числе вложенных) есть `tag`.
+     * Все атрибуты файла читаются одним запросом. Результаты сохраняются
+     * в `process_operation.tags`.
+     *
+     * Как и {@link probe_existence}, Promise разрешается не позже, чем через
+     * `PROBE_TIMEOUT`; не завершившиеся проверки остаются неизвестными.
+     *
+     * @returns Promise завершения проверок, или `null` если проверять нечего */
+    private probe_tags(items_batch: RecentItemTuple[]): Promise<void> | null {
+
+        const attributes = [...new Set([...walk_criteria(this.enabled_criteria)]
+            .filter(criterion => criterion.type === 'tag')
+            .map(criterion => (criterion as CompiledCriteriaSpec<'tag'>).attribute))];
+        if (attributes.length === 0) {
+            return null;
+        }
+
+        const tags = this.process_operation.tags!;
+        const uris = items_batch
+            .filter(item_tuple => !this.is_trustworthy(Inquisitor.get_trustworthy_key(item_tuple)))
+            .map(item_tuple => item_tuple[RecentItemFields.URI])
+            .filter(uri => !tags.has(uri) && GLib.Uri.peek_scheme(uri) === 'file');
+
+        if (uris.length === 0) {
+            return null;
+        }
+
+        const cancellable = this.process_operation.cancellable!;
+
+        return new Promise<void>((resolve) => {
+
+            let remaining = uris.length;
+
+            // не ждем медленные точки монтирования дольше PROBE_TIMEOUT
+            const timeout = setTimeout(resolve, Inquisitor.PROBE_TIMEOUT);
+
+            for (const uri of uris) {
+                Gio.File.new_for_uri(uri).query_info_async(
+                    attributes.join(','),
+                    Gio.FileQueryInfoFlags.NONE,
+                    GLib.PRIORITY_LOW,
+                    cancellable,
+                    (file, result) => {
+                        try {
+                            const info = file!.query_info_finish(result);
+                            tags.set(uri, new Set(attributes.filter(attribute => info.has_attribute(attribute)
+                                && (info.get_attribute_as_string(attribute) ?? '').length > 0)));
+                        } catch (error) {
+                            // отмененная проверка остается неизвестной,
+                            // остальные ошибки (нет файла, доступ) - меток нет
+                            if (!(error instanceof GLib.Error
+                                && error.matches(Gio.IOErrorEnum, Gio.IOErrorEnum.CANCELLED))) {
+                                tags.set(uri, new Set());
+                            }
+                        }
+
+                        if (--remaining === 0) {
+                            clearTimeout(timeout);
+                            resolve();
+                        }
+                    }
+                );
+            }
+        });
+    }
+
+    /** Каталоги-предки локальной записи, от ближайшего к корню.
+     *
+     * @returns Пути каталогов, или `null` для нелокальной записи */
+    private static get_ancestor_dirs(uri: string): string[] | null {
+
+        if (GLib.Uri.peek_scheme(uri) !== 'file') {
+            return null;
+        }
+
+        let path: string;
+        try {
+            [path] = GLib.filename_from_uri(uri);
+        } catch {
+            return null;
+        }
+
+        const dirs: string[] = [];
+        for (let dir = GLib.path_get_dirname(path); ; dir = GLib.path_get_dirname(dir)) {
+            dirs.push(dir);
+            if (GLib.path_get_dirname(dir) === dir) {
+                break;
+            }
+        }
+        return dirs;
+    }
+
+    /** Ищет ближайший каталог-предок записи, содержащий маркер.
+     *
+     * @returns Путь каталога с маркером; `null`, если маркера нет;
+     *          `undefined`, если наличие маркера известно не для всех каталогов */
+    private find_marker(uri: string, name: string): string | null | undefined {
+        let result: string | null | undefined = null;
+        for (const dir of Inquisitor.get_ancestor_dirs(uri) ?? []) {
+            const marked = this.marker_directories.get(dir)?.markers.get(name);
+            if (marked) {
+                return dir;
+            }
+            if (marked === undefined) {
+                result = undefined;
+            }
+        }
+        return result;
+    }
+
+    /** Возвращает каталог из кэша маркеров, добавляя его при отсутствии.
+     *
+     * Новый каталог отслеживается файловым монитором. Размер кэша
+     * ограничивается до проверки пакета (@see {@link prune_marker_directories}),
+     * здесь каталоги не вытесняются. */
+    private get_marker_directory(dir: string): MarkerDirectory {
+
+        let directory = this.marker_directories.get(dir);
+        if (directory) {
+            return directory;
+        }
+
+        directory = { markers: new Map(), monitor: null, handler_id: NO_HANDLER };
+        try {
+            directory.monitor = Gio.File.new_for_path(dir).monitor_directory(Gio.FileMonitorFlags.NONE, null);
+            directory.handler_id = directory.monitor.connect(
+                'changed',
+                this.marker_directory_changed_cb.bind(this, dir)
             );
+        } catch {
+            // как и неудачная проверка: маркеры каталога считаются
+            // неизвестными (@see get_verdict_expiry), а каталог будет
+            // проверен заново в следующем пакете (@see prune_marker_directories)
         }
-    };
 
-    private *check_criteria(uri_display: string | null): Generator<SinInfo, void, unknown> {
+        this.marker_directories.set(dir, directory);
+        return directory;
+    }
+
+    /** Готовит кэш маркеров к проверке пакета.
+     *
+     * Вызывается между пакетами, когда проверки предыдущего пакета завершены:
+     * - Каталоги без монитора убираются: их маркеры будут проверены заново
+     * - Каталоги пакета переносятся в конец очереди вытеснения (LRU)
+     * - Давно не использованные каталоги, кроме каталогов пакета, вытесняются,
+     *   пока для новых каталогов пакета не хватает места до `MAX_MARKER_DIRS`.
+     *   Вердикты "чистый" записей внутри вытесненного каталога сбрасываются:
+     *   его маркеры больше не отслеживаются
+     *
+     * @param batch_dirs Каталоги записей пакета */
+    private prune_marker_directories(batch_dirs: Set<string>): void {
+
+        for (const [dir, directory] of [...this.marker_directories]) {
+            if (directory.monitor === null) {
+                this.drop_marker_directory(dir);
+            }
+        }
+
+        let added = 0;
+        for (const dir of batch_dirs) {
+            const directory = this.marker_directories.get(dir);
+            if (directory) {
+                this.marker_directories.delete(dir);
+                this.marker_directories.set(dir, directory);
+            } else {
+                added += 1;
+            }
+        }
+
+        for (const dir of [...this.marker_directories.keys()]) {
+            if (this.marker_directories.size + added <= Inquisitor.MAX_MARKER_DIRS || batch_dirs.has(dir)) {
+                break;
+            }
+            this.drop_marker_directory(dir);
+            this.forget_directory(dir);
+        }
+    }
+
+    /** Сбрасывает вердикты "чистый" для записей внутри каталога */
+    private forget_directory(dir: string): void {
+        for (const key of [...this.trustworthy_list.keys()]) {
+            if (Inquisitor.get_ancestor_dirs(key.split('\n', 1)[0])?.includes(dir)) {
+                this.trustworthy_list.delete(key);
+            }
+        }
+    }
+
+    /** Реакция на изменение каталога из кэша маркеров.
+     *
+     * Появление или удаление отслеживаемого маркера обновляет кэш,
+     * удаление самого каталога убирает его из кэша. В обоих случаях
+     * сбрасываются вердикты "чистый" записей внутри каталога. */
+    private marker_directory_changed_cb(dir: string, _monitor: Gio.FileMonitor, file: Gio.File, _other_file: Gio.File | null, event_type: Gio.FileMonitorEvent): void {
+
+        if (event_type !== Gio.FileMonitorEvent.CREATED && event_type !== Gio.FileMonitorEvent.DELETED) {
+            return;
+        }
+
+        if (file.get_path() === dir) {
+            if (event_type === Gio.FileMonitorEvent.DELETED) {
+                this.drop_marker_directory(dir);
+                this.forget_directory(dir);
+            }
+            return;
+        }
+
+        const markers = this.marker_directories.get(dir)?.markers;
+        const name = file.get_basename();
+        if (!markers || name === null || !markers.has(name)) {
+            return;
+        }
+
+        const marked = (event_type === Gio.FileMonitorEvent.CREATED);
+        if (markers.get(name) !== marked) {
+            markers.set(name, marked);
+            this.forget_directory(dir);
+        }
+    }
+
+    /** Убирает каталог из кэша маркеров и останавливает его монитор */
+    private drop_marker_directory(dir: string): void {
+        const directory = this.marker_directories.get(dir);
+        if (directory?.monitor) {
+            decommission_signals(directory.monitor, directory.handler_id);
+            directory.monitor.cancel();
+        }
+        this.marker_directories.delete(dir);
+    }
+
+    /** Очищает кэш маркеров */
+    private clear_marker_directories(): void {
+        for (const dir of [...this.marker_directories.keys()]) {
+            this.drop_marker_directory(dir);
+        }
+    }
+
+    private *check_criteria(item_tuple: RecentItemTuple, mode: ProcessMode): Generator<SinInfo, void, unknown> {
+
+        const uri_display = item_tuple[RecentItemFields.URI_DISPLAY];
 
         // guard condition - проверка предварительных условий
         if (uri_display !== null && uri_display.length > 0) {
+
+            // исключения проверяются лениво - только при первом совпадении
+            // `null` - еще не проверялись
+            let allowed: SinInfo | undefined | null = null;
+
             // Проверяем файл по критериям
             for (const criterion of this.eligibility_criteria) {
 
-                const sin = this.get_sin(criterion, uri_display);
+                if (criterion.action === 'allow' || !criterion.enabled) {
+                    continue;
+                }
+
+                const sin = this.get_sin(criterion, item_tuple);
 
                 if (sin) {
+                    if (allowed === null) {
+                        allowed = this.get_allow_sin(item_tuple, mode);
+                        if (allowed) {
+                            if (mode === ProcessMode.LAZY) {
+                                // запись спасена исключением
+                                return;
+                            }
+                            yield allowed;
+                        }
+                    }
+                    if (mode === ProcessMode.LAZY) {
+                        this.record_hit(criterion, item_tuple[RecentItemFields.URI]);
+                    }
                     yield sin;
                 }
             }
@@ -1009,15 +2579,178 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
         return;
     }
 
-    private get_sin(criterion: CompiledCriteriaSpec<CriteriaType>, uri_display: string): SinInfo | undefined {
+    /** Проверяет запись по правилам-исключениям.
+     *
+     * @returns `['allow', 'тип: метка']` первого совпавшего исключения,
+     *          или `undefined` если исключения не совпали */
+    private get_allow_sin(item_tuple: RecentItemTuple, mode: ProcessMode): SinInfo | undefined {
+        for (const criterion of this.eligibility_criteria) {
+            if (criterion.action === 'allow' && criterion.enabled) {
+                const sin = this.get_sin(criterion, item_tuple);
+                if (sin) {
+                    if (mode === ProcessMode.LAZY) {
+                        this.record_hit(criterion, item_tuple[RecentItemFields.URI]);
+                    }
+                    return ['allow', `${sin[0]}: ${sin[1]}`];
+                }
+            }
+        }
+        return undefined;
+    }
+
+    /** Засчитывает совпадение правилу.
+     *
+     * Время последнего совпадения обновляется всегда, счетчик - только
+     * для записи, которая еще не была засчитана.
+     *
+     * @fires notify::statistics Если статистика изменилась */
+    private record_hit(criterion: CompiledCriteriaSpec<CriteriaType>, uri: string): void {
+        const uris = this.rule_hit_uris.get(criterion.id!) ?? new Set<string>();
+        const counted = uris.delete(uri); // повторное совпадение переносит запись в конец
+
+        if (!counted && uris.size >= Inquisitor.MAX_HIT_URIS) {
+            // первый элемент - давно не совпадавший
+            uris.delete(uris.values().next().value!);
+        }
+        uris.add(uri);
+        this.rule_hit_uris.set(criterion.id!, uris);
+
+        const statistics = this.rule_statistics.get(criterion.id!) ?? { hits: 0, last_hit: null };
+        const last_hit = Math.floor(Date.now() / 1000);
+        if (counted && statistics.last_hit === last_hit) {
+            return;
+        }
+        if (!counted) {
+            statistics.hits++;
+        }
+        statistics.last_hit = last_hit;
+        this.rule_statistics.set(criterion.id!, statistics);
+        this.notify('statistics');
+    }
+
+    private get_sin(criterion: CompiledCriteriaSpec<CriteriaType>, item_tuple: RecentItemTuple): SinInfo | undefined {
         switch (criterion.type) {
             // GLOB
             case 'glob': {
-                if ((criterion as CompiledCriteriaSpec<'glob'>).pattern_spec.match_string(uri_display)) {
+                if ((criterion as CompiledCriteriaSpec<'glob'>).pattern_spec.match_string(item_tuple[RecentItemFields.URI_DISPLAY]!)) {
+                    return [criterion.type, criterion.label];
+                }
+                break;
+            }
+            // MIME
+            case 'mime': {
+                const mime_type = item_tuple[RecentItemFields.MIME_TYPE]?.toLowerCase();
+                if (mime_type) {
+                    const [media_type, subtype] = mime_type.split('/', 2);
+                    if (media_type === (criterion as CompiledCriteriaSpec<'mime'>).media_type
+                        && ((criterion as CompiledCriteriaSpec<'mime'>).subtype === null
+                            || subtype === (criterion as CompiledCriteriaSpec<'mime'>).subtype)) {
+                        return [criterion.type, criterion.label];
+                    }
+                }
+                break;
+            }
+            // APPLICATION
+            case 'application': {
+                const applications = item_tuple[RecentItemFields.APPLICATIONS];
+                if (applications && applications.length > 0) {
+                    const pattern_spec = (criterion as CompiledCriteriaSpec<'application'>).pattern_spec;
+                    const matched_app = ((criterion as CompiledCriteriaSpec<'application'>).exclusive)
+                        ? (applications.every(app => pattern_spec.match_string(app)) ? applications[0] : undefined)
+                        : applications.find(app => pattern_spec.match_string(app));
+                    if (matched_app !== undefined) {
+                        return [
+                            criterion.type,
+                            (matched_app === criterion.label) ? matched_app : `${criterion.label} (${matched_app})`
+                        ];
+                    }
+                }
+                break;
+            }
+            // REGEX
+            case 'regex': {
+                const [matched] = (criterion as CompiledCriteriaSpec<'regex'>).regex.match(
+                    item_tuple[RecentItemFields.URI_DISPLAY]!,
+                    GLib.RegexMatchFlags.DEFAULT
+                );
+                if (matched) {
+                    return [criterion.type, criterion.label];
+                }
+                break;
+            }
+            // AGE
+            case 'age': {
+                const timestamp = item_tuple[(criterion as CompiledCriteriaSpec<'age'>).field_index] as number | undefined;
+                if (timestamp !== undefined
+                    && Date.now() / 1000 - timestamp > (criterion as CompiledCriteriaSpec<'age'>).max_age) {
+                    return [criterion.type, criterion.label];
+                }
+                break;
+            }
+            // MISSING
+            case 'missing': {
+                // результат асинхронной проверки пакета (@see probe_existence)
+                if (this.process_operation.existence?.get(item_tuple[RecentItemFields.URI]) === false) {
+                    return [criterion.type, criterion.label];
+                }
+                break;
+            }
+            // MARKER
+            case 'marker': {
+                // результат асинхронной проверки пакета (@see probe_markers)
+                const dir = this.find_marker(item_tuple[RecentItemFields.URI], (criterion as CompiledCriteriaSpec<'marker'>).name);
+                if (dir) {
+                    return [criterion.type, `${criterion.label} (${dir})`];
+                }
+                break;
+            }
+            // TAG
+            case 'tag': {
+                // результат асинхронной проверки пакета (@see probe_tags)
+                if (this.process_operation.tags?.get(item_tuple[RecentItemFields.URI])?.has((criterion as CompiledCriteriaSpec<'tag'>).attribute)) {
+                    return [criterion.type, criterion.label];
+                }
+                break;
+            }
+            // SCHEME
+            case 'scheme': {
+                const scheme = GLib.Uri.peek_scheme(item_tuple[RecentItemFields.URI]);
+                const schemes = (criterion as CompiledCriteriaSpec<'scheme'>).schemes;
+                if (scheme !== null && ((schemes === null) ? scheme !== 'file' : schemes.has(scheme))) {
                     return [criterion.type, criterion.label];
                 }
                 break;
             }
+            // ALL
+            case 'all': {
+                const sins: SinInfo[] = [];
+                for (const child of (criterion as CompiledCriteriaSpec<'all'>).criteria) {
+                    const sin = this.get_sin(child, item_tuple);
+                    if (!sin) {
+                        return undefined;
+                    }
+                    sins.push(sin);
+                }
+                return Inquisitor.get_composite_sin(criterion as CompiledCriteriaSpec<'all'>, sins);
+            }
+            // ANY
+            case 'any': {
+                for (const child of (criterion as CompiledCriteriaSpec<'any'>).criteria) {
+                    const sin = this.get_sin(child, item_tuple);
+                    if (sin) {
+                        return Inquisitor.get_composite_sin(criterion as CompiledCriteriaSpec<'any'>, [sin]);
+                    }
+                }
+                break;
+            }
+            // NOT
+            case 'not': {
+                const child = (criterion as CompiledCriteriaSpec<'not'>).criterion;
+                if (!this.get_sin(child, item_tuple)) {
+                    return Inquisitor.get_composite_sin(criterion as CompiledCriteriaSpec<'not'>, [[child.type, child.label]]);
+                }
+                break;
+            }
             // ---
             default: {
                 const _type: never = criterion.type;
@@ -1029,6 +2762,18 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
         return undefined;
     }
 
+    /** Формирует {@link SinInfo} составного критерия из совпадений сработавшей ветви.
+     *
+     * @param criterion Составной критерий
+     * @param branch Совпадения вложенных критериев, описывающие сработавшую ветвь
+     *
+     * @returns `[тип, 'тип: метка & ...']`, или `[тип, 'метка (тип: метка & ...)']`
+     *          если метка составного критерия задана */
+    private static get_composite_sin(criterion: CompiledCriteriaSpec<'all' | 'any' | 'not'>, branch: SinInfo[]): SinInfo {
+        const info = branch.map(([type, label]) => `${type}: ${label}`).join(' & ');
+        return [criterion.type, criterion.labeled ? `${criterion.label} (${info})` : info];
+    }
+
     /** Запускает обработку, генерируя отчет (без сигналов).
      *
      * @affects items_infos Будет очищен после обработки.
@@ -1049,34 +2794,113 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
         return this.do_process<void>(items_info, ProcessMode.LAZY);
     }
 
+    /** Сбрасывает вердикты "чистый" для URI.
+     *
+     * Нужен, когда у файла изменилось то, что не отражается в записи
+     * истории (например атрибут-метка критерия `tag`): при следующей
+     * проверке записи будут проверены заново, а не пропущены по кэшу.
+     *
+     * @param uris URI записей
+     *
+     * @throws {ObjectDecommissionedError} Если объект выведен из эксплуатации */
+    public forget(uris: string[]): void {
+        const forgotten = new Set(uris);
+        for (const key of [...this.trustworthy_list.keys()]) {
+            if (forgotten.has(key.split('\n', 1)[0])) {
+                this.trustworthy_list.delete(key);
+            }
+        }
+    }
+
     /** Добавляет в кэш "чистых" URI (не попадающих под текущие критерии).
      *
      * Реализует FIFO-стратегию вытеснения: при достижении максимального
      * размера кэша (`MAX_CACHE_SIZE`) удаляется самая старая запись.
      *
-     * @param uri URI для добавления в кэш
+     * @param key Ключ записи (@see {@link get_trustworthy_key})
+     * @param valid_until Срок действия вердикта (unix-время, секунды)
      *
      * @private
      * @example
      * ```typescript
      * // Внутреннее использование
      * if (sin.length === 0) {
-     *     this.add_to_trustworthy_list(current_file.uri);
+     *     this.add_to_trustworthy_list(key, this.get_verdict_expiry(item_tuple));
      * }
      * ```*/
-    private add_to_trustworthy_list(uri: string): void {
+    private add_to_trustworthy_list(key: string, valid_until = Infinity): void {
+        // Повторное добавление переносит запись в конец очереди
+        this.trustworthy_list.delete(key);
+
         // Если кэш достиг максимального размера, удаляем самую старую запись
         if (this.trustworthy_list.size >= Inquisitor.MAX_CACHE_SIZE) {
-            // В Set порядок обхода соответствует порядку вставки,
+            // В Map порядок обхода соответствует порядку вставки,
             // поэтому первый элемент - самый старый
-            const oldest_uri = this.trustworthy_list.values().next().value;
-            if (oldest_uri) {
-                this.trustworthy_list.delete(oldest_uri);
+            const oldest_key = this.trustworthy_list.keys().next().value;
+            if (oldest_key) {
+                this.trustworthy_list.delete(oldest_key);
             }
         }
 
         // Добавляем новую запись
-        this.trustworthy_list.add(uri);
+        this.trustworthy_list.set(key, valid_until);
+    }
+
+    /** Ключ записи в кэше "чистых".
+     *
+     * Включает время изменения записи (если известно), чтобы
+     * повторно проверять записи, изменившиеся с момента проверки. */
+    private static get_trustworthy_key(item_tuple: RecentItemTuple): string {
+        const modified = item_tuple[RecentItemFields.MODIFIED];
+        return (modified === undefined) ? item_tuple[RecentItemFields.URI] : `${item_tuple[RecentItemFields.URI]}\n${modified}`;
+    }
+
+    /** Проверяет, действует ли для ключа вердикт "чистый" */
+    private is_trustworthy(key: string): boolean {
+        const trusted_until = this.trustworthy_list.get(key);
+        return trusted_until !== undefined && trusted_until > Date.now() / 1000;
+    }
+
+    /** Включенные критерии верхнего уровня */
+    private get enabled_criteria(): CompiledCriteriaSpec<CriteriaType>[] {
+        return this.eligibility_criteria.filter(criterion => criterion.enabled);
+    }
+
+    /** Срок действия вердикта "чистый" для записи.
+     *
+     * Вердикт по критериям `age` истекает, когда запись достигает
+     * ближайшего порога возраста. Вердикт по критериям `missing` и `tag` для
+     * локальных записей истекает через `EXISTENCE_TTL`, как и вердикт
+     * по критерию `marker`, если не все каталоги-предки записи есть
+     * в кэше маркеров. Остальные критерии от времени не зависят.
+     *
+     * Вложенные критерии учитываются так же, как критерии верхнего
+     * уровня. Для `age` внутри `not` это дает срок в прошлом - такие
+     * записи просто не кэшируются.
+     *
+     * @returns Unix-время (секунды) или `Infinity` */
+    private get_verdict_expiry(item_tuple: RecentItemTuple): number {
+        let valid_until = Infinity;
+        for (const criterion of walk_criteria(this.enabled_criteria)) {
+            if (criterion.type === 'age') {
+                const timestamp = item_tuple[(criterion as CompiledCriteriaSpec<'age'>).field_index] as number | undefined;
+                if (timestamp !== undefined) {
+                    valid_until = Math.min(valid_until, timestamp + (criterion as CompiledCriteriaSpec<'age'>).max_age);
+                }
+            } else if (criterion.type === 'missing' || criterion.type === 'tag') {
+                if (GLib.Uri.peek_scheme(item_tuple[RecentItemFields.URI]) === 'file') {
+                    valid_until = Math.min(valid_until, Date.now() / 1000 + Inquisitor.EXISTENCE_TTL);
+                }
+            } else if (criterion.type === 'marker') {
+                const uri = item_tuple[RecentItemFields.URI];
+                // маркеры не проверены или каталог не отслеживается
+                if (this.find_marker(uri, (criterion as CompiledCriteriaSpec<'marker'>).name) === undefined
+                    || Inquisitor.get_ancestor_dirs(uri)?.some(dir => this.marker_directories.get(dir)?.monitor === null)) {
+                    valid_until = Math.min(valid_until, Date.now() / 1000 + Inquisitor.EXISTENCE_TTL);
+                }
+            }
+        }
+        return valid_until;
     }
 
     /** Выводит объект из эксплуатации, освобождая все ресурсы.
@@ -1128,12 +2952,18 @@ export class Inquisitor extends GObject.Object implements IDecommissionable {
         this.do_process = (throw_decommissioned as typeof this.do_process);
         this.process_abort = (throw_decommissioned as typeof this.process_abort);
         this.set_criteria = (throw_decommissioned as typeof this.set_criteria);
+        this.set_rule_enabled = (throw_decommissioned as typeof this.set_rule_enabled);
+        this.forget = (throw_decommissioned as typeof this.forget);
 
         // шобы Клодик не ругался
         this.trustworthy_list.clear();
+        this.clear_marker_directories();
 
         this.eligibility_criteria = (undefined as unknown as typeof this.eligibility_criteria);
         this.trustworthy_list = (undefined as unknown as typeof this.trustworthy_list);
+        this.marker_directories = (undefined as unknown as typeof this.marker_directories);
+        this.rule_statistics = (undefined as unknown as typeof this.rule_statistics);
+        this.rule_hit_uris = (undefined as unknown as typeof this.rule_hit_uris);
         this.process_operation = (undefined as unknown as typeof this.process_operation);
         this.criteria_operation = (undefined as unknown as typeof this.criteria_operation);
 
@@ -1,9 +1,37 @@
 /** @file: src/service/RecentFilesProvider.ts */
 /** @license: https://www.gnu.org/licenses/gpl.txt */
-/** @version: 2.0.1 */
+/** @version: 3.1.0 */
 /**
  * @changelog
  *
+ * # 3.1.0 - `remove_items()`: журнал пакета (`journal`) вместо журнала провайдера
+ *
+ * # 3.0.0 - Хранилище истории вынесено в `HistoryBackend` (`backend`):
+ *           `Gtk.RecentManager` или прямое чтение `recently-used.xbel`.
+ *           Без дисплея провайдер работает с файлом напрямую
+ *         - Конвертеры записей принимают `HistoryItem` (подмножество `Gtk.RecentInfo`)
+ *         - `remove_items()` удаляет записи через `HistoryBackend.remove_items()`
+ *           без ожиданий записи и перечитывания файла истории
+ *         - `remove_items()`: исключение `progress_cb` завершает пакет
+ *         - `iterate()` получает записи истории порциями
+ *           (`HistoryBackend.get_uris()` и `lookup_item()`)
+ *
+ * # 2.5.0 - get_items() с запросом (`HistoryQuery`): сортировка, фильтры
+ *           и постраничная выборка по курсору
+ *         - `get_items()`: `start_index` за пределами истории - пустой массив
+ *
+ * # 2.4.0 - Добавлен iterate(): асинхронный перебор истории порциями
+ *
+ * # 2.3.0 - Сигнал `'history-changes-settled'` передает изменения истории
+ *           (`HistoryDiff`) относительно снимка
+ *         - Добавлен lookup_items()
+ *
+ * # 2.2.0 - Пакетное удаление `remove_items()`: одна запись файла истории,
+ *           прогресс и отмена
+ *
+ * # 2.1.0 - Журнал удаленных записей (`journal`): метаданные записи
+ *           сохраняются перед удалением
+ *
  * # 2.0.1 - Рефакторинг
  *
  * # 2.0.0 - Новая сигнатура get_items()
@@ -42,7 +70,8 @@
 
 import GObject from 'gi://GObject?version=2.0';
 import GLib from 'gi://GLib?version=2.0';
-import Gtk from 'gi://Gtk?version=4.0';
+import type Gio from 'gi://Gio?version=2.0';
+import type Gtk from 'gi://Gtk?version=4.0';
 import {
     HandlerID,
     PromiseController
@@ -64,6 +93,19 @@ import {
 import {
     GDecorator
 } from '../Ljs/GObjectDecorators.js';
+import {
+    GtkHistoryBackend
+} from './GtkHistoryBackend.js';
+import {
+    create_default_backend
+} from './HistoryBackend.js';
+import type {
+    HistoryBackend,
+    HistoryItem
+} from './HistoryBackend.js';
+import type {
+    UndoJournal
+} from './UndoJournal.js';
 
 
 /** Состояния мониторинга истории файлов. */
@@ -113,11 +155,187 @@ export class DuplicateUriError extends Error {
     }
 }
 
+/** Ошибка, которая передается при отмене пакетного удаления */
+export class RemoveCancelledError extends Error {
+    constructor(message = 'Batch removal cancelled', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'RemoveCancelledError';
+    }
+}
+
+/** Ошибка, возникающая, если история изменилась во время перебора `iterate()` */
+export class HistoryMutatedError extends Error {
+    constructor(message = 'Recent files history changed during iteration', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'HistoryMutatedError';
+    }
+}
+
+/** Ошибка, которая передается при отмене перебора `iterate()` */
+export class IterationCancelledError extends Error {
+    constructor(message = 'History iteration cancelled', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'IterationCancelledError';
+    }
+}
+
+/** Ключ сортировки запроса `HistoryQuery` */
+export type HistorySortKey = 'visited' | 'modified' | 'added' | 'uri';
+
+/** Фильтр запроса `HistoryQuery`. Все заданные условия должны выполняться */
+export interface HistoryFilter {
+    /** Зарегистрированное приложение (`has_application()`) */
+    application?: string,
+    /** MIME-тип: точное совпадение или `'image/*'` */
+    mime_type?: string,
+    /** Группа (`has_group()`) */
+    group?: string,
+    /** Схема URI, например `'file'` */
+    scheme?: string,
+    /** Признак приватности (`get_private_hint()`) */
+    is_private?: boolean,
+}
+
+/** Запрос к истории для `get_items()` */
+export interface HistoryQuery {
+    /** Ключ сортировки. По умолчанию `'visited'` */
+    sort?: HistorySortKey,
+    /** Обратный порядок. По умолчанию `true` для времени (новые первыми), `false` для `'uri'` */
+    descending?: boolean,
+    /** Фильтр */
+    filter?: HistoryFilter,
+    /** Размер страницы: целое не меньше 1 или `Infinity`. По умолчанию - все записи */
+    limit?: number,
+    /** Курсор страницы (`HistoryPage.next_cursor` предыдущей страницы) */
+    cursor?: string | null,
+}
+
+/** Страница результата запроса `HistoryQuery` */
+export interface HistoryPage<T> {
+    /** Элементы страницы */
+    items: T[],
+    /** Курсор следующей страницы. `null` - страниц больше нет */
+    next_cursor: string | null,
+}
+
+/** Содержимое курсора: позиция последнего элемента страницы */
+interface HistoryCursor {
+    sort: HistorySortKey,
+    descending: boolean,
+    /** Значение ключа сортировки */
+    key: number | string,
+    uri: string,
+}
+
+/** Значение ключа сортировки записи */
+function sort_key_of(info: HistoryItem, sort: HistorySortKey): number | string {
+    switch (sort) {
+        case 'visited':
+            return info.get_visited().to_unix();
+        case 'modified':
+            return info.get_modified().to_unix();
+        case 'added':
+            return info.get_added().to_unix();
+        case 'uri':
+            return info.get_uri();
+        default: {
+            const _sort: never = sort;
+            throw new TypeError(`Unknown sort key: ${_sort}`);
+        }
+    }
+}
+
+/** Проверяет запись на соответствие фильтру */
+function matches_filter(info: HistoryItem, filter: HistoryFilter): boolean {
+    if (filter.application !== undefined && !info.has_application(filter.application)) {
+        return false;
+    }
+    if (filter.mime_type !== undefined) {
+        const mime_type = info.get_mime_type() ?? '';
+        if (filter.mime_type.endsWith('/*')
+            ? !mime_type.startsWith(filter.mime_type.slice(0, -1))
+            : mime_type !== filter.mime_type) {
+            return false;
+        }
+    }
+    if (filter.group !== undefined && !info.has_group(filter.group)) {
+        return false;
+    }
+    if (filter.scheme !== undefined && GLib.Uri.peek_scheme(info.get_uri()) !== filter.scheme.toLowerCase()) {
+        return false;
+    }
+    if (filter.is_private !== undefined && info.get_private_hint() !== filter.is_private) {
+        return false;
+    }
+    return true;
+}
+
+/** Сравнивает позиции записей: ключ сортировки, затем URI (полный порядок) */
+function compare_positions(a_key: number | string, a_uri: string, b_key: number | string, b_uri: string): number {
+    if (a_key !== b_key) {
+        return (a_key < b_key) ? -1 : 1;
+    }
+    if (a_uri !== b_uri) {
+        return (a_uri < b_uri) ? -1 : 1;
+    }
+    return 0;
+}
+
+/** Разбирает курсор запроса.
+ *
+ * @throws {TypeError} Если курсор не валиден или создан для другой сортировки */
+function parse_cursor(cursor: string, sort: HistorySortKey, descending: boolean): HistoryCursor {
+    let parsed: Partial<HistoryCursor>;
+    try {
+        parsed = JSON.parse(cursor) as Partial<HistoryCursor>;
+    } catch (error) {
+        throw new TypeError('Invalid history cursor', { cause: error });
+    }
+    if (typeof parsed !== 'object' || parsed === null
+        || typeof parsed.uri !== 'string'
+        || (typeof parsed.key !== 'number' && typeof parsed.key !== 'string')) {
+        throw new TypeError('Invalid history cursor');
+    }
+    if (parsed.sort !== sort || parsed.descending !== descending) {
+        throw new TypeError('History cursor does not match query sort order');
+    }
+    return parsed as HistoryCursor;
+}
+
+/** Результат пакетного удаления.
+ *
+ * URI -> `null`, если запись удалена, или ошибка, по которой запись
+ * пропущена (`InvalidUriError`, `DuplicateUriError`) */
+export type RemoveItemsResult = Map<string, Error | null>;
+
+/** Уведомление о ходе пакетного удаления.
+ *
+ * @param processed Количество проверенных URI
+ * @param total Общее количество URI */
+export type RemoveProgressCallback = (processed: number, total: number) => void;
+
+/** Изменения истории между двумя сигналами `'history-changes-settled'`.
+ *
+ * Первый сигнал после активации мониторинга сравнивает историю с пустым
+ * снимком: `added` - вся история, `removed` и `modified` пусты. Так
+ * подписчик проверяет всю историю без отдельного запроса (например
+ * `RecentFilesService` после запуска). Изменения, сделанные без
+ * мониторинга, отдельно не передаются. */
+export interface HistoryDiff {
+    /** Новые записи */
+    added: Set<string>,
+    /** Удаленные записи */
+    removed: Set<string>,
+    /** Записи с изменившимся временем изменения (`get_modified()`) */
+    modified: Set<string>,
+}
+
 /** RecentFilesProvider - взаимодействие с системным менеджером недавних файлов в GNOME.
  *
  * ### Описание
  *
- * Класс предоставляет централизованный интерфейс для работы с недавно использованными файлами:
+ * Класс предоставляет централизованный интерфейс для работы с недавно использованными файлами
+ * (хранилище истории - {@link HistoryBackend}):
  * - Мониторинг изменений в истории файлов (через публичный сигнал `'history-changes-settled'`)
  * - Получение пути к файлу истории (через свойство `history_file_path`)
  * - Удаление элементов из истории (через метод `remove_item`)
@@ -127,17 +345,25 @@ export class DuplicateUriError extends Error {
  *
  * #### Параметры конструктора:
  * - `debounce_timeout?: number` Таймаут дебаунса. Это значение будет принято только если оно больше DEBOUNCE_TIMEOUT
- * - `recent_manager?: Gtk.RecentManager` Инстанс системного менеджера истории (в основном для тестирования)
+ * - `backend?: HistoryBackend` Хранилище истории. Не принадлежит провайдеру. По умолчанию
+ *   `create_default_backend()`: `Gtk.RecentManager`, а без дисплея - `recently-used.xbel` напрямую
+ * - `recent_manager?: Gtk.RecentManager` Инстанс системного менеджера истории (в основном для тестирования).
+ *   Если задан (или `settings_manager`), используется {@link GtkHistoryBackend}
  * - `settings_manager?: Gtk.Settings` Инстанс системного менеджера настроек (в основном для тестирования)
+ * - `journal?: UndoJournal` Журнал удаленных записей. Если задан, метаданные записи
+ *   сохраняются в нем перед удалением (@see {@link UndoJournal}). Не принадлежит провайдеру
  *
  * #### Сигналы:
- * - `'history-changes-settled'` Сигнал. Сообщает об факте изменениях в истории
+ * - `'history-changes-settled'` Сигнал. Сообщает об изменениях в истории (`HistoryDiff`).
+ *   Первый сигнал после активации мониторинга передает всю историю как новую
  * - `'notify::state'` Уведомление о изменении состояния
  * - `'notify::recent-files-enabled'` Уведомление о изменении доступности истории
  * - `'notify::history-items-count'` Уведомление о возможном изменении размера истории
  *
  * #### Константы:
  * - `DEBOUNCE_TIMEOUT` Минимальное значения для таймаута дебаунса сигнала `'history-changes-settled'`
+ * - `REMOVE_BATCH_SIZE` Количество URI, проверяемых за один цикл пакетного удаления
+ * - `ITERATE_BATCH_SIZE` Размер порции `iterate()` по умолчанию
  *
  * #### Свойства:
  * - `recent_files_enabled: boolean` Включена ли история в системе. Только чтение.
@@ -149,7 +375,12 @@ export class DuplicateUriError extends Error {
  * - `request_monitoring(): void` Запрос на запуск слежения за историей.
  * - `withdraw_monitoring(): void` Останавливает мониторинг или отменяет запрос на запуск мониторинга.
  * - `remove_item(uri: string): Promise<void>` Удаляет указанный файл из системной истории недавних файлов.
+ * - `remove_items(uris: string[], cancellable?: Gio.Cancellable | null, progress_cb?: RemoveProgressCallback): Promise<RemoveItemsResult>`
+ *   Удаляет несколько файлов из истории одной записью файла истории.
  * - `get_items(start_index = 0, items_count = 0): Promise<RecentItem[]>` Получает список недавно использованных файлов из системной истории.
+ * - `get_items(converter, query: HistoryQuery): Promise<HistoryPage<T>>` Получает страницу истории по запросу.
+ * - `lookup_items(uris: Iterable<string>, converter): Promise<T[]>` Получает записи истории по URI.
+ * - `iterate(options?): AsyncGenerator<T>` Асинхронно перебирает историю порциями.
  * - `decommission(): void` Выводит объект из эксплуатации.
  *
  * #### Ошибки:
@@ -157,6 +388,9 @@ export class DuplicateUriError extends Error {
  * - `QueueCleanupError` Ошибка, которая передается при очистке очереди обработки
  * - `InvalidUriError` Ошибка при работе с недопустимым URI
  * - `DuplicateUriError` Ошибка при попытке добавить в очередь уже существующий URI
+ * - `RemoveCancelledError` Ошибка, которая передается при отмене пакетного удаления
+ * - `HistoryMutatedError` Ошибка, возникающая, если история изменилась во время перебора
+ * - `IterationCancelledError` Ошибка, которая передается при отмене перебора
  * - `DecommissionedError`
  *
  * ### Архитектура
@@ -174,6 +408,11 @@ export class DuplicateUriError extends Error {
  *
  * ### Особенности реализации
  *
+ * - **Изменения истории**: Провайдер хранит снимок истории (URI и время изменения
+ *   записи). Сигнал `'history-changes-settled'` передает `HistoryDiff` относительно
+ *   предыдущего сигнала. Первый сигнал после активации мониторинга передает все
+ *   записи истории как новые (снимок сбрасывается при остановке мониторинга)
+ *
  * - **Отложенные сигналы**: Класс использует механизм отложенных сигналов для предотвращения
  *   спама уведомлениями при массовых изменениях в истории файлов
  *
@@ -194,7 +433,7 @@ export class DuplicateUriError extends Error {
  *
  * - `recent_files_enabled` (публичное свойство):
  *   Отражает системную настройку "разрешены ли недавние файлы"
- *   Получается из `Gtk.Settings.get_default().gtk_recent_files_enabled`
+ *   Получается из `HistoryBackend.enabled` (например `gtk_recent_files_enabled`)
  *
  * ~~~
  *
@@ -292,8 +531,8 @@ export class DuplicateUriError extends Error {
  *
  * // Запуск мониторинга изменений истории
  * provider.request_monitoring();
- * provider.connect('history-changes-settled', () => {
- *     console.log('История файлов изменилась');
+ * provider.connect('history-changes-settled', (_provider, diff: HistoryDiff) => {
+ *     console.log(`История файлов изменилась: +${diff.added.size} -${diff.removed.size} ~${diff.modified.size}`);
  * });
  *
  * // Удаление элемента из истории
@@ -408,21 +647,28 @@ export class DuplicateUriError extends Error {
  *
  * - Дебаунс сигналов: минимум `DEBOUNCE_TIMEOUT` мс между событиями `history-changes-settled`
  * - Очередь удаления: обрабатывается последовательно через setInterval(0)
+ * - Пакетное удаление: проверка порциями по `REMOVE_BATCH_SIZE` через setInterval(0),
+ *   одна запись файла истории и одно сохранение журнала на весь пакет
  * - Получение элементов: O(n) где n - количество запрошенных элементов
  * - Массовые операции могут временно блокировать UI
  *
  * ### Ограничения
  *
  * - Размер истории ограничен системными настройками (1000 элементов)
- * - Нет прямого контроля над сортировкой (определяется поведением `Gtk.RecentManager`)
- * - Нет фильтрации на уровне провайдера (нужно фильтровать результат)
+ * - Без запроса (`HistoryQuery`) порядок записей определяется поведением `Gtk.RecentManager`
+ * - Запрос сортирует и фильтрует всю историю при каждом вызове: O(n log n)
  *  */
 @GDecorator.Widget({
     GTypeName: 'RecentFilesProvider',
     GTypeFlags: GObject.TypeFlags.FINAL,
     Signals: {
         /** Сообщает об изменениях в истории */
-        'history-changes-settled': {}
+        'history-changes-settled': {
+            param_types: [
+                /** history-changes-settled::diff:HistoryDiff изменения с предыдущего сигнала */
+                GObject.TYPE_JSOBJECT,
+            ],
+        }
     },
 })
 export class RecentFilesProvider extends GObject.Object implements IDecommissionable {
@@ -430,6 +676,12 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
     /** Минимальное значения для таймаута дебаунса сигнала `'history-changes-settled'` */
     static DEBOUNCE_TIMEOUT = 330 as const;
 
+    /** Количество URI, проверяемых за один цикл пакетного удаления */
+    static REMOVE_BATCH_SIZE = 100 as const;
+
+    /** Размер порции `iterate()` по умолчанию */
+    static ITERATE_BATCH_SIZE = 100 as const;
+
     /** Отложенный сигнал */
     private delayed_signal: {
         /** Объект-эмиттер отложенного сигнала */
@@ -447,12 +699,20 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
         promise_controllers: undefined as PromiseController<void> | undefined,
     };
 
+    /** Контекст пакетного удаления */
+    private batch_remove_context = {
+        /** URI, принятые активными пакетами */
+        uris: new Set<string>(),
+        /** Функции прерывания активных пакетов */
+        aborts: new Set<(error: Error) => void>(),
+    };
+
     /** ID обработчиков */
     private handlers_ids = {
-        /** ID обработчика сигнала 'settings-changed' от Gtk.Settings */
-        settings_manager: NO_HANDLER as HandlerID,
-        /** ID обработчика сигнала 'changed' от Gtk.RecentManager */
-        recent_manager: NO_HANDLER as HandlerID,
+        /** ID обработчика уведомления 'notify::enabled' от хранилища истории */
+        backend_enabled: NO_HANDLER as HandlerID,
+        /** ID обработчика сигнала 'changed' от хранилища истории */
+        backend_changed: NO_HANDLER as HandlerID,
     };
 
     /** Контекст состояния */
@@ -463,30 +723,48 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
         previous_state: undefined as unknown as MonitoringState, // синхронизируемся с текущим состоянием
     };
 
-    /** Системный менеджер истории файлов */
-    private default_recent_manager: Gtk.RecentManager;
+    /** Хранилище истории */
+    private history_backend: HistoryBackend;
 
-    /** Системный менеджер настроек */
-    private default_settings_manager: Gtk.Settings | null;
+    /** Создано ли хранилище истории провайдером (и выводится из эксплуатации вместе с ним) */
+    private owns_backend: boolean;
+
+    /** Журнал удаленных записей */
+    private journal: UndoJournal | null;
+
+    /** Снимок истории на момент последнего сигнала `'history-changes-settled'`:
+     * URI -> время изменения записи (unix-время, секунды) */
+    private snapshot = new Map<string, number>();
 
     /** Constructor */
     constructor(constructor_options: {
         /** Таймаут дебаунса. Это значение будет принято только если оно больше DEBOUNCE_TIMEOUT */
         debounce_timeout?: number,
+        /** Хранилище истории. Не принадлежит провайдеру */
+        backend?: HistoryBackend,
         /** Инстанс системного менеджера истории (в основном для тестирования) */
         recent_manager?: Gtk.RecentManager,
         /** Инстанс системного менеджера настроек (в основном для тестирования) */
         settings_manager?: Gtk.Settings,
+        /** Журнал удаленных записей. Не принадлежит провайдеру */
+        journal?: UndoJournal,
     } = {}) {
 
         super();
 
-        // Инициализация системных менеджеров
-        this.default_recent_manager = constructor_options.recent_manager ?? Gtk.RecentManager.get_default();
-        this.default_settings_manager = constructor_options.settings_manager ?? Gtk.Settings.get_default();
-
-        if (!this.default_settings_manager) {
-            throw new Error('GTK Settings unavailable: display server environment may be missing');
+        this.journal = constructor_options.journal ?? null;
+
+        // Инициализация хранилища истории
+        this.owns_backend = !constructor_options.backend;
+        if (constructor_options.backend) {
+            this.history_backend = constructor_options.backend;
+        } else if (constructor_options.recent_manager || constructor_options.settings_manager) {
+            this.history_backend = new GtkHistoryBackend({
+                recent_manager: constructor_options.recent_manager,
+                settings_manager: constructor_options.settings_manager,
+            });
+        } else {
+            this.history_backend = create_default_backend();
         }
 
         this.state_context.previous_state = this.state;
@@ -506,8 +784,8 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
         );
 
         // слежение за изменением доступности истории
-        this.handlers_ids.settings_manager = this.default_settings_manager.connect(
-            'notify::gtk-recent-files-enabled',
+        this.handlers_ids.backend_enabled = this.history_backend.connect(
+            'notify::enabled',
             this.settings_changed_cb.bind(this)
         );
 
@@ -525,7 +803,8 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
 
     /** Включена ли история в системе.
      *
-     * Свойство отражает системную настройку `gtk-recent-files-enabled`.
+     * Свойство отражает системную настройку (`HistoryBackend.enabled`),
+     * например `gtk-recent-files-enabled`.
      * При изменении этой настройки автоматически генерируется уведомление
      * и может измениться состояние мониторинга.
      * */
@@ -537,7 +816,7 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
             throw new DecommissionedError();
         }
 
-        return this.default_settings_manager!.gtk_recent_files_enabled;
+        return this.history_backend.enabled;
     }
 
     /** Путь к файлу-истории */
@@ -549,7 +828,7 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
             throw new DecommissionedError();
         }
 
-        return this.default_recent_manager.filename;
+        return this.history_backend.filename;
     }
 
     /** Количество записей в истории */
@@ -563,7 +842,7 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
         if (this.state_context === undefined) {
             throw new DecommissionedError();
         }
-        return this.default_recent_manager.size;
+        return this.history_backend.size;
     }
 
     /** Состояние мониторинга.
@@ -618,7 +897,7 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
      * будет выполнено последовательно в цикле событий GLib.
      *
      * NOTICE: Сигнал `history-changes-settled` во время выполнения очереди:
-     *         Множественные выбросы сигнала 'changed' от Gtk.RecentManager будут объединены в один,
+     *         Множественные выбросы сигнала 'changed' от хранилища истории будут объединены в один,
      *         и будет выброшено только одно событие 'history-changes-settled' в конце
      *         обработки очереди (с задержкой). Что позволяет избежать и спама и
      *         возможной потери информации о изменении истории произошедшей
@@ -637,7 +916,8 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
      * @throws {HistoryDisabledError} Если история недавних файлов отключена в системе
      * @throws {InvalidUriError} Если uri "пустой" или не существует в истории
      * @throws {DuplicateUriError} Если uri уже добавлен в очередь обработки
-     * @throws {Gtk.RecentManagerError} Ошибки Gtk.RecentManager
+     * @throws {Gtk.RecentManagerError|GLib.Error} Ошибки хранилища истории
+     * @throws {UndoJournalError} Если задан журнал и его не удалось сохранить. Запись не удаляется
      * @throws {*Error} Другие ошибки
      *
      * @fires this#'history-changes-settled'
@@ -657,12 +937,12 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
             }
 
             // Проверяем существование элемента
-            if (!uri || !this.default_recent_manager.has_item(uri)) {
+            if (!uri || !this.history_backend.has_item(uri)) {
                 return reject(new InvalidUriError('Gets non-existent or empty item'));
             }
 
             // ставим в очередь если это не повтор
-            if (!this.remove_process_context.remove_queue.has(uri)) {
+            if (!this.remove_process_context.remove_queue.has(uri) && !this.batch_remove_context.uris.has(uri)) {
                 this.remove_process_context.remove_queue.set(uri, { resolve, reject },);
             } else {
                 return reject(new DuplicateUriError('Item already in queue'));
@@ -684,8 +964,15 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
 
                     try {
 
+                        // метаданные сохраняются до удаления; если журнал
+                        // не удалось сохранить - запись не удаляется
+                        const info = this.journal ? this.history_backend.lookup_item(uri) : null;
+                        if (info) {
+                            this.journal!.record(info);
+                        }
+
                         // удаление из истории
-                        this.default_recent_manager.remove_item(uri);
+                        this.history_backend.remove_item(uri);
 
                         // разрешаем промис
                         this.remove_process_context.promise_controllers.resolve!(); // @todo
@@ -717,6 +1004,156 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
         });
     };
 
+    /** Удаляет несколько файлов из системной истории недавних файлов.
+     *
+     * В отличие от `remove_item()`, история меняется один раз на весь пакет:
+     * 1. URI проверяются порциями по `REMOVE_BATCH_SIZE` за цикл событий GLib.
+     *    После каждой порции вызывается `progress_cb`
+     * 2. Журнал (если задан) сохраняется одним вызовом `UndoJournal.record_all()`
+     * 3. Принятые записи удаляются одним вызовом `HistoryBackend.remove_items()`
+     *
+     * Отмена (`cancellable`) возможна до удаления: история при этом не меняется.
+     *
+     * @param uris URI файлов для удаления. Повторы игнорируются
+     * @param cancellable Отмена удаления
+     * @param progress_cb Уведомление о ходе проверки
+     * @param journal Журнал для метаданных удаляемых записей. По умолчанию журнал
+     *                провайдера; `null` - без журнала
+     *
+     * @returns Промис, разрешающийся результатом для каждого URI
+     *
+     * @throws {HistoryDisabledError} Если история недавних файлов отключена в системе
+     * @throws {RemoveCancelledError} Если удаление отменено. История не изменена
+     * @throws {QueueCleanupError} Если удаление прервано (история отключена, decommission). История не изменена
+     * @throws {UndoJournalError} Если задан журнал и его не удалось сохранить. История не изменена
+     * @throws {GLib.Error} Ошибки записи файла истории. История не изменена
+     * @throws {Error} Исключение `progress_cb`. История не изменена
+     *
+     * @fires this#'history-changes-settled'
+     *
+     * @example
+     * ```typescript
+     * const cancellable = new Gio.Cancellable();
+     * const result = await provider.remove_items(uris, cancellable, (processed, total) => {
+     *     console.log(`${processed}/${total}`);
+     * });
+     * const removed = [...result].filter(([_uri, error]) => error === null).length;
+     * ```
+     *  */
+    public remove_items(
+        uris: string[],
+        cancellable: Gio.Cancellable | null = null,
+        progress_cb?: RemoveProgressCallback,
+        journal: UndoJournal | null = this.journal
+    ): Promise<RemoveItemsResult> {
+        return new Promise((resolve, reject) => {
+
+            if (!this.recent_files_enabled) {
+                return reject(new HistoryDisabledError('Recent history is now disabled, history file is empty'));
+            }
+
+            const context = this.batch_remove_context;
+
+            const batch = {
+                uris: [...new Set(uris)],
+                result: new Map() as RemoveItemsResult,
+                /** URI, прошедшие проверку */
+                accepted: [] as string[],
+                /** Количество проверенных URI */
+                processed: 0,
+                /** Источник процесса проверки */
+                source: undefined as GLib.Source | undefined,
+            };
+
+            /** Завершает пакет: освобождает ресурсы и разрешает или отклоняет промис */
+            const settle = (error: Error | null): void => {
+                if (batch.source) {
+                    clearInterval(batch.source);
+                    batch.source = undefined;
+                }
+                for (const uri of batch.accepted) {
+                    context.uris.delete(uri);
+                }
+                context.aborts.delete(abort);
+
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(batch.result);
+                }
+            };
+
+            /** Прерывает пакет */
+            const abort = (error: Error): void => {
+                settle(error);
+            };
+
+            /** Удаляет принятые записи из истории */
+            const write = (): void => {
+
+                // записи, удаленные другим процессом после проверки, пропускаются
+                const items = batch.accepted
+                    .map(uri => this.history_backend.lookup_item(uri))
+                    .filter(item => item !== null);
+
+                // метаданные сохраняются до удаления; если журнал
+                // не удалось сохранить - история не меняется
+                if (items.length > 0) {
+                    journal?.record_all(items);
+                }
+
+                const removed = new Set(this.history_backend.remove_items(items.map(item => item.get_uri())));
+                for (const uri of batch.accepted) {
+                    batch.result.set(uri, removed.has(uri) ? null : new InvalidUriError('Gets non-existent or empty item'));
+                }
+            };
+
+            context.aborts.add(abort);
+
+            // проверка порциями
+            batch.source = setInterval(() => {
+
+                if (cancellable?.is_cancelled()) {
+                    return settle(new RemoveCancelledError());
+                }
+
+                try {
+
+                    for (const uri of batch.uris.slice(batch.processed, batch.processed + RecentFilesProvider.REMOVE_BATCH_SIZE)) {
+                        if (!uri || !this.history_backend.has_item(uri)) {
+                            batch.result.set(uri, new InvalidUriError('Gets non-existent or empty item'));
+                        } else if (this.remove_process_context.remove_queue.has(uri) || context.uris.has(uri)) {
+                            batch.result.set(uri, new DuplicateUriError('Item already in queue'));
+                        } else {
+                            context.uris.add(uri);
+                            batch.accepted.push(uri);
+                        }
+                    }
+                    batch.processed = Math.min(batch.uris.length, batch.processed + RecentFilesProvider.REMOVE_BATCH_SIZE);
+
+                    progress_cb?.(batch.processed, batch.uris.length);
+
+                    if (batch.processed < batch.uris.length) {
+                        // если остались не проверенные - начинаем новый цикл...
+                        return;
+                    }
+
+                    // проверка завершена
+                    if (batch.accepted.length > 0) {
+                        write();
+                    }
+                    settle(null);
+
+                } catch (error) {
+                    // исключение progress_cb, журнала или записи файла истории
+                    settle(error as Error);
+                }
+
+            }, 0);
+
+        });
+    };
+
     /** Получает список недавно использованных файлов из системной истории.
      *
      * Метод асинхронно возвращает массив объектов типа `RecentItem`, содержащих
@@ -725,20 +1162,20 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
      * @param converter Функция преобразования элемента истории.
      *                  Принимает элемент истории и возвращает его преобразованное представление.
      *
-     * @param start_index Начальный индекс (0-based)
-     *                    Должен быть в диапазоне [0, history_items_count).
+     * @param start_index Начальный индекс (0-based), целое не меньше 0.
+     *                    За пределами истории (в том числе пустой) - пустой массив
      * @param items_count Количество элементов для получения
      *                    (Infinity означает "все элементы после `start_index`")
      *
      * @returns Промис, разрешающийся массивом элементов истории
      *
      * @throws {HistoryDisabledError} Если история недавних файлов отключена в системе
-     * @throws {TypeError} Если `start_index` не валиден или выходит за пределы допустимого диапазона
+     * @throws {TypeError} Если `start_index` не валиден
      * @throws {*Error} Другие ошибки
      *
-     * @note Порядок элементов определяется реализацией Gtk.RecentManager.
-     *       Обычно это порядок по времени последнего доступа, но это
-     *       следует проверить для конкретной версии GTK.
+     * @note Порядок элементов определяется реализацией хранилища истории.
+     *       Для Gtk.RecentManager обычно это порядок по времени последнего
+     *       доступа, но это следует проверить для конкретной версии GTK.
      *       Правильным будет вообще не полагаться на этот порядок.
      *
      * @example Получение всех элементов
@@ -771,7 +1208,53 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
      * });
      * ```
      *  */
-    public get_items<T>(converter: (item: Gtk.RecentInfo) => T = (item) => item as T, start_index = 0, items_count = Infinity): Promise<T[]> {
+    public get_items<T>(converter?: (item: HistoryItem) => T, start_index?: number, items_count?: number): Promise<T[]>;
+    /** Получает страницу истории по запросу.
+     *
+     * Записи фильтруются (`query.filter`), сортируются (`query.sort`; при
+     * равенстве ключа - по URI) и возвращаются страницами по `query.limit`.
+     *
+     * Курсор - позиция последнего элемента страницы, а не индекс: записи,
+     * добавленные или удаленные между запросами, не сдвигают страницы.
+     * Курсор не зависит от фильтра, но привязан к сортировке.
+     *
+     * @param converter Функция преобразования элемента истории
+     * @param query Запрос
+     *
+     * @returns Промис, разрешающийся страницей. Пустая история или конец
+     *          выборки - пустая страница
+     *
+     * @throws {HistoryDisabledError} Если история недавних файлов отключена в системе
+     * @throws {TypeError} Если курсор не валиден или создан для другой сортировки
+     * @throws {TypeError} Если `query.limit` не валиден
+     *
+     * @example Постраничный обход PDF по времени изменения
+     * ```typescript
+     * let cursor: string | null = null;
+     * do {
+     *     const page = await provider.get_items(recent_info_to_tuple, {
+     *         sort: 'modified',
+     *         filter: { mime_type: 'application/pdf', scheme: 'file' },
+     *         limit: 50,
+     *         cursor,
+     *     });
+     *     show(page.items);
+     *     cursor = page.next_cursor;
+     * } while (cursor !== null);
+     * ```
+     *  */
+    public get_items<T>(converter: (item: HistoryItem) => T, query: HistoryQuery): Promise<HistoryPage<T>>;
+    public get_items<T>(
+        converter: (item: HistoryItem) => T = (item) => item as T,
+        start_index_or_query: number | HistoryQuery = 0,
+        items_count = Infinity
+    ): Promise<T[] | HistoryPage<T>> {
+
+        if (typeof start_index_or_query === 'object') {
+            return this.query_items(converter, start_index_or_query);
+        }
+        const start_index = start_index_or_query;
+
         return new Promise((resolve, reject) => {
             // Проверка включенной истории
             if (!this.recent_files_enabled) {
@@ -780,15 +1263,20 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
             }
 
             // Проверка корректности индекса
-            if (start_index < 0 || start_index >= this.default_recent_manager.size) {
-                reject(new TypeError(`Start index out of range: ${start_index} (valid range is 0 to ${this.default_recent_manager.size - 1})`));
+            if (!Number.isInteger(start_index) || start_index < 0) {
+                reject(new TypeError(`Invalid start index: ${start_index}`));
+                return;
+            }
+            // за пределами истории записей нет
+            if (start_index >= this.history_backend.size) {
+                resolve([]);
                 return;
             }
 
             setTimeout(() => {
                 try {
                     // Получаем все элементы истории
-                    const items = this.default_recent_manager.get_items().splice(start_index, items_count);
+                    const items = this.history_backend.get_items().splice(start_index, items_count);
 
                     setTimeout(() => {
                         resolve(items.map(item => (
@@ -804,6 +1292,186 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
         });
     };
 
+    /** Выполняет запрос к истории (@see {@link get_items}) */
+    private query_items<T>(converter: (item: HistoryItem) => T, query: HistoryQuery): Promise<HistoryPage<T>> {
+        return new Promise((resolve, reject) => {
+            if (!this.recent_files_enabled) {
+                reject(new HistoryDisabledError('Recent history is now disabled, history file is empty'));
+                return;
+            }
+
+            const limit = query.limit ?? Infinity;
+            if (!(limit >= 1 && (Number.isInteger(limit) || limit === Infinity))) {
+                reject(new TypeError(`Invalid page limit: ${limit}`));
+                return;
+            }
+
+            const sort = query.sort ?? 'visited';
+            const descending = query.descending ?? (sort !== 'uri');
+            const direction = descending ? -1 : 1;
+
+            setTimeout(() => {
+                try {
+                    const cursor = (query.cursor !== undefined && query.cursor !== null)
+                        ? parse_cursor(query.cursor, sort, descending)
+                        : null;
+
+                    const positions = this.history_backend.get_items()
+                        .filter(info => matches_filter(info, query.filter ?? {}))
+                        .map(info => ({ key: sort_key_of(info, sort), uri: info.get_uri(), info }))
+                        // записи после курсора
+                        .filter(position => cursor === null
+                            || direction * compare_positions(position.key, position.uri, cursor.key, cursor.uri) > 0)
+                        .sort((a, b) => direction * compare_positions(a.key, a.uri, b.key, b.uri));
+
+                    const page = positions.slice(0, limit);
+                    const last = page[page.length - 1];
+                    const next_cursor = (positions.length > page.length && last !== undefined)
+                        ? JSON.stringify({ sort, descending, key: last.key, uri: last.uri } satisfies HistoryCursor)
+                        : null;
+
+                    setTimeout(() => {
+                        try {
+                            resolve({
+                                items: page.map(position => converter(position.info)),
+                                next_cursor,
+                            });
+                        } catch (error) {
+                            reject(error);
+                        }
+                    }, 0);
+
+                } catch (error) {
+                    reject(error);
+                }
+            }, 0);
+        });
+    }
+
+    /** Получает записи истории по URI.
+     *
+     * URI, которых нет в истории, пропускаются.
+     *
+     * @param uris URI записей
+     * @param converter Функция преобразования элемента истории
+     *
+     * @returns Промис, разрешающийся массивом элементов истории (в порядке `uris`)
+     *
+     * @throws {HistoryDisabledError} Если история недавних файлов отключена в системе
+     *
+     * @example Проверка только изменившихся записей
+     * ```typescript
+     * provider.connect('history-changes-settled', async (_provider, diff: HistoryDiff) => {
+     *     const items = await provider.lookup_items([...diff.added, ...diff.modified], recent_info_to_tuple);
+     *     await inquisitor.inspect_to_signals(items);
+     * });
+     * ```
+     *  */
+    public lookup_items<T>(uris: Iterable<string>, converter: (item: HistoryItem) => T = (item) => item as T): Promise<T[]> {
+        return new Promise((resolve, reject) => {
+            if (!this.recent_files_enabled) {
+                reject(new HistoryDisabledError('Recent history is now disabled, history file is empty'));
+                return;
+            }
+
+            const requested = [...uris];
+
+            setTimeout(() => {
+                try {
+                    resolve(requested
+                        .filter(uri => this.history_backend.has_item(uri))
+                        .map(uri => converter(this.history_backend.lookup_item(uri)!)));
+                } catch (error) {
+                    reject(error);
+                }
+            }, 0);
+        });
+    };
+
+    /** Асинхронно перебирает историю порциями.
+     *
+     * Записи получаются и преобразуются порциями по `batch` элементов; между
+     * порциями управление возвращается в цикл событий GLib. Потребитель может
+     * начать обработку до того, как будет получена вся история.
+     *
+     * В начале перебора запоминаются только URI записей (`HistoryBackend.get_uris()`),
+     * записи порции получаются перед ее выдачей (`HistoryBackend.lookup_item()`).
+     *
+     * Если история изменилась во время перебора (сигнал `'changed'` от
+     * хранилища истории, может приходить с задержкой, или запись порции уже
+     * удалена), перед выдачей порции выбрасывается `HistoryMutatedError`.
+     * Это касается и удалений через `remove_item()`/`remove_items()`.
+     *
+     * Перебор можно прервать через `cancellable` или выходом из `for await`.
+     *
+     * @param options.batch Размер порции. По умолчанию `ITERATE_BATCH_SIZE`
+     * @param options.converter Функция преобразования элемента истории
+     * @param options.cancellable Отмена перебора
+     *
+     * @throws {HistoryDisabledError} Если история недавних файлов отключена в системе
+     * @throws {HistoryMutatedError} Если история изменилась во время перебора
+     * @throws {IterationCancelledError} Если перебор отменен
+     *
+     * @example
+     * ```typescript
+     * for await (const item of provider.iterate({ batch: 100, converter: recent_info_to_tuple })) {
+     *     console.log(item[RecentItemFields.URI]);
+     * }
+     * ```
+     *  */
+    public async *iterate<T = HistoryItem>(options: {
+        batch?: number,
+        converter?: (item: HistoryItem) => T,
+        cancellable?: Gio.Cancellable | null,
+    } = {}): AsyncGenerator<T, void, undefined> {
+
+        if (!this.recent_files_enabled) {
+            throw new HistoryDisabledError('Recent history is now disabled, history file is empty');
+        }
+
+        const batch = Math.max(1, Math.floor(options.batch ?? RecentFilesProvider.ITERATE_BATCH_SIZE));
+        const converter = options.converter ?? ((item: HistoryItem) => item as T);
+
+        // хранилище сохраняется: провайдер может быть выведен из эксплуатации во время перебора
+        const backend = this.history_backend;
+
+        let mutated = false;
+        const handler_id: HandlerID = backend.connect('changed', () => {
+            mutated = true;
+        });
+
+        try {
+            const uris = backend.get_uris();
+
+            for (let index = 0; index < uris.length; index += batch) {
+                if (index > 0) {
+                    // следующая порция - в следующем цикле
+                    await new Promise(resolve => setTimeout(resolve, 0));
+                }
+
+                if (options.cancellable?.is_cancelled()) {
+                    throw new IterationCancelledError();
+                }
+                if (this.state_context === undefined) {
+                    throw new DecommissionedError();
+                }
+                if (mutated) {
+                    throw new HistoryMutatedError();
+                }
+
+                const items = uris.slice(index, index + batch).map(uri => backend.lookup_item(uri));
+                if (items.includes(null)) {
+                    // запись удалена, а сигнал 'changed' еще не пришел
+                    throw new HistoryMutatedError();
+                }
+
+                yield* items.map(item => converter(item!));
+            }
+        } finally {
+            decommission_signals(backend, handler_id);
+        }
+    }
+
     //#endregion
 
     // #region СЛУШАТЕЛИ СИГНАЛОВ
@@ -836,11 +1504,43 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
      * @fires history-changes-settled */
     private history_changed_cb(): boolean {
         this.notify('history-items-count'); // уведомление о возможном изменении размера истории
-        this.emit('history-changes-settled'); // сигнал 'history-changes-settled'
+        this.emit('history-changes-settled', this.update_snapshot()); // сигнал 'history-changes-settled'
 
         return SignalPropagate.STOP;
     };
 
+    /** Обновляет снимок истории.
+     *
+     * @returns Изменения относительно предыдущего снимка */
+    private update_snapshot(): HistoryDiff {
+
+        const diff: HistoryDiff = {
+            added: new Set(),
+            removed: new Set(this.snapshot.keys()),
+            modified: new Set(),
+        };
+
+        const snapshot = new Map<string, number>();
+        for (const info of this.history_backend.get_items()) {
+            const uri = info.get_uri();
+            const modified = info.get_modified().to_unix();
+            snapshot.set(uri, modified);
+
+            const previous = this.snapshot.get(uri);
+            if (previous === undefined) {
+                diff.added.add(uri);
+            } else {
+                diff.removed.delete(uri);
+                if (previous !== modified) {
+                    diff.modified.add(uri);
+                }
+            }
+        }
+
+        this.snapshot = snapshot;
+        return diff;
+    }
+
     //#endregion
 
     // #region УПРАВЛЕНИЕ СОСТОЯНИЕМ
@@ -899,9 +1599,9 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
      * @fires this#'history-changes-settled' */
     private ensure_monitoring_active(): void {
 
-        if (this.handlers_ids.recent_manager === NO_HANDLER) {
+        if (this.handlers_ids.backend_changed === NO_HANDLER) {
             // подключаем обработчик
-            this.handlers_ids.recent_manager = this.default_recent_manager.connect(
+            this.handlers_ids.backend_changed = this.history_backend.connect(
                 'changed',
                 this.retarded_history_changed.bind(this)
             );
@@ -913,7 +1613,7 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
 
     /** Планирует отправку отложенного сигнала `'history-changes-settled'`.
      *
-     * Метод является обработчиком сигнала `'changed'` от `Gtk.RecentManager`.
+     * Метод является обработчиком сигнала `'changed'` от хранилища истории.
      * Использует механизм отложенных сигналов для предотвращения спама уведомлениями
      * при массовых изменениях истории (например, при импорте файлов).
      *
@@ -927,17 +1627,21 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
      * @fires this#'history-changes-settled' */
     private ensure_monitoring_inactive(): void {
 
-        if (this.handlers_ids.recent_manager > NO_HANDLER) {
-            if (GObject.signal_handler_is_connected(this.default_recent_manager, this.handlers_ids.recent_manager)) {
-                this.default_recent_manager.disconnect(this.handlers_ids.recent_manager);
+        if (this.handlers_ids.backend_changed > NO_HANDLER) {
+            if (GObject.signal_handler_is_connected(this.history_backend, this.handlers_ids.backend_changed)) {
+                this.history_backend.disconnect(this.handlers_ids.backend_changed);
             }
-            this.handlers_ids.recent_manager = NO_HANDLER;
+            this.handlers_ids.backend_changed = NO_HANDLER;
 
             // // Принудительно отправить сигнал 'history-changes-settled', если был запланирован отложенный сигнал
             // this.delayed_signal.emitter.flush();
             // @todo или... или... - определится что правильней
             // отменить возможный запланированный сигнал 'history-changes-settled'
             this.delayed_signal.emitter.cancel();
+
+            // изменения, пропущенные без мониторинга, не отслеживаются:
+            // после активации вся история будет передана как новая
+            this.snapshot = new Map();
         }
     }
 
@@ -960,6 +1664,7 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
         }
         // Отклонить все ожидающие промисы
         this.queue_cleanup('Recent history is now disabled');
+        this.batch_cleanup('Recent history is now disabled');
 
     }
 
@@ -979,6 +1684,14 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
         }
     }
 
+    /** Прерывает активные пакетные удаления. */
+    private batch_cleanup(msg = 'Queue cleanup'): void {
+        const cleanup_error = new QueueCleanupError(msg);
+        for (const abort of [...this.batch_remove_context.aborts]) {
+            abort(cleanup_error);
+        }
+    }
+
     //#endregion
 
     /** Выводит объект из эксплуатации.
@@ -1004,8 +1717,11 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
 
         // отключение всех сигналов
         decommission_signals(this, this.state_context.handler_id);
-        decommission_signals(this.default_settings_manager!, this.handlers_ids.settings_manager);
-        decommission_signals(this.default_recent_manager, this.handlers_ids.recent_manager);
+        decommission_signals(this.history_backend, this.handlers_ids.backend_enabled, this.handlers_ids.backend_changed);
+
+        if (this.owns_backend && this.history_backend.decommission) {
+            this.history_backend.decommission();
+        }
 
         this.delayed_signal.emitter.disconnectAll();
 
@@ -1020,6 +1736,7 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
 
         // Отклоняем все ожидающие операции
         this.queue_cleanup('Provider will be decommissioned');
+        this.batch_cleanup('Provider will be decommissioned');
 
         function throw_decommissioned(): never {
             throw new DecommissionedError();
@@ -1029,17 +1746,21 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
         this.request_monitoring = (throw_decommissioned as typeof this.request_monitoring);
         this.withdraw_monitoring = (throw_decommissioned as typeof this.withdraw_monitoring);
         this.remove_item = (throw_decommissioned as typeof this.remove_item);
+        this.remove_items = (throw_decommissioned as typeof this.remove_items);
         this.get_items = (throw_decommissioned as typeof this.get_items);
+        this.lookup_items = (throw_decommissioned as typeof this.lookup_items);
+        this.iterate = (throw_decommissioned as typeof this.iterate);
 
 
         this.state_context.handler_id = (undefined as unknown as typeof this.state_context.handler_id);
         this.state_context = (undefined as unknown as typeof this.state_context);
 
-        this.default_settings_manager = (undefined as unknown as typeof this.default_settings_manager);
-        this.handlers_ids.settings_manager = (undefined as unknown as typeof this.handlers_ids.settings_manager);
+        this.journal = (undefined as unknown as typeof this.journal);
+        this.snapshot = (undefined as unknown as typeof this.snapshot);
+        this.handlers_ids.backend_enabled = (undefined as unknown as typeof this.handlers_ids.backend_enabled);
 
-        this.handlers_ids.recent_manager = (undefined as unknown as typeof this.handlers_ids.recent_manager);
-        this.default_recent_manager = (undefined as unknown as typeof this.default_recent_manager);
+        this.handlers_ids.backend_changed = (undefined as unknown as typeof this.handlers_ids.backend_changed);
+        this.history_backend = (undefined as unknown as typeof this.history_backend);
 
         this.delayed_signal.emitter = (undefined as unknown as typeof this.delayed_signal.emitter);
         this.delayed_signal.handler_id = (undefined as unknown as typeof this.delayed_signal.handler_id);
@@ -1050,6 +1771,7 @@ export class RecentFilesProvider extends GObject.Object implements IDecommission
         // Дополнительная гарантия, что source не будет повторно использован
         this.remove_process_context.source = undefined;
         this.remove_process_context = (undefined as unknown as typeof this.remove_process_context);
+        this.batch_remove_context = (undefined as unknown as typeof this.batch_remove_context);
 
         this.decommission = DECOMMISSIONED;
     };
@@ -0,0 +1,1399 @@
+/** @file: src/service/RecentFilesService.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.9.0 */
+/**
+ * @changelog
+ *
+ * # 1.9.0 - Пометка файлов атрибутом-меткой (`tag_files()`, `untag_files()`)
+ *           для критерия `tag`
+ *
+ * # 1.8.0 - Режим презентации: записи вне списка разрешенных временно
+ *           скрываются в хранилище (`stash`) и возвращаются при выключении.
+ *           Хранилище переживает аварийное завершение
+ *
+ * # 1.7.0 - Удаление миниатюр удаленных записей (`purge_thumbnails`)
+ *         - `purge_thumbnails_for()` - удаление миниатюр по запросу
+ *         - Сигнал `'thumbnails-purged'`
+ *
+ * # 1.6.0 - Несколько источников истории: файлы истории Flatpak-приложений
+ *           (`SandboxHistorySources`) проверяются теми же критериями
+ *         - Сигналы `'item-removed'`, `'would-remove'` и записи журнала
+ *           режима наблюдения содержат источник записи
+ *         - Свойство `sources` и `get_source_provider()`
+ *
+ * # 1.5.0 - Параметр `backend`: хранилище истории, общее для
+ *           провайдера и журнала. По умолчанию выбирается
+ *           `create_default_backend()` (работает и без дисплея)
+ *
+ * # 1.4.0 - После `'history-changes-settled'` проверяются только новые
+ *           и изменившиеся записи (`HistoryDiff`)
+ *
+ * # 1.3.1 - Совпавшие записи удаляются пакетами (`remove_items()`):
+ *           после проверки или по `REMOVE_BATCH_SIZE` записей
+ *
+ * # 1.3.0 - Режим наблюдения (`dry_run`) и журнал несостоявшихся удалений
+ *
+ * # 1.2.0 - Журнал удаленных записей (`journal`)
+ *
+ * # 1.1.0 - Метод `inspect()`
+ *
+ * # 1.0.0 - Первый вариант.
+ *           - Связывает `RecentFilesProvider` и `Inquisitor`:
+ *             проверка истории после изменений и удаление
+ *             совпавших записей
+ */
+
+import GObject from 'gi://GObject?version=2.0';
+import GLib from 'gi://GLib?version=2.0';
+
+import {
+    IDecommissionable,
+    DecommissionedError,
+    decommission_signals,
+    DECOMMISSIONED,
+    DecommissionType
+} from '../Ljs/Decommissionable.js';
+import {
+    GDecorator
+} from '../Ljs/GObjectDecorators.js';
+import type {
+    IGSignals
+} from '../Ljs/IGSignals.js';
+import type {
+    HandlerID,
+    SinInfo,
+} from '../shared/common-types.js';
+import {
+    NO_HANDLER,
+} from '../shared/common-types.js';
+import {
+    Inquisitor,
+    ProcessAbortError,
+    recent_info_to_tuple
+} from './Inquisitor.js';
+import type {
+    CriteriaSpec,
+    CriteriaType
+} from './Inquisitor.js';
+import {
+    RecentFilesProvider,
+    HistoryDisabledError,
+    QueueCleanupError
+} from './RecentFilesProvider.js';
+import type {
+    HistoryDiff
+} from './RecentFilesProvider.js';
+import {
+    create_default_backend
+} from './HistoryBackend.js';
+import type {
+    HistoryBackend
+} from './HistoryBackend.js';
+import {
+    UndoJournal
+} from './UndoJournal.js';
+import {
+    XbelHistoryBackend
+} from './XbelHistoryBackend.js';
+import {
+    SandboxHistorySources
+} from './SandboxHistorySources.js';
+import {
+    purge_thumbnails
+} from './ThumbnailCache.js';
+import {
+    DEFAULT_TAG_ATTRIBUTE,
+    set_file_tags
+} from './FileTags.js';
+
+/** Сигнатуры сигналов специфичных для RecentFilesService. */
+interface ServiceSignalSignatures {
+    'item-removed': (uri: string, sin: SinInfo, source: string) => void;
+    'would-remove': (uri: string, sin: SinInfo, source: string) => void;
+    'thumbnails-purged': (uri: string, count: number) => void;
+    'notify::running': (pspec: GObject.ParamSpec) => void;
+    'notify::sources': (pspec: GObject.ParamSpec) => void;
+    'notify::dry-run': (pspec: GObject.ParamSpec) => void;
+    'notify::dry-run-log': (pspec: GObject.ParamSpec) => void;
+    'notify::purge-thumbnails': (pspec: GObject.ParamSpec) => void;
+    'notify::presentation': (pspec: GObject.ParamSpec) => void;
+}
+
+/** Запись журнала режима наблюдения: что было бы удалено и каким правилом */
+export interface DryRunRecord {
+    /** URI записи истории */
+    uri: string,
+    /** Источник записи (@see {@link DEFAULT_SOURCE}) */
+    source: string,
+    /** Совпавший критерий */
+    sin: SinInfo,
+    /** Время последнего совпадения (unix-время, секунды) */
+    time: number,
+}
+
+type SignalSignatures = ServiceSignalSignatures & GObject.Object.SignalSignatures;
+
+/** Источник истории по умолчанию: история провайдера `provider`.
+ *
+ * Источники приложений в песочнице - `flatpak:<id приложения>`
+ * (@see {@link SandboxHistorySources}) */
+export const DEFAULT_SOURCE = 'default' as const;
+
+/** Источник истории сервиса */
+interface HistorySource {
+    /** Провайдер истории источника */
+    provider: RecentFilesProvider,
+    /** Хранилище истории, созданное для источника. `null` для источника по умолчанию */
+    backend: HistoryBackend | null,
+    /** ID обработчика сигнала 'history-changes-settled' от провайдера */
+    handler_id: HandlerID,
+    /** Нужна проверка всей истории источника */
+    full: boolean,
+    /** URI новых и изменившихся записей, ожидающих проверки */
+    uris: Set<string>,
+    /** Совпавшие записи, ожидающие удаления: URI -> совпадение */
+    removals: Map<string, SinInfo>,
+}
+
+/** RecentFilesService - сервис для работы с недавними файлами (Recent Files) в среде GNOME.
+ *
+ * ### Описание
+ *
+ * "Уборщик": связывает {@link RecentFilesProvider} и {@link Inquisitor}.
+ *
+ * - После каждого "успокоения" истории (`'history-changes-settled'`)
+ *   проверяет новые и изменившиеся записи (`HistoryDiff`) в режиме LAZY
+ *   (`inspect_to_signals()`)
+ * - При запуске, после установки новых критериев и по `inspect()`
+ *   проверяет всю историю
+ * - Совпавшие записи (`'matched-result'`) удаляет пакетами
+ *   (`remove_items()`): после проверки источника или по
+ *   `RecentFilesProvider.REMOVE_BATCH_SIZE` записей, если проверка длинная
+ *
+ * Пока идет проверка, новые и изменившиеся записи только добавляются в
+ * очереди источников и проверяются после нее: проверка всей истории не
+ * начинается заново из-за каждого изменения (в том числе удалений самого
+ * сервиса). Проверку прерывают только остановка и проверка всей истории
+ * (`inspect()`, новые критерии). Записи, проверка которых была прервана,
+ * остаются в очереди проверки и будут проверены следующей проверкой.
+ *
+ * ### Источники истории
+ *
+ * Кроме истории провайдера (источник {@link DEFAULT_SOURCE}) сервис
+ * проверяет файлы истории Flatpak-приложений
+ * (`~/.var/app/<id>/data/recently-used.xbel`, источники `flatpak:<id>`).
+ * Для каждого создается свой провайдер с `XbelHistoryBackend`; источники
+ * находятся и отслеживаются {@link SandboxHistorySources}.
+ *
+ * Источники проверяются по очереди одним `Inquisitor`, совпавшие записи
+ * удаляются из файла своего источника. Источник передается в сигналах
+ * и в журнале режима наблюдения. Удаления из файлов приложений не
+ * попадают в журнал удаленных записей (`journal`): он восстанавливает
+ * записи только в историю по умолчанию.
+ *
+ * ### Режим наблюдения
+ *
+ * При `dry_run = true` совпавшие записи не удаляются, а попадают в журнал
+ * `dry_run_log` (что было бы удалено и каким правилом). Журнал ограничен
+ * `DRY_RUN_LOG_SIZE` записями, по одной на URI (повторное совпадение
+ * обновляет запись и переносит ее в конец). Журнал хранится в памяти.
+ *
+ * Режим переключается без перезапуска мониторинга. При выключении
+ * история проверяется заново, и совпавшие записи удаляются.
+ *
+ * ### Миниатюры
+ *
+ * Миниатюра удаленной записи остается в кэше миниатюр
+ * (`~/.cache/thumbnails/{normal,large,x-large,xx-large,fail}/<md5(uri)>.png`)
+ * и показывается, например, в сетке диалога выбора файлов. При
+ * `purge_thumbnails = true` после каждого успешного удаления записи ее
+ * миниатюры удаляются, количество удаленных сообщает `'thumbnails-purged'`.
+ * `purge_thumbnails_for()` удаляет миниатюры любых URI по запросу.
+ *
+ * ### Режим презентации
+ *
+ * Удалять записи правилами ради часовой демонстрации экрана слишком
+ * разрушительно. `start_presentation(allowlist)` переносит все записи
+ * истории по умолчанию, не совпавшие ни с одним правилом `allowlist`, в
+ * хранилище `stash` (`UndoJournal`, метаданные сохраняются до удаления).
+ * Пока режим включен, так же скрываются новые и изменившиеся записи.
+ * `stop_presentation()` возвращает скрытые записи в историю.
+ *
+ * Хранилище записывается на диск
+ * (`$XDG_STATE_HOME/recent-files-blacklist/presentation-stash.json`).
+ * Если сервис завершился аварийно, скрытые записи возвращаются при
+ * создании сервиса. Записи источников в песочнице не скрываются.
+ *
+ * ### Метки файлов
+ *
+ * Шаблоны путей не позволяют скрыть отдельный файл. `tag_files()` помечает
+ * файлы атрибутом-меткой (по умолчанию `metadata::rfb-private`), а
+ * критерий `tag` с тем же атрибутом находит их записи. После пометки
+ * записи файлов проверяются заново во всех источниках, не дожидаясь
+ * изменения истории. `untag_files()` снимает метку.
+ *
+ * Сервис не управляет критериями - их устанавливает внешний код
+ * (например `SettingsProvider`) через `inquisitor.set_criteria()`.
+ *
+ * ### API
+ *
+ * #### Параметры конструктора:
+ * - `backend?: HistoryBackend` Хранилище истории для провайдера и журнала, создаваемых
+ *   по умолчанию. По умолчанию `create_default_backend()`
+ * - `provider?: RecentFilesProvider` Провайдер истории (в основном для тестирования)
+ * - `inquisitor?: Inquisitor` Проверяющий (в основном для тестирования)
+ * - `journal?: UndoJournal` Журнал удаленных записей. Провайдер по умолчанию
+ *   создается с этим журналом; переданный провайдер должен использовать тот же
+ * - `dry_run?: boolean` Начальный режим наблюдения. По умолчанию `false`
+ * - `sandbox_apps_dir?: string | null` Каталог данных Flatpak-приложений. По умолчанию
+ *   `~/.var/app`. `null` - без источников приложений в песочнице
+ * - `purge_thumbnails?: boolean` Начальное значение `purge_thumbnails`. По умолчанию `false`
+ * - `thumbnails_dir?: string` Каталог кэша миниатюр (в основном для тестирования)
+ * - `stash?: UndoJournal` Хранилище записей режима презентации (в основном для тестирования)
+ *
+ * Переданные объекты не принадлежат сервису: их выводит из эксплуатации
+ * вызывающий. Объекты, созданные по умолчанию, выводятся из эксплуатации
+ * вместе с сервисом.
+ *
+ * #### Сигналы:
+ * - `'item-removed'(uri: string, sin: SinInfo, source: string)` Запись удалена из истории.
+ *   `sin` - совпавший критерий, `source` - источник записи
+ * - `'would-remove'(uri: string, sin: SinInfo, source: string)` Режим наблюдения: запись была бы удалена.
+ *   Только для новых записей журнала или при смене совпавшего критерия
+ * - `'thumbnails-purged'(uri: string, count: number)` Миниатюры записи удалены. `count` - количество
+ *   удаленных файлов (может быть 0)
+ * - `'notify::running'` Уведомление о запуске и остановке
+ * - `'notify::presentation'` Уведомление о включении и выключении режима презентации
+ * - `'notify::sources'` Уведомление об изменении списка источников
+ * - `'notify::dry-run'` Уведомление о смене режима
+ * - `'notify::dry-run-log'` Уведомление об изменении журнала режима наблюдения
+ *
+ * #### Константы:
+ * - `DRY_RUN_LOG_SIZE` Максимальное количество записей журнала режима наблюдения
+ *
+ * #### Свойства:
+ * - `running: boolean` Запущен ли сервис. Только чтение.
+ * - `provider: RecentFilesProvider` Провайдер истории (источник `DEFAULT_SOURCE`). Только чтение.
+ * - `sources: string[]` Источники истории. Только чтение.
+ * - `inquisitor: Inquisitor` Проверяющий. Только чтение.
+ * - `journal: UndoJournal` Журнал удаленных записей (восстановление). Только чтение.
+ * - `dry_run: boolean` Режим наблюдения. Чтение/запись.
+ * - `dry_run_log: DryRunRecord[]` Журнал режима наблюдения (копия), от старых к новым. Только чтение.
+ * - `purge_thumbnails: boolean` Удалять миниатюры удаленных записей. Чтение/запись.
+ * - `presentation: boolean` Включен ли режим презентации. Только чтение.
+ * - `stash: UndoJournal` Хранилище записей, скрытых режимом презентации. Только чтение.
+ *
+ * #### Методы:
+ * - `start(): void` Запускает уборку.
+ * - `stop(): void` Останавливает уборку.
+ * - `inspect(): void` Проверяет историю вне очереди.
+ * - `get_source_provider(source: string): RecentFilesProvider | null` Провайдер истории источника.
+ * - `clear_dry_run_log(): void` Очищает журнал режима наблюдения.
+ * - `purge_thumbnails_for(uris: string[]): Promise<number>` Удаляет миниатюры URI. Возвращает количество удаленных.
+ * - `start_presentation(allowlist: CriteriaSpec[]): Promise<number>` Включает режим презентации
+ *   (или меняет список разрешенных). Возвращает количество скрытых записей.
+ * - `stop_presentation(): number` Выключает режим презентации. Возвращает количество возвращенных записей.
+ * - `tag_files(uris: string[], attribute?: string): Promise<number>` Помечает файлы атрибутом-меткой.
+ *   Возвращает количество помеченных файлов.
+ * - `untag_files(uris: string[], attribute?: string): Promise<number>` Снимает атрибут-метку.
+ *   Возвращает количество файлов, с которых метка снята.
+ * - `decommission(): void` Выводит объект из эксплуатации.
+ *
+ * #### Ошибки:
+ * - `DecommissionedError`
+ * - `CriteriaValidateError`, `HistoryDisabledError`, `UndoJournalError` `start_presentation()`
+ * - `CriteriaValidateError` `tag_files()`, `untag_files()`
+ *
+ * Ожидаемые в работе ошибки (`ProcessAbortError`, `HistoryDisabledError`,
+ * `QueueCleanupError`, записи, уже удаленные или стоящие в очереди) сервис
+ * обрабатывает сам и наружу не передает. Остальные ошибки пишутся в журнал.
+ *
+ * @example
+ * ```typescript
+ * const service = new RecentFilesService();
+ * const settings_provider = new SettingsProvider(service.inquisitor);
+ *
+ * service.connect('item-removed', (_service, uri, [type, label], source) => {
+ *     console.log(`Удалено ${uri} из ${source} (${type}: ${label})`);
+ * });
+ *
+ * service.start();
+ *
+ * // при завершении
+ * settings_provider.decommission();
+ * service.decommission();
+ * ```
+ * */
+@GDecorator.Class({
+    GTypeName: 'RecentFilesService',
+    GTypeFlags: GObject.TypeFlags.FINAL,
+    Signals: {
+        /** Запись удалена из истории */
+        'item-removed': {
+            param_types: [
+                /** item-removed::uri:string URI записи */
+                GObject.TYPE_STRING,
+                /** item-removed::sin:SinInfo совпавший критерий */
+                GObject.TYPE_JSOBJECT,
+                /** item-removed::source:string источник записи */
+                GObject.TYPE_STRING,
+            ],
+        },
+        /** Режим наблюдения: запись была бы удалена */
+        'would-remove': {
+            param_types: [
+                /** would-remove::uri:string URI записи */
+                GObject.TYPE_STRING,
+                /** would-remove::sin:SinInfo совпавший критерий */
+                GObject.TYPE_JSOBJECT,
+                /** would-remove::source:string источник записи */
+                GObject.TYPE_STRING,
+            ],
+        },
+        /** Миниатюры записи удалены */
+        'thumbnails-purged': {
+            param_types: [
+                /** thumbnails-purged::uri:string URI записи */
+                GObject.TYPE_STRING,
+                /** thumbnails-purged::count:number количество удаленных миниатюр */
+                GObject.TYPE_UINT,
+            ],
+        },
+    },
+})
+export class RecentFilesService extends GObject.Object implements IGSignals<RecentFilesService, SignalSignatures>, IDecommissionable {
+
+    // #region SignalsInterface
+    // ------------------------
+    declare emit: IGSignals<RecentFilesService, SignalSignatures>['emit'];
+    declare connect: IGSignals<RecentFilesService, SignalSignatures>['connect'];
+    declare connect_after: IGSignals<RecentFilesService, SignalSignatures>['connect_after'];
+    // #endregion
+
+    /** Максимальное количество записей журнала режима наблюдения */
+    static DRY_RUN_LOG_SIZE = 1000 as const;
+
+    /** Провайдер истории */
+    private _provider: RecentFilesProvider;
+
+    /** Проверяющий */
+    private _inquisitor: Inquisitor;
+
+    /** Журнал удаленных записей */
+    private _journal: UndoJournal;
+
+    /** Хранилище истории провайдера и журнала. `null`, если оба переданы извне */
+    private _backend: HistoryBackend | null;
+
+    /** Созданы ли объекты сервисом (и выводятся из эксплуатации вместе с ним) */
+    private owns: {
+        /** Хранилище истории */
+        backend: boolean,
+        /** Провайдер истории */
+        provider: boolean,
+        /** Проверяющий */
+        inquisitor: boolean,
+        /** Журнал удаленных записей */
+        journal: boolean,
+        /** Хранилище режима презентации */
+        stash: boolean,
+    };
+
+    /** Запущен ли сервис */
+    private _running = false;
+
+    /** Режим наблюдения */
+    private _dry_run: boolean;
+
+    /** Удалять миниатюры удаленных записей */
+    private _purge_thumbnails: boolean;
+
+    /** Каталог кэша миниатюр. `undefined` - по умолчанию */
+    private thumbnails_dir: string | undefined;
+
+    /** Хранилище записей, скрытых режимом презентации */
+    private _stash: UndoJournal;
+
+    /** Режим презентации */
+    private presentation_context = {
+        /** Режим включен */
+        active: false,
+        /** Проверяющий правил разрешенных записей. `null`, если режим выключен */
+        allowlist: null as Inquisitor | null,
+        /** Последнее скрытие записей: скрытия выполняются по очереди */
+        pending: Promise.resolve() as Promise<unknown>,
+    };
+
+    /** Журнал режима наблюдения: источник и URI -> запись, от старых к новым */
+    private dry_run_records = new Map<string, DryRunRecord>();
+
+    /** Источники истории: источник -> провайдер и его очередь проверки */
+    private history_sources = new Map<string, HistorySource>();
+
+    /** Источники истории приложений в песочнице. `null`, если отключены */
+    private sandbox: SandboxHistorySources | null;
+
+    /** Очередь проверки */
+    private inspect_queue = {
+        /** Номер последней запущенной проверки */
+        generation: 0,
+        /** Источник, записи которого сейчас проверяются */
+        source: DEFAULT_SOURCE as string,
+        /** Идет проверка */
+        running: false,
+        /** Очереди источников пополнились во время проверки */
+        pending: false,
+    };
+
+    /** ID обработчиков */
+    private handlers_ids = {
+        /** ID обработчика сигнала 'source-added' от источников в песочнице */
+        source_added: NO_HANDLER as HandlerID,
+        /** ID обработчика сигнала 'source-removed' от источников в песочнице */
+        source_removed: NO_HANDLER as HandlerID,
+        /** ID обработчика сигнала 'matched-result' от Inquisitor */
+        matched_result: NO_HANDLER as HandlerID,
+        /** ID обработчика уведомления 'notify::criteria' от Inquisitor */
+        criteria: NO_HANDLER as HandlerID,
+    };
+
+    /** Constructor */
+    constructor(constructor_options: {
+        /** Хранилище истории для провайдера и журнала, создаваемых по умолчанию */
+        backend?: HistoryBackend,
+        /** Провайдер истории (в основном для тестирования) */
+        provider?: RecentFilesProvider,
+        /** Проверяющий (в основном для тестирования) */
+        inquisitor?: Inquisitor,
+        /** Журнал удаленных записей */
+        journal?: UndoJournal,
+        /** Начальный режим наблюдения */
+        dry_run?: boolean,
+        /** Каталог данных Flatpak-приложений. `null` - без источников в песочнице */
+        sandbox_apps_dir?: string | null,
+        /** Удалять миниатюры удаленных записей */
+        purge_thumbnails?: boolean,
+        /** Каталог кэша миниатюр (в основном для тестирования) */
+        thumbnails_dir?: string,
+        /** Хранилище записей режима презентации (в основном для тестирования) */
+        stash?: UndoJournal,
+    } = {}) {
+
+        super();
+
+        this._dry_run = constructor_options.dry_run ?? false;
+        this._purge_thumbnails = constructor_options.purge_thumbnails ?? false;
+        this.thumbnails_dir = constructor_options.thumbnails_dir;
+
+        // хранилище нужно только провайдеру и журналу, создаваемым по умолчанию
+        this._backend = constructor_options.backend
+            ?? ((constructor_options.provider && constructor_options.journal) ? null : create_default_backend());
+
+        const backend = this._backend ?? undefined;
+        this.owns = {
+            backend: !constructor_options.backend && this._backend !== null,
+            provider: !constructor_options.provider,
+            inquisitor: !constructor_options.inquisitor,
+            journal: !constructor_options.journal,
+            stash: !constructor_options.stash,
+        };
+
+        this._journal = constructor_options.journal ?? new UndoJournal({ backend });
+        this._provider = constructor_options.provider ?? new RecentFilesProvider({ journal: this._journal, backend });
+        this._inquisitor = constructor_options.inquisitor ?? new Inquisitor();
+        this._stash = constructor_options.stash ?? new UndoJournal({
+            file_path: GLib.build_filenamev([GLib.get_user_state_dir(), 'recent-files-blacklist', 'presentation-stash.json']),
+            max_entries: Number.MAX_SAFE_INTEGER,
+            backend,
+        });
+
+        // записи, скрытые до аварийного завершения
+        this.restore_stash();
+
+        this.history_sources.set(DEFAULT_SOURCE, {
+            provider: this._provider, backend: null, handler_id: NO_HANDLER, full: false, uris: new Set(), removals: new Map(),
+        });
+
+        // источники истории приложений в песочнице
+        this.sandbox = (constructor_options.sandbox_apps_dir === null)
+            ? null
+            : new SandboxHistorySources({ apps_dir: constructor_options.sandbox_apps_dir });
+
+        if (this.sandbox) {
+            for (const [source, file_path] of this.sandbox.sources) {
+                this.add_source(source, file_path);
+            }
+
+            this.handlers_ids.source_added = this.sandbox.connect(
+                'source-added',
+                (_sandbox: SandboxHistorySources, source: string, file_path: string) => {
+                    this.add_source(source, file_path);
+                    this.notify('sources');
+                }
+            );
+
+            this.handlers_ids.source_removed = this.sandbox.connect(
+                'source-removed',
+                (_sandbox: SandboxHistorySources, source: string) => {
+                    this.remove_source(source);
+                    this.notify('sources');
+                }
+            );
+        }
+
+        this.handlers_ids.matched_result = this._inquisitor.connect(
+            'matched-result',
+            this.matched_result_cb.bind(this)
+        );
+
+        this.handlers_ids.criteria = this._inquisitor.connect(
+            'notify::criteria',
+            this.criteria_changed_cb.bind(this)
+        );
+    }
+
+    // #region ПУБЛИЧНЫЙ API
+
+    /** Запущен ли сервис */
+    @GDecorator.BooleanProperty({
+        flags: GObject.ParamFlags.READABLE, default_value: false
+    })
+    public get running(): boolean {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return this._running;
+    }
+
+    /** Провайдер истории */
+    @GDecorator.ObjectProperty({
+        flags: GObject.ParamFlags.READABLE,
+        object_type: RecentFilesProvider
+    })
+    public get provider(): RecentFilesProvider {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return this._provider;
+    }
+
+    /** Источники истории: `DEFAULT_SOURCE` и источники приложений в песочнице */
+    @GDecorator.JSObjectProperty({
+        flags: GObject.ParamFlags.READABLE
+    })
+    public get sources(): string[] {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return [...this.history_sources.keys()];
+    }
+
+    /** Проверяющий */
+    @GDecorator.ObjectProperty({
+        flags: GObject.ParamFlags.READABLE,
+        object_type: Inquisitor
+    })
+    public get inquisitor(): Inquisitor {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return this._inquisitor;
+    }
+
+    /** Журнал удаленных записей */
+    @GDecorator.ObjectProperty({
+        flags: GObject.ParamFlags.READABLE,
+        object_type: UndoJournal
+    })
+    public get journal(): UndoJournal {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return this._journal;
+    }
+
+    /** Режим наблюдения.
+     *
+     * Совпавшие записи не удаляются, а записываются в `dry_run_log`.
+     * При выключении история проверяется заново. */
+    @GDecorator.BooleanProperty({
+        default_value: false
+    })
+    public get dry_run(): boolean {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return this._dry_run;
+    }
+
+    public set dry_run(value: boolean) {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        if (this._dry_run === value) {
+            return;
+        }
+
+        this._dry_run = value;
+        this.notify('dry-run');
+
+        if (!value) {
+            // совпадения, накопленные в режиме наблюдения, удаляются
+            this.inspect();
+        }
+    }
+
+    /** Журнал режима наблюдения (копия), от старых к новым */
+    @GDecorator.JSObjectProperty({
+        flags: GObject.ParamFlags.READABLE
+    })
+    public get dry_run_log(): DryRunRecord[] {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return [...this.dry_run_records.values()].map(record => ({ ...record }));
+    }
+
+    /** Удалять миниатюры удаленных записей.
+     *
+     * Влияет только на записи, удаленные после включения. */
+    @GDecorator.BooleanProperty({
+        default_value: false
+    })
+    public get purge_thumbnails(): boolean {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return this._purge_thumbnails;
+    }
+
+    public set purge_thumbnails(value: boolean) {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        if (this._purge_thumbnails !== value) {
+            this._purge_thumbnails = value;
+            this.notify('purge-thumbnails');
+        }
+    }
+
+    /** Включен ли режим презентации */
+    @GDecorator.BooleanProperty({
+        flags: GObject.ParamFlags.READABLE, default_value: false
+    })
+    public get presentation(): boolean {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return this.presentation_context.active;
+    }
+
+    /** Хранилище записей, скрытых режимом презентации */
+    @GDecorator.ObjectProperty({
+        flags: GObject.ParamFlags.READABLE,
+        object_type: UndoJournal
+    })
+    public get stash(): UndoJournal {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return this._stash;
+    }
+
+    /** Включает режим презентации.
+     *
+     * Записи истории по умолчанию, не совпавшие ни с одним правилом
+     * `allowlist`, переносятся в хранилище `stash`. Пока режим включен,
+     * так же скрываются новые и изменившиеся записи. Повторный вызов
+     * меняет список разрешенных и скрывает записи по новому списку.
+     *
+     * Если записи не удалось скрыть, режим выключается, а уже скрытые
+     * записи возвращаются.
+     *
+     * @param allowlist Правила разрешенных записей (`CriteriaSpec`)
+     *
+     * @returns Количество скрытых записей
+     *
+     * @throws {CriteriaValidateError} Если правила не валидны. Режим не меняется
+     * @throws {HistoryDisabledError} Если история отключена
+     * @throws {UndoJournalError} Если хранилище не удалось сохранить
+     *
+     * @fires notify::presentation */
+    public async start_presentation(allowlist: CriteriaSpec<CriteriaType>[]): Promise<number> {
+
+        const inquisitor = new Inquisitor();
+        try {
+            await inquisitor.set_criteria(allowlist);
+        } catch (error) {
+            if (inquisitor.decommission) {
+                inquisitor.decommission();
+            }
+            throw error;
+        }
+
+        this.release_allowlist();
+        this.presentation_context.allowlist = inquisitor;
+
+        if (!this.presentation_context.active) {
+            this.presentation_context.active = true;
+            this.notify('presentation');
+        }
+
+        try {
+            return await this.enqueue_stash(null);
+        } catch (error) {
+            if (this.presentation_context?.allowlist !== inquisitor) {
+                return 0; // список сменен новым вызовом, скрытие выполнит он
+            }
+            this.stop_presentation();
+            throw error;
+        }
+    }
+
+    /** Выключает режим презентации и возвращает скрытые записи в историю.
+     *
+     * Записи, которые не удалось вернуть, остаются в хранилище и будут
+     * возвращены при следующем создании сервиса. Если режим выключен -
+     * ничего не делает.
+     *
+     * @returns Количество возвращенных записей
+     *
+     * @throws {UndoJournalError} Если хранилище не удалось сохранить
+     *
+     * @fires notify::presentation */
+    public stop_presentation(): number {
+
+        if (!this.presentation_context.active) {
+            return 0;
+        }
+
+        this.presentation_context.active = false;
+        this.release_allowlist();
+        this.notify('presentation');
+
+        return this.restore_stash();
+    }
+
+    /** Удаляет миниатюры URI из кэша миниатюр.
+     *
+     * Записи истории не затрагиваются. Ошибки удаления отдельных
+     * миниатюр пишутся в журнал.
+     *
+     * @param uris URI файлов
+     *
+     * @returns Количество удаленных миниатюр
+     *
+     * @fires RecentFilesService#'thumbnails-purged' Для каждого URI */
+    public async purge_thumbnails_for(uris: string[]): Promise<number> {
+
+        const counts = await Promise.all(uris.map(uri => purge_thumbnails(uri, this.thumbnails_dir)));
+
+        if (this.handlers_ids !== undefined) {
+            uris.forEach((uri, i) => this.emit('thumbnails-purged', uri, counts[i]));
+        }
+
+        return counts.reduce((total, count) => total + count, 0);
+    }
+
+    /** Помечает файлы атрибутом-меткой ("не показывать в истории").
+     *
+     * Записи помеченных файлов совпадают с критерием `tag` с тем же
+     * атрибутом (правило устанавливает внешний код). Вердикты "чистый"
+     * для этих URI сбрасываются, и, если сервис запущен, записи сразу
+     * проверяются заново во всех источниках. Ошибки пометки отдельных
+     * файлов пишутся в журнал.
+     *
+     * @param uris URI файлов
+     * @param attribute Атрибут-метка. По умолчанию `metadata::rfb-private`
+     *
+     * @returns Количество помеченных файлов
+     *
+     * @throws {CriteriaValidateError} Если атрибут не валиден */
+    public async tag_files(uris: string[], attribute: string = DEFAULT_TAG_ATTRIBUTE): Promise<number> {
+
+        Inquisitor.validate_criterion({ type: 'tag', attribute });
+
+        const tagged = await set_file_tags(uris, attribute, true);
+
+        // сервис мог быть выведен из эксплуатации, пока шла запись
+        if (this.handlers_ids !== undefined && tagged.length > 0) {
+            this._inquisitor.forget(tagged);
+            for (const history_source of this.history_sources.values()) {
+                for (const uri of tagged) {
+                    history_source.uris.add(uri);
+                }
+            }
+            if (this._running) {
+                this.inspect_history();
+            }
+        }
+
+        return tagged.length;
+    }
+
+    /** Снимает атрибут-метку с файлов.
+     *
+     * Уже удаленные записи не возвращаются. Ошибки отдельных файлов
+     * пишутся в журнал.
+     *
+     * @param uris URI файлов
+     * @param attribute Атрибут-метка. По умолчанию `metadata::rfb-private`
+     *
+     * @returns Количество файлов, с которых метка снята
+     *
+     * @throws {CriteriaValidateError} Если атрибут не валиден */
+    public async untag_files(uris: string[], attribute: string = DEFAULT_TAG_ATTRIBUTE): Promise<number> {
+
+        Inquisitor.validate_criterion({ type: 'tag', attribute });
+
+        return (await set_file_tags(uris, attribute, false)).length;
+    }
+
+    /** Возвращает провайдер истории источника.
+     *
+     * Провайдер принадлежит сервису и выводится из эксплуатации
+     * вместе с ним (или при удалении источника).
+     *
+     * @param source Источник (@see {@link sources})
+     *
+     * @returns Провайдер или `null`, если источника нет */
+    public get_source_provider(source: string): RecentFilesProvider | null {
+        return this.history_sources.get(source)?.provider ?? null;
+    }
+
+    /** Очищает журнал режима наблюдения.
+     *
+     * @fires notify::dry-run-log */
+    public clear_dry_run_log(): void {
+        this.dry_run_records.clear();
+        this.notify('dry-run-log');
+    }
+
+    /** Запускает уборку.
+     *
+     * Запрашивает мониторинг истории у провайдеров всех источников. Если история
+     * отключена в системе, уборка начнется, когда она будет включена.
+     * Повторный вызов ничего не делает.
+     *
+     * @fires notify::running */
+    public start(): void {
+        if (this._running) {
+            return;
+        }
+
+        this._running = true;
+
+        for (const [source, history_source] of this.history_sources) {
+            this.attach_source(source, history_source);
+        }
+
+        this.notify('running');
+    }
+
+    /** Останавливает уборку.
+     *
+     * Прерывает текущую проверку. Записи, совпавшие до остановки, будут
+     * удалены. Повторный вызов ничего не делает.
+     *
+     * @fires notify::running */
+    public stop(): void {
+        if (!this._running) {
+            return;
+        }
+
+        for (const history_source of this.history_sources.values()) {
+            this.detach_source(history_source);
+        }
+
+        // прерванная проверка не продолжается и не мешает следующей
+        this.inspect_queue.generation++;
+        this.inspect_queue.running = false;
+        this._inquisitor.process_abort('Service stopped');
+
+        this._running = false;
+        this.notify('running');
+    }
+
+    /** Проверяет всю историю вне очереди.
+     *
+     * Прерывает текущую проверку и начинает проверку всей истории заново.
+     * Нужен после того, как `Inquisitor` был использован внешним кодом
+     * (например `inspect_to_report()`), что прерывает текущую проверку.
+     * Если сервис не запущен - ничего не делает. */
+    public inspect(): void {
+        if (this._running) {
+            for (const history_source of this.history_sources.values()) {
+                history_source.full = true;
+            }
+            this.inspect_history(true);
+        }
+    }
+
+    // #endregion
+
+    // #region ИСТОЧНИКИ
+
+    /** Добавляет источник истории приложения в песочнице.
+     *
+     * Если сервис запущен, источник сразу ставится на мониторинг. */
+    private add_source(source: string, file_path: string): void {
+
+        if (this.history_sources.has(source)) {
+            return;
+        }
+
+        const backend = new XbelHistoryBackend({ file_path });
+        const history_source: HistorySource = {
+            provider: new RecentFilesProvider({ backend }), backend, handler_id: NO_HANDLER, full: false, uris: new Set(), removals: new Map(),
+        };
+        this.history_sources.set(source, history_source);
+
+        if (this._running) {
+            this.attach_source(source, history_source);
+        }
+    }
+
+    /** Удаляет источник истории приложения в песочнице.
+     *
+     * Провайдер и хранилище источника выводятся из эксплуатации. */
+    private remove_source(source: string): void {
+
+        const history_source = this.history_sources.get(source);
+        if (!history_source || source === DEFAULT_SOURCE) {
+            return;
+        }
+        this.history_sources.delete(source);
+
+        this.decommission_source(history_source);
+    }
+
+    /** Ставит источник на мониторинг.
+     *
+     * Провайдер отправит `'history-changes-settled'` сразу после активации. */
+    private attach_source(source: string, history_source: HistorySource): void {
+
+        history_source.handler_id = history_source.provider.connect(
+            'history-changes-settled',
+            this.history_settled_cb.bind(this, source)
+        );
+
+        // изменения, пропущенные пока сервис был остановлен, неизвестны
+        history_source.full = true;
+
+        history_source.provider.request_monitoring();
+    }
+
+    /** Снимает источник с мониторинга */
+    private detach_source(history_source: HistorySource): void {
+
+        if (history_source.handler_id === NO_HANDLER) {
+            return;
+        }
+
+        decommission_signals(history_source.provider, history_source.handler_id);
+        history_source.handler_id = NO_HANDLER;
+
+        history_source.provider.withdraw_monitoring();
+    }
+
+    /** Выводит из эксплуатации провайдер и хранилище источника */
+    private decommission_source(history_source: HistorySource): void {
+
+        this.detach_source(history_source);
+
+        if (history_source.provider.decommission) {
+            history_source.provider.decommission();
+        }
+        if (history_source.backend?.decommission) {
+            history_source.backend.decommission();
+        }
+    }
+
+    // #endregion
+
+    // #region СЛУШАТЕЛИ СИГНАЛОВ
+
+    /** Реакция на "успокоение" истории источника.
+     *
+     * Новые и изменившиеся записи ставятся в очередь проверки источника.
+     * Если изменения - только удаления (например, удаления самого сервиса),
+     * проверка не запускается. */
+    private history_settled_cb(source: string, _provider: RecentFilesProvider, diff: HistoryDiff): void {
+
+        const history_source = this.history_sources.get(source);
+        if (!history_source) {
+            return;
+        }
+
+        for (const uri of [...diff.added, ...diff.modified]) {
+            history_source.uris.add(uri);
+        }
+        for (const uri of diff.removed) {
+            history_source.uris.delete(uri);
+        }
+        if (diff.added.size > 0 || diff.modified.size > 0) {
+            this.inspect_history();
+        }
+
+        if (source === DEFAULT_SOURCE && this.presentation_context.active) {
+            this.enqueue_stash([...diff.added, ...diff.modified])
+                .catch((error: unknown) => {
+                    if (error instanceof HistoryDisabledError // история отключена
+                        || error instanceof ProcessAbortError // список разрешенных сменен
+                        || error instanceof QueueCleanupError // очередь очищена
+                        || error instanceof DecommissionedError) { // сервис выведен из эксплуатации
+                        return;
+                    }
+                    console.warn('RecentFilesService: failed to stash history items:', (error as Error).message);
+                });
+        }
+    }
+
+    /** Реакция на изменение критериев.
+     *
+     * Новые критерии сбрасывают кэш "чистых", поэтому вся история
+     * должна быть проверена заново. Сброс критериев (пустой список)
+     * игнорируется. */
+    private criteria_changed_cb(): void {
+        if (this._inquisitor.criteria.length > 0) {
+            this.inspect();
+        }
+    }
+
+    /** Ставит совпавшую запись в пакет удаления ее источника.
+     *
+     * Источник записи - источник текущей проверки. В режиме наблюдения
+     * запись только записывается в журнал. Полный пакет удаляется сразу,
+     * не дожидаясь конца проверки. */
+    private matched_result_cb(_inquisitor: Inquisitor, uri: string, sin: SinInfo): void {
+
+        const source = this.inspect_queue.source;
+
+        if (this._dry_run) {
+            this.record_dry_run(source, uri, sin);
+            return;
+        }
+
+        const history_source = this.history_sources.get(source);
+        if (!history_source) {
+            return; // источник удален во время проверки
+        }
+
+        history_source.removals.set(uri, sin);
+        if (history_source.removals.size >= RecentFilesProvider.REMOVE_BATCH_SIZE) {
+            this.remove_matched(source, history_source);
+        }
+    }
+
+    // #endregion
+
+    /** Ставит скрытие записей в очередь режима презентации.
+     *
+     * @param uris URI записей. `null` - вся история
+     *
+     * @returns Количество скрытых записей */
+    private enqueue_stash(uris: string[] | null): Promise<number> {
+        const stashing = this.presentation_context.pending.then(() => this.stash_items(uris));
+        this.presentation_context.pending = stashing.catch(() => undefined);
+        return stashing;
+    }
+
+    /** Переносит записи вне списка разрешенных в хранилище режима презентации.
+     *
+     * @param uris URI записей. `null` - вся история
+     *
+     * @returns Количество скрытых записей */
+    private async stash_items(uris: string[] | null): Promise<number> {
+
+        const provider = this._provider;
+        if (!this.presentation_context.active || provider.history_items_count === 0 || uris?.length === 0) {
+            return 0;
+        }
+
+        const items = (uris === null)
+            ? await provider.get_items(recent_info_to_tuple)
+            : await provider.lookup_items(uris, recent_info_to_tuple);
+
+        // режим мог быть выключен, пока шло чтение истории
+        const allowlist = this.presentation_context?.allowlist;
+        if (!allowlist) {
+            return 0;
+        }
+
+        // запись, совпавшая с правилом, разрешена
+        const report = await allowlist.inspect_to_report(items);
+        const hidden = report.filter(([, , sins]) => sins.length === 0).map(([uri]) => uri);
+        if (hidden.length === 0) {
+            return 0;
+        }
+
+        const result = await provider.remove_items(hidden, null, undefined, this._stash);
+        const stashed = [...result.values()].filter(error => error === null).length;
+
+        // сервис выведен из эксплуатации во время скрытия: записи
+        // вернутся из файла хранилища при следующем создании сервиса
+        if (this.handlers_ids !== undefined && !this.presentation_context.active) {
+            // режим выключен во время скрытия
+            this.restore_stash();
+        }
+
+        return stashed;
+    }
+
+    /** Возвращает записи из хранилища режима презентации в историю.
+     *
+     * @returns Количество возвращенных записей */
+    private restore_stash(): number {
+        if (this._stash.entries.length === 0) {
+            return 0;
+        }
+        return this._stash.restore_all_since(0);
+    }
+
+    /** Выводит из эксплуатации проверяющий списка разрешенных */
+    private release_allowlist(): void {
+        const allowlist = this.presentation_context.allowlist;
+        this.presentation_context.allowlist = null;
+        if (allowlist?.decommission) {
+            allowlist.decommission();
+        }
+    }
+
+    /** Записывает несостоявшееся удаление в журнал режима наблюдения.
+     *
+     * @fires RecentFilesService#'would-remove' Для новой записи или при смене критерия
+     * @fires notify::dry-run-log */
+    private record_dry_run(source: string, uri: string, sin: SinInfo): void {
+
+        const key = `${source}\n${uri}`;
+        const previous = this.dry_run_records.get(key);
+
+        // повторное совпадение переносится в конец
+        this.dry_run_records.delete(key);
+        this.dry_run_records.set(key, { uri, source, sin, time: Math.floor(Date.now() / 1000) });
+
+        if (this.dry_run_records.size > RecentFilesService.DRY_RUN_LOG_SIZE) {
+            // первый элемент - самый старый
+            this.dry_run_records.delete(this.dry_run_records.keys().next().value!);
+        }
+
+        this.notify('dry-run-log');
+
+        if (previous === undefined || previous.sin[0] !== sin[0] || previous.sin[1] !== sin[1]) {
+            this.emit('would-remove', uri, sin, source);
+        }
+    }
+
+    /** Проверяет записи из очередей проверки источников (или всю историю источников).
+     *
+     * Источники проверяются по очереди. Если проверка уже идет, очереди
+     * будут проверены после нее: текущая проверка не прерывается. Записи
+     * удаляются из очереди источника только после завершения проверки
+     * источника, которую не сменила более новая.
+     *
+     * @param restart Прервать текущую проверку (`ProcessAbortError`) и начать новую */
+    private async inspect_history(restart = false): Promise<void> {
+
+        const queue = this.inspect_queue;
+        if (queue.running && !restart) {
+            queue.pending = true;
+            return;
+        }
+
+        const generation = ++queue.generation;
+        queue.running = true;
+
+        try {
+            do {
+                queue.pending = false;
+                await this.inspect_sources(generation);
+            } while (queue.pending && generation === queue.generation);
+        } finally {
+            if (generation === queue.generation) {
+                queue.running = false;
+            }
+        }
+    }
+
+    /** Проверяет очереди проверки источников по очереди.
+     *
+     * @param generation Номер проверки. Проверка прекращается, если ее сменила более новая */
+    private async inspect_sources(generation: number): Promise<void> {
+
+        const queue = this.inspect_queue;
+
+        for (const [source, history_source] of [...this.history_sources]) {
+
+            const full = history_source.full;
+            const uris = [...history_source.uris];
+
+            try {
+                if (history_source.provider.history_items_count === 0) {
+                    history_source.full = false;
+                    history_source.uris.clear();
+                    continue;
+                }
+                if (!full && uris.length === 0) {
+                    continue;
+                }
+
+                const items = full
+                    ? await history_source.provider.get_items(recent_info_to_tuple)
+                    : await history_source.provider.lookup_items(uris, recent_info_to_tuple);
+
+                // сервис мог быть остановлен или запущена новая проверка, пока шло чтение истории
+                if (!this._running || generation !== queue.generation) {
+                    return;
+                }
+
+                // 'matched-result' относится к этому источнику
+                queue.source = source;
+                await this._inquisitor.inspect_to_signals(items);
+
+                if (generation !== queue.generation) {
+                    return;
+                }
+
+                // флаг мог быть выставлен заново во время проверки (`start()`)
+                history_source.full = history_source.full && !full;
+                for (const uri of uris) {
+                    history_source.uris.delete(uri);
+                }
+
+            } catch (error) {
+                if (error instanceof ProcessAbortError) { // прервана новой проверкой, критериями или остановкой
+                    return;
+                }
+                if (error instanceof HistoryDisabledError // история источника отключена
+                    || error instanceof DecommissionedError) { // источник удален или сервис выведен из эксплуатации
+                    continue;
+                }
+                console.warn(`RecentFilesService: history inspection of '${source}' failed:`, (error as Error).message);
+            } finally {
+                // в том числе совпавшие до прерывания проверки
+                this.remove_matched(source, history_source);
+            }
+        }
+    }
+
+    /** Удаляет пакет совпавших записей источника.
+     *
+     * Записи, уже удаленные или стоящие в очереди провайдера, пропускаются.
+     *
+     * @fires RecentFilesService#'item-removed' После удаления каждой записи
+     * @fires RecentFilesService#'thumbnails-purged' После удаления миниатюр записей (`purge_thumbnails`) */
+    private remove_matched(source: string, history_source: HistorySource): void {
+
+        const removals = history_source.removals;
+        if (this.handlers_ids === undefined // сервис выведен из эксплуатации
+            || removals.size === 0
+            || this.history_sources.get(source) !== history_source) { // источник удален во время проверки
+            return;
+        }
+        history_source.removals = new Map();
+
+        history_source.provider.remove_items([...removals.keys()])
+            .then((result) => {
+                if (this.handlers_ids === undefined) {
+                    return;
+                }
+                const removed = [...result].filter(([, error]) => error === null).map(([uri]) => uri);
+                for (const uri of removed) {
+                    this.emit('item-removed', uri, removals.get(uri)!, source);
+                }
+                if (this._purge_thumbnails && removed.length > 0) {
+                    // не отклоняется: ошибки удаления миниатюр пишутся в журнал
+                    this.purge_thumbnails_for(removed);
+                }
+            })
+            .catch((error: unknown) => {
+                if (error instanceof HistoryDisabledError // история отключена
+                    || error instanceof QueueCleanupError) { // очередь очищена
+                    return;
+                }
+                // в том числе UndoJournalError: без записи в журнале записи не удаляются
+                console.warn(`RecentFilesService: failed to remove ${removals.size} items of '${source}':`, (error as Error).message);
+            });
+    }
+
+    /** Выводит объект из эксплуатации.
+     *
+     * Останавливает уборку и выводит из эксплуатации провайдеры источников
+     * в песочнице и объекты, созданные сервисом (провайдер, `Inquisitor`,
+     * журналы, хранилище истории). Переданные объекты остаются рабочими.
+     *
+     * @see {@link IDecommissionable} */
+    public decommission: DecommissionType = () => {
+
+        this.stop();
+
+        // скрытые записи возвращаются при штатном завершении
+        try {
+            this.stop_presentation();
+        } catch (error) {
+            console.warn('RecentFilesService: failed to restore stashed items:', (error as Error).message);
+        }
+
+        decommission_signals(this._inquisitor, this.handlers_ids.matched_result, this.handlers_ids.criteria);
+
+        if (this.sandbox) {
+            decommission_signals(this.sandbox, this.handlers_ids.source_added, this.handlers_ids.source_removed);
+            if (this.sandbox.decommission) {
+                this.sandbox.decommission();
+            }
+        }
+        for (const history_source of this.history_sources.values()) {
+            if (history_source.backend) { // провайдер источника по умолчанию выводится ниже
+                this.decommission_source(history_source);
+            }
+        }
+
+        // переданные объекты выводит из эксплуатации вызывающий
+        if (this.owns.inquisitor && this._inquisitor.decommission) {
+            this._inquisitor.decommission();
+        }
+        if (this.owns.provider && this._provider.decommission) {
+            this._provider.decommission();
+        }
+        if (this.owns.journal && this._journal.decommission) {
+            this._journal.decommission();
+        }
+        if (this.owns.stash && this._stash.decommission) {
+            this._stash.decommission();
+        }
+        if (this.owns.backend && this._backend?.decommission) {
+            this._backend.decommission();
+        }
+
+        function throw_decommissioned(): never {
+            throw new DecommissionedError();
+        }
+
+        // "Ломаем" все публичные методы
+        this.start = (throw_decommissioned as typeof this.start);
+        this.stop = (throw_decommissioned as typeof this.stop);
+        this.inspect = (throw_decommissioned as typeof this.inspect);
+        this.get_source_provider = (throw_decommissioned as typeof this.get_source_provider);
+        this.clear_dry_run_log = (throw_decommissioned as typeof this.clear_dry_run_log);
+        this.purge_thumbnails_for = (throw_decommissioned as typeof this.purge_thumbnails_for);
+        this.start_presentation = (throw_decommissioned as typeof this.start_presentation);
+        this.stop_presentation = (throw_decommissioned as typeof this.stop_presentation);
+        this.tag_files = (throw_decommissioned as typeof this.tag_files);
+        this.untag_files = (throw_decommissioned as typeof this.untag_files);
+
+        this._inquisitor = (undefined as unknown as typeof this._inquisitor);
+        this._provider = (undefined as unknown as typeof this._provider);
+        this._journal = (undefined as unknown as typeof this._journal);
+        this._stash = (undefined as unknown as typeof this._stash);
+        this.presentation_context = (undefined as unknown as typeof this.presentation_context);
+        this._backend = (undefined as unknown as typeof this._backend);
+        this.owns = (undefined as unknown as typeof this.owns);
+        this.dry_run_records = (undefined as unknown as typeof this.dry_run_records);
+        this.history_sources = (undefined as unknown as typeof this.history_sources);
+        this.sandbox = (undefined as unknown as typeof this.sandbox);
+        this.inspect_queue = (undefined as unknown as typeof this.inspect_queue);
+        this.handlers_ids = (undefined as unknown as typeof this.handlers_ids);
+
+        this.decommission = DECOMMISSIONED;
+    };
+}
@@ -0,0 +1,249 @@
+/** @file: src/service/RulesFile.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.1.0 */
+/**
+ * @changelog
+ *
+ * # 1.1.0 - Флаг `enabled` и `id` - поля критерия (`CriteriaSpec`)
+ *         - Правила с повторяющимся `id` не импортируются
+ *
+ * # 1.0.0 - Первый вариант.
+ *           - Версионированный JSON-формат набора правил
+ *           - Импорт в режимах MERGE и REPLACE
+ */
+
+import GLib from 'gi://GLib?version=2.0';
+
+import {
+    Inquisitor,
+    CriteriaValidateError
+} from './Inquisitor.js';
+import type {
+    CriteriaSpec,
+    CriteriaType
+} from './Inquisitor.js';
+
+/** Идентификатор формата файла правил */
+export const RULES_FILE_FORMAT = 'recent-files-blacklist-rules' as const;
+
+/** Текущая версия схемы файла правил.
+ *
+ * Файлы с большей версией не импортируются. */
+export const RULES_FILE_VERSION = 1 as const;
+
+/** Метаданные правила.
+ *
+ * Метка, идентификатор и флаг включения хранятся в самом
+ * критерии (`label`, `id`, `enabled`). */
+export interface RuleMetadata {
+    /** Произвольный комментарий */
+    comment?: string,
+    /** Время создания правила (ISO 8601) */
+    created_at?: string,
+}
+
+/** Правило - критерий верхнего уровня с метаданными */
+export type Rule = CriteriaSpec<CriteriaType> & RuleMetadata;
+
+/** Содержимое файла правил.
+ *
+ * @example
+ * ```json
+ * {
+ *     "format": "recent-files-blacklist-rules",
+ *     "version": 1,
+ *     "rules": [
+ *         {
+ *             "type": "glob",
+ *             "pattern": "*.torrent",
+ *             "label": "Торренты",
+ *             "enabled": true,
+ *             "comment": "Общий список команды",
+ *             "created_at": "2025-01-01T00:00:00.000Z"
+ *         }
+ *     ]
+ * }
+ * ``` */
+export interface RulesFile {
+    /** Идентификатор формата. Всегда {@link RULES_FILE_FORMAT} */
+    format: typeof RULES_FILE_FORMAT,
+    /** Версия схемы файла */
+    version: number,
+    /** Правила */
+    rules: Rule[],
+}
+
+/** Режимы импорта правил */
+export enum ImportMode {
+    /** Импортированные правила добавляются к текущим.
+     * Правила, совпадающие с уже существующими, пропускаются */
+    MERGE,
+    /** Импортированные правила заменяют текущие */
+    REPLACE
+}
+
+/** Результат импорта правил */
+export interface ImportResult {
+    /** Итоговый список правил */
+    rules: Rule[],
+    /** Количество добавленных правил */
+    added: number,
+    /** Количество пропущенных правил, уже существующих в текущем списке (MERGE) */
+    duplicates: number,
+    /** Ошибки отдельных правил. Такие правила пропускаются,
+     * `error.path` - индекс правила в файле, например `[3]` */
+    errors: CriteriaValidateError[],
+}
+
+/** Ошибка разбора файла правил.
+ *
+ * Выбрасывается, если файл целиком не может быть импортирован:
+ * не является JSON, имеет другой формат или не поддерживаемую версию.
+ * Исходная ошибка доступна через свойство `cause`. */
+export class RulesFileError extends Error {
+    constructor(message = 'Invalid rules file', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'RulesFileError';
+    }
+}
+
+/** Поля метаданных, не влияющие на условие правила */
+const METADATA_FIELDS = new Set(['id', 'label', 'enabled', 'comment', 'created_at']);
+
+/** Формирует ключ условия правила для поиска дубликатов.
+ *
+ * Учитываются все поля критерия, кроме метаданных и метки.
+ * Порядок полей объектов не важен. */
+function get_rule_key(rule: Rule): string {
+    const condition = Object.fromEntries(Object.entries(rule).filter(([key]) => !METADATA_FIELDS.has(key)));
+    return JSON.stringify(condition, (_key: string, value: unknown) => {
+        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+            return Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+        }
+        return value;
+    });
+}
+
+/** Проверяет правило и заполняет метаданные по умолчанию.
+ *
+ * @param rule Правило из файла
+ * @param path Путь к правилу для сообщений об ошибках
+ * @param now Время создания для правил без `created_at`
+ *
+ * @returns Правило с заполненными `enabled` и `created_at`
+ *
+ * @throws {CriteriaValidateError} Если критерий или метаданные не валидны */
+function validate_rule(rule: Rule, path: string, now: string): Rule {
+
+    Inquisitor.validate_criterion(rule, path);
+
+    const { enabled = true, comment, created_at = now } = rule;
+
+    if (comment !== undefined && typeof comment !== 'string') {
+        throw new CriteriaValidateError(`Invalid comment: '${comment}'. Comment must be a string`, { path });
+    }
+    if (typeof created_at !== 'string' || GLib.DateTime.new_from_iso8601(created_at, null) === null) {
+        throw new CriteriaValidateError(`Invalid creation time: '${created_at}'. Creation time must be an ISO 8601 string`, { path });
+    }
+
+    return { ...rule, enabled, created_at };
+}
+
+/** Сериализует правила в файл правил.
+ *
+ * @param rules Правила для экспорта
+ *
+ * @returns Содержимое файла (JSON) */
+export function export_rules(rules: readonly Rule[]): string {
+    const rules_file: RulesFile = {
+        format: RULES_FILE_FORMAT,
+        version: RULES_FILE_VERSION,
+        rules: [...rules],
+    };
+    return JSON.stringify(rules_file, null, 4) + '\n';
+}
+
+/** Импортирует правила из файла правил.
+ *
+ * Каждое правило проверяется отдельно (@see {@link Inquisitor.validate_criterion}).
+ * Не валидные правила пропускаются и попадают в `errors`, импорт остальных
+ * продолжается. Правилам без `created_at` назначается текущее время,
+ * без `enabled` - `true`.
+ *
+ * @param text Содержимое файла правил
+ * @param current Текущие правила
+ * @param mode Режим импорта
+ *
+ * @returns Результат импорта. `current` не изменяется
+ *
+ * @throws {RulesFileError} Если файл целиком не может быть импортирован
+ *
+ * @example
+ * ```typescript
+ * const result = import_rules(text, settings_provider.read_rules(), ImportMode.MERGE);
+ * for (const error of result.errors) {
+ *     console.warn(error.message); // "Criterion [3]: Invalid glob pattern: ''..."
+ * }
+ * settings_provider.store_rules(result.rules);
+ * ``` */
+export function import_rules(text: string, current: readonly Rule[], mode: ImportMode): ImportResult {
+
+    let rules_file: Partial<RulesFile>;
+    try {
+        rules_file = JSON.parse(text);
+    } catch (error) {
+        throw new RulesFileError(`Invalid rules file: ${(error as Error).message}`, { cause: error });
+    }
+
+    if (typeof rules_file !== 'object' || rules_file === null || rules_file.format !== RULES_FILE_FORMAT) {
+        throw new RulesFileError(`Invalid rules file: format must be '${RULES_FILE_FORMAT}'`);
+    }
+    if (!Number.isInteger(rules_file.version) || rules_file.version! < 1) {
+        throw new RulesFileError(`Invalid rules file: invalid version '${rules_file.version}'`);
+    }
+    if (rules_file.version! > RULES_FILE_VERSION) {
+        throw new RulesFileError(`Unsupported rules file version ${rules_file.version}. Supported version is ${RULES_FILE_VERSION} or lower`);
+    }
+    if (!Array.isArray(rules_file.rules)) {
+        throw new RulesFileError('Invalid rules file: rules must be an array');
+    }
+
+    const result: ImportResult = {
+        rules: (mode === ImportMode.MERGE) ? [...current] : [],
+        added: 0,
+        duplicates: 0,
+        errors: [],
+    };
+
+    const keys = new Set(result.rules.map(get_rule_key));
+    const ids = new Set(result.rules.map(rule => rule.id).filter(id => id !== undefined));
+    const now = new Date().toISOString();
+
+    for (const [index, rule] of rules_file.rules.entries()) {
+        try {
+            const valid_rule = validate_rule(rule, `[${index}]`, now);
+            const key = get_rule_key(valid_rule);
+            if (keys.has(key)) {
+                result.duplicates++;
+                continue;
+            }
+            if (valid_rule.id !== undefined && ids.has(valid_rule.id)) {
+                // другое условие с тем же id - Inquisitor не примет такой список
+                throw new CriteriaValidateError(`Duplicate id: '${valid_rule.id}'. Id must be unique`, { path: `[${index}]` });
+            }
+            keys.add(key);
+            if (valid_rule.id !== undefined) {
+                ids.add(valid_rule.id);
+            }
+            result.rules.push(valid_rule);
+            result.added++;
+        } catch (error) {
+            if (!(error instanceof CriteriaValidateError)) {
+                throw error;
+            }
+            result.errors.push(error);
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,253 @@
+/** @file: src/service/SandboxHistorySources.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+/**
+ * @changelog
+ *
+ * # 1.0.0 - Первый вариант.
+ *           - Поиск файлов истории Flatpak-приложений
+ *             (`~/.var/app/<id>/data/recently-used.xbel`)
+ */
+
+import GObject from 'gi://GObject?version=2.0';
+import GLib from 'gi://GLib?version=2.0';
+import Gio from 'gi://Gio?version=2.0';
+
+import type {
+    HandlerID
+} from '../Ljs/common-types.js';
+import {
+    NO_HANDLER
+} from '../Ljs/common-types.js';
+import {
+    IDecommissionable,
+    DecommissionedError,
+    decommission_signals,
+    DECOMMISSIONED,
+    DecommissionType
+} from '../Ljs/Decommissionable.js';
+import {
+    GDecorator
+} from '../Ljs/GObjectDecorators.js';
+import type {
+    IGSignals
+} from '../Ljs/IGSignals.js';
+
+/** Сигнатуры сигналов специфичных для SandboxHistorySources. */
+interface SourcesSignalSignatures {
+    'source-added': (source: string, file_path: string) => void;
+    'source-removed': (source: string) => void;
+    'notify::sources': (pspec: GObject.ParamSpec) => void;
+}
+
+type SignalSignatures = SourcesSignalSignatures & GObject.Object.SignalSignatures;
+
+/** Префикс источника Flatpak-приложения: `flatpak:<id приложения>` */
+export const FLATPAK_SOURCE_PREFIX = 'flatpak:' as const;
+
+/** SandboxHistorySources - файлы истории приложений в песочнице.
+ *
+ * ### Описание
+ *
+ * Flatpak-приложения пишут историю не в общий `recently-used.xbel`,
+ * а в свой `~/.var/app/<id>/data/recently-used.xbel`. Gtk.RecentManager
+ * эти файлы не видит.
+ *
+ * Каждый каталог приложения в `apps_dir` - источник `flatpak:<id>`
+ * (@see {@link FLATPAK_SOURCE_PREFIX}), даже если приложение еще не
+ * записало историю: файл истории может появиться позже, и его
+ * отслеживает хранилище (`XbelHistoryBackend`).
+ *
+ * Каталоги приложений находятся при создании объекта. Установка и
+ * удаление приложений отслеживаются файловым монитором `apps_dir`.
+ *
+ * ### API
+ *
+ * #### Параметры конструктора:
+ * - `apps_dir?: string` Каталог данных Flatpak-приложений. По умолчанию `~/.var/app`
+ *
+ * #### Сигналы:
+ * - `'source-added'(source: string, file_path: string)` Найден новый источник
+ * - `'source-removed'(source: string)` Источник исчез (каталог приложения удален)
+ * - `'notify::sources'` Уведомление об изменении списка источников
+ *
+ * #### Свойства:
+ * - `sources: Map<string, string>` Источники (копия): источник -> путь к файлу истории. Только чтение.
+ *
+ * #### Методы:
+ * - `decommission(): void` Выводит объект из эксплуатации.
+ *
+ * #### Ошибки:
+ * - `DecommissionedError`
+ *
+ * @example
+ * ```typescript
+ * const sandbox = new SandboxHistorySources();
+ * for (const [source, file_path] of sandbox.sources) {
+ *     console.log(`${source}: ${file_path}`);
+ * }
+ * sandbox.connect('source-added', (_obj, source, file_path) => { ... });
+ * ```
+ * */
+@GDecorator.Class({
+    GTypeName: 'SandboxHistorySources',
+    GTypeFlags: GObject.TypeFlags.FINAL,
+    Signals: {
+        /** Найден новый источник */
+        'source-added': {
+            param_types: [
+                /** source-added::source:string источник */
+                GObject.TYPE_STRING,
+                /** source-added::file_path:string путь к файлу истории */
+                GObject.TYPE_STRING,
+            ],
+        },
+        /** Источник исчез */
+        'source-removed': {
+            param_types: [
+                /** source-removed::source:string источник */
+                GObject.TYPE_STRING,
+            ],
+        },
+    },
+})
+export class SandboxHistorySources extends GObject.Object implements IGSignals<SandboxHistorySources, SignalSignatures>, IDecommissionable {
+
+    // #region SignalsInterface
+    // ------------------------
+    declare emit: IGSignals<SandboxHistorySources, SignalSignatures>['emit'];
+    declare connect: IGSignals<SandboxHistorySources, SignalSignatures>['connect'];
+    declare connect_after: IGSignals<SandboxHistorySources, SignalSignatures>['connect_after'];
+    // #endregion
+
+    /** Каталог данных Flatpak-приложений */
+    private apps_dir: string;
+
+    /** Источники: источник -> путь к файлу истории */
+    private _sources = new Map<string, string>();
+
+    /** Монитор каталога приложений */
+    private monitor: Gio.FileMonitor;
+
+    /** ID обработчиков */
+    private handlers_ids = {
+        /** ID обработчика сигнала 'changed' от монитора каталога */
+        monitor: NO_HANDLER as HandlerID,
+    };
+
+    /** Constructor */
+    constructor(constructor_options: {
+        /** Каталог данных Flatpak-приложений */
+        apps_dir?: string,
+    } = {}) {
+
+        super();
+
+        this.apps_dir = constructor_options.apps_dir
+            ?? GLib.build_filenamev([GLib.get_home_dir(), '.var', 'app']);
+
+        this.scan();
+
+        this.monitor = Gio.File.new_for_path(this.apps_dir).monitor_directory(Gio.FileMonitorFlags.NONE, null);
+        this.handlers_ids.monitor = this.monitor.connect(
+            'changed',
+            this.apps_dir_changed_cb.bind(this)
+        );
+    }
+
+    /** Источники (копия): источник -> путь к файлу истории */
+    @GDecorator.JSObjectProperty({
+        flags: GObject.ParamFlags.READABLE
+    })
+    public get sources(): Map<string, string> {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return new Map(this._sources);
+    }
+
+    /** Находит каталоги приложений.
+     *
+     * Отсутствующий каталог - нет источников. */
+    private scan(): void {
+
+        let enumerator: Gio.FileEnumerator;
+        try {
+            enumerator = Gio.File.new_for_path(this.apps_dir).enumerate_children(
+                'standard::name,standard::type', Gio.FileQueryInfoFlags.NONE, null
+            );
+        } catch (error) {
+            if (!(error instanceof GLib.Error && error.matches(Gio.IOErrorEnum, Gio.IOErrorEnum.NOT_FOUND))) {
+                console.warn(`SandboxHistorySources: failed to read '${this.apps_dir}':`, (error as Error).message);
+            }
+            return;
+        }
+
+        try {
+            for (let info = enumerator.next_file(null); info !== null; info = enumerator.next_file(null)) {
+                if (info.get_file_type() === Gio.FileType.DIRECTORY) {
+                    this._sources.set(...this.source_of(info.get_name()));
+                }
+            }
+        } finally {
+            enumerator.close(null);
+        }
+    }
+
+    /** Источник и путь к файлу истории приложения */
+    private source_of(app_id: string): [source: string, file_path: string] {
+        return [
+            `${FLATPAK_SOURCE_PREFIX}${app_id}`,
+            GLib.build_filenamev([this.apps_dir, app_id, 'data', 'recently-used.xbel']),
+        ];
+    }
+
+    /** Реакция на изменение каталога приложений.
+     *
+     * @fires 'source-added' Для нового каталога приложения
+     * @fires 'source-removed' Для удаленного каталога приложения
+     * @fires notify::sources */
+    private apps_dir_changed_cb(_monitor: Gio.FileMonitor, file: Gio.File, _other_file: Gio.File | null, event_type: Gio.FileMonitorEvent): void {
+
+        const app_id = file.get_basename();
+        if (app_id === null) {
+            return;
+        }
+        const [source, file_path] = this.source_of(app_id);
+
+        switch (event_type) {
+            case Gio.FileMonitorEvent.CREATED:
+                if (this._sources.has(source) || file.query_file_type(Gio.FileQueryInfoFlags.NONE, null) !== Gio.FileType.DIRECTORY) {
+                    return;
+                }
+                this._sources.set(source, file_path);
+                this.notify('sources');
+                this.emit('source-added', source, file_path);
+                break;
+            case Gio.FileMonitorEvent.DELETED:
+                if (!this._sources.delete(source)) {
+                    return;
+                }
+                this.notify('sources');
+                this.emit('source-removed', source);
+                break;
+            default:
+                break;
+        }
+    }
+
+    /** Выводит объект из эксплуатации.
+     *
+     * @see {@link IDecommissionable} */
+    public decommission: DecommissionType = () => {
+
+        decommission_signals(this.monitor, this.handlers_ids.monitor);
+        this.monitor.cancel();
+
+        this._sources = (undefined as unknown as typeof this._sources);
+        this.monitor = (undefined as unknown as typeof this.monitor);
+        this.handlers_ids = (undefined as unknown as typeof this.handlers_ids);
+
+        this.decommission = DECOMMISSIONED;
+    };
+}
@@ -0,0 +1,409 @@
+/** @file: src/service/SettingsProvider.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.3.0 */
+/**
+ * @changelog
+ *
+ * # 1.3.0 - Сигнал `'rules-changed'`
+ *
+ * # 1.2.0 - Отключенные правила передаются в `Inquisitor`
+ *           (флаг `enabled` обрабатывается им самим)
+ *
+ * # 1.1.0 - Ключ `criteria` хранит правила с метаданными (`Rule`)
+ *           - Отключенные правила не применяются
+ *           - Импорт и экспорт файла правил
+ *
+ * # 1.0.0 - Первый вариант.
+ *           - Хранение критериев в GSettings
+ *           - Применение при запуске и при изменении ключа
+ *           - Ключ `last-error`
+ */
+
+import GObject from 'gi://GObject?version=2.0';
+import Gio from 'gi://Gio?version=2.0';
+
+import {
+    IDecommissionable,
+    DecommissionedError,
+    decommission_signals,
+    DECOMMISSIONED,
+    DecommissionType
+} from '../Ljs/Decommissionable.js';
+import {
+    GDecorator
+} from '../Ljs/GObjectDecorators.js';
+import type {
+    IGSignals
+} from '../Ljs/IGSignals.js';
+import type {
+    HandlerID,
+} from '../shared/common-types.js';
+import {
+    NO_HANDLER,
+} from '../shared/common-types.js';
+import {
+    Inquisitor,
+    SetCriteriaCancelledError
+} from './Inquisitor.js';
+import type {
+    CriteriaSpec,
+    CriteriaType
+} from './Inquisitor.js';
+import {
+    export_rules,
+    import_rules,
+    ImportMode
+} from './RulesFile.js';
+import type {
+    ImportResult,
+    Rule
+} from './RulesFile.js';
+
+/** Ошибка чтения критериев из настроек.
+ *
+ * Выбрасывается, если значение ключа `criteria` не является
+ * JSON-массивом. Исходная ошибка разбора доступна через `cause`. */
+export class StoredCriteriaError extends Error {
+    constructor(message = 'Invalid stored criteria', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'StoredCriteriaError';
+    }
+}
+
+/** Сигнатуры сигналов специфичных для SettingsProvider. */
+interface SettingsProviderSignalSignatures {
+    'rules-changed': () => void;
+    'notify::last-error': (pspec: GObject.ParamSpec) => void;
+}
+
+type SignalSignatures = SettingsProviderSignalSignatures & GObject.Object.SignalSignatures;
+
+/** SettingsProvider - провайдер настроек из GSettings.
+ *
+ * ### Описание
+ *
+ * Хранит список правил (`Rule[]` - критерии фильтрации с метаданными) в GSettings
+ * (схема `SCHEMA_ID`, ключ `criteria`, JSON-строка) и применяет их
+ * к `Inquisitor`:
+ * - при создании объекта
+ * - при каждом изменении ключа `criteria` (в том числе из других процессов,
+ *   например `gsettings set ...` или окна настроек)
+ *
+ * Настройки переживают завершение сеанса: "настроил и забыл".
+ *
+ * Результат последнего применения записывается в ключ `last-error`:
+ * - пустая строка - критерии применены успешно
+ * - иначе - сообщение об ошибке (`CriteriaValidateError`, `StoredCriteriaError`).
+ *   Критерии `Inquisitor` при этом остаются пустыми
+ *
+ * Ключ `last-error` записывается только этим классом. Для остальных
+ * клиентов он только для чтения.
+ *
+ * ### API
+ *
+ * #### Параметры конструктора:
+ * - `inquisitor: Inquisitor` Объект, к которому применяются критерии. Не принадлежит провайдеру
+ * - `settings?: Gio.Settings` Инстанс настроек (в основном для тестирования)
+ *
+ * #### Сигналы:
+ * - `'rules-changed'` Значение ключа `criteria` изменилось (в том числе из других процессов).
+ *   Отправляется до применения новых правил
+ * - `'notify::last-error'` Уведомление об изменении результата применения
+ *
+ * #### Константы:
+ * - `SCHEMA_ID` Идентификатор схемы GSettings
+ *
+ * #### Свойства:
+ * - `last_error: string` Ошибка последнего применения критериев. Только чтение.
+ *
+ * #### Методы:
+ * - `read_rules(): Rule[]` Читает сохраненные правила.
+ * - `read_criteria(): CriteriaSpec<CriteriaType>[]` Читает сохраненные правила как критерии.
+ * - `store_rules(rules: Rule[]): void` Сохраняет правила.
+ * - `store_criteria(criteria: CriteriaSpec<CriteriaType>[]): void` Сохраняет критерии (правила без метаданных).
+ * - `export_rules(): string` Экспортирует сохраненные правила в файл правил.
+ * - `import_rules(text: string, mode: ImportMode): ImportResult` Импортирует правила из файла правил.
+ * - `reload(): Promise<void>` Применяет сохраненные критерии.
+ * - `decommission(): void` Выводит объект из эксплуатации.
+ *
+ * #### Ошибки:
+ * - `StoredCriteriaError` Значение ключа `criteria` не является JSON-массивом
+ * - `RulesFileError` Файл правил не может быть импортирован
+ * - `DecommissionedError`
+ *
+ * @example
+ * ```typescript
+ * const inquisitor = new Inquisitor();
+ * const settings_provider = new SettingsProvider(inquisitor);
+ *
+ * settings_provider.connect('notify::last-error', () => {
+ *     if (settings_provider.last_error) {
+ *         console.warn('Правила не применены:', settings_provider.last_error);
+ *     }
+ * });
+ *
+ * settings_provider.store_criteria([
+ *     { type: 'glob', pattern: '*.tmp' },
+ * ]);
+ * ```
+ * */
+@GDecorator.Class({
+    GTypeName: 'SettingsProvider',
+    GTypeFlags: GObject.TypeFlags.FINAL,
+    Signals: {
+        /** Значение ключа `criteria` изменилось */
+        'rules-changed': {},
+    },
+})
+export class SettingsProvider extends GObject.Object implements IGSignals<SettingsProvider, SignalSignatures>, IDecommissionable {
+
+    // #region SignalsInterface
+    // ------------------------
+    declare emit: IGSignals<SettingsProvider, SignalSignatures>['emit'];
+    declare connect: IGSignals<SettingsProvider, SignalSignatures>['connect'];
+    declare connect_after: IGSignals<SettingsProvider, SignalSignatures>['connect_after'];
+    // #endregion
+
+    /** Идентификатор схемы GSettings */
+    static SCHEMA_ID = 'org.gnome.shell.extensions.recent-files-blacklist' as const;
+
+    /** Инстанс настроек */
+    private settings: Gio.Settings;
+
+    /** Объект, к которому применяются критерии */
+    private inquisitor: Inquisitor;
+
+    /** ID обработчиков */
+    private handlers_ids = {
+        /** ID обработчика сигнала 'changed::criteria' */
+        criteria: NO_HANDLER as HandlerID,
+        /** ID обработчика сигнала 'changed::last-error' */
+        last_error: NO_HANDLER as HandlerID,
+    };
+
+    /** Номер последнего запущенного применения.
+     * Результат устаревших применений не записывается в `last-error` */
+    private reload_serial = 0;
+
+    /** Constructor */
+    constructor(inquisitor: Inquisitor, constructor_options: {
+        /** Инстанс настроек (в основном для тестирования) */
+        settings?: Gio.Settings,
+    } = {}) {
+
+        super();
+
+        this.inquisitor = inquisitor;
+        this.settings = constructor_options.settings ?? new Gio.Settings({ schema_id: SettingsProvider.SCHEMA_ID });
+
+        // слежение за изменением критериев
+        this.handlers_ids.criteria = this.settings.connect(
+            'changed::criteria',
+            this.criteria_changed_cb.bind(this)
+        );
+
+        // слежение за изменением результата
+        this.handlers_ids.last_error = this.settings.connect(
+            'changed::last-error',
+            () => this.notify('last-error')
+        );
+
+        // применяем сохраненные критерии при запуске
+        this.reload();
+    }
+
+    /** Ошибка последнего применения критериев.
+     *
+     * Пустая строка, если критерии применены успешно. */
+    @GDecorator.StringProperty({
+        flags: GObject.ParamFlags.READABLE
+    })
+    public get last_error(): string {
+        if (this.settings === undefined) {
+            throw new DecommissionedError();
+        }
+
+        return this.settings.get_string('last-error');
+    }
+
+    /** Читает сохраненные правила.
+     *
+     * Правила не валидируются, это делает `Inquisitor.set_criteria()`.
+     *
+     * @returns Массив правил из ключа `criteria`
+     *
+     * @throws {StoredCriteriaError} Если значение ключа не является JSON-массивом */
+    public read_rules(): Rule[] {
+
+        let rules: unknown;
+        try {
+            rules = JSON.parse(this.settings.get_string('criteria'));
+        } catch (error) {
+            throw new StoredCriteriaError(`Invalid stored criteria: ${(error as Error).message}`, { cause: error });
+        }
+
+        if (!Array.isArray(rules)) {
+            throw new StoredCriteriaError('Invalid stored criteria: value must be a JSON array');
+        }
+
+        return rules as Rule[];
+    }
+
+    /** Читает сохраненные правила как критерии.
+     *
+     * Отключенные правила не исключаются: флаг `enabled`
+     * обрабатывает `Inquisitor`.
+     *
+     * @returns Массив критериев, применяемых к `Inquisitor`
+     *
+     * @throws {StoredCriteriaError} Если значение ключа не является JSON-массивом */
+    public read_criteria(): CriteriaSpec<CriteriaType>[] {
+        return this.read_rules();
+    }
+
+    /** Сохраняет правила.
+     *
+     * Правила будут применены к `Inquisitor` по сигналу об изменении
+     * ключа. Результат будет доступен через `last_error`.
+     *
+     * @param rules Массив правил для сохранения */
+    public store_rules(rules: readonly Rule[]): void {
+        this.settings.set_string('criteria', JSON.stringify(rules));
+    }
+
+    /** Сохраняет критерии.
+     *
+     * Критерии сохраняются как правила без метаданных.
+     *
+     * @param criteria Массив критериев для сохранения
+     *
+     * @see {@link store_rules} */
+    public store_criteria(criteria: readonly CriteriaSpec<CriteriaType>[]): void {
+        this.store_rules(criteria);
+    }
+
+    /** Экспортирует сохраненные правила в файл правил.
+     *
+     * @returns Содержимое файла правил (JSON)
+     *
+     * @throws {StoredCriteriaError} Если значение ключа не является JSON-массивом
+     *
+     * @see {@link export_rules} */
+    public export_rules(): string {
+        return export_rules(this.read_rules());
+    }
+
+    /** Импортирует правила из файла правил и сохраняет результат.
+     *
+     * Не валидные правила пропускаются и возвращаются в `errors`
+     * результата, остальные импортируются.
+     *
+     * @param text Содержимое файла правил
+     * @param mode Режим импорта
+     *
+     * @returns Результат импорта
+     *
+     * @throws {RulesFileError} Если файл целиком не может быть импортирован.
+     *         Сохраненные правила при этом не изменяются
+     * @throws {StoredCriteriaError} Если в режиме MERGE сохраненные правила повреждены
+     *
+     * @see {@link import_rules} */
+    public import_rules(text: string, mode: ImportMode): ImportResult {
+
+        const current = (mode === ImportMode.MERGE) ? this.read_rules() : [];
+        const result = import_rules(text, current, mode);
+
+        if (mode === ImportMode.REPLACE || result.added > 0) {
+            this.store_rules(result.rules);
+        }
+
+        return result;
+    }
+
+    /** Применяет сохраненные критерии к `Inquisitor`.
+     *
+     * Вызывается автоматически при создании объекта и при изменении ключа `criteria`.
+     *
+     * Никогда не отклоняется: результат записывается в `last-error`. Если применение
+     * было прервано более новым вызовом `set_criteria()`, результат не записывается.
+     *
+     * @returns Promise, который разрешается после завершения применения
+     *
+     * @fires notify::last-error Если результат изменился */
+    public async reload(): Promise<void> {
+
+        const serial = ++this.reload_serial;
+
+        let error_message = '';
+        try {
+            let criteria: CriteriaSpec<CriteriaType>[];
+            try {
+                criteria = this.read_criteria();
+            } catch (error) {
+                // поврежденные настройки - не оставляем старые критерии
+                await this.inquisitor.set_criteria([]);
+                throw error;
+            }
+            await this.inquisitor.set_criteria(criteria);
+        } catch (error) {
+            if (error instanceof SetCriteriaCancelledError) {
+                // применение перекрыто более новым
+                return;
+            }
+            error_message = (error as Error).message ?? String(error);
+            console.warn('SettingsProvider: failed to apply stored criteria:', error_message);
+        }
+
+        // объект мог быть выведен из эксплуатации, пока шло применение
+        if (this.settings !== undefined && serial === this.reload_serial) {
+            this.set_last_error(error_message);
+        }
+    }
+
+    /** Реакция на изменение ключа `criteria`
+     *
+     * @fires SettingsProvider#'rules-changed' */
+    private criteria_changed_cb(): void {
+        this.emit('rules-changed');
+        this.reload();
+    }
+
+    /** Записывает результат применения в ключ `last-error`, если он изменился.
+     *
+     * @fires notify::last-error */
+    private set_last_error(message: string): void {
+        if (this.settings.get_string('last-error') !== message) {
+            this.settings.set_string('last-error', message);
+        }
+    }
+
+    /** Выводит объект из эксплуатации.
+     *
+     * Отключает обработчики сигналов настроек. `Inquisitor` не
+     * принадлежит провайдеру и не выводится из эксплуатации.
+     *
+     * @see {@link IDecommissionable} */
+    public decommission: DecommissionType = () => {
+
+        decommission_signals(this.settings, this.handlers_ids.criteria, this.handlers_ids.last_error);
+
+        function throw_decommissioned(): never {
+            throw new DecommissionedError();
+        }
+
+        // "Ломаем" все публичные методы
+        this.read_rules = (throw_decommissioned as typeof this.read_rules);
+        this.read_criteria = (throw_decommissioned as typeof this.read_criteria);
+        this.store_rules = (throw_decommissioned as typeof this.store_rules);
+        this.store_criteria = (throw_decommissioned as typeof this.store_criteria);
+        this.export_rules = (throw_decommissioned as typeof this.export_rules);
+        this.import_rules = (throw_decommissioned as typeof this.import_rules);
+        this.reload = (throw_decommissioned as typeof this.reload);
+
+        this.settings = (undefined as unknown as typeof this.settings);
+        this.inquisitor = (undefined as unknown as typeof this.inquisitor);
+        this.handlers_ids = (undefined as unknown as typeof this.handlers_ids);
+
+        this.decommission = DECOMMISSIONED;
+    };
+}
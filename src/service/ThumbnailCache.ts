@@ -0,0 +1,92 @@
+/** @file: src/service/ThumbnailCache.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+/**
+ * @changelog
+ *
+ * # 1.0.0 - Первый вариант.
+ *           - Удаление миниатюр записи из кэша миниатюр
+ *             (Thumbnail Managing Standard freedesktop.org)
+ */
+
+import GLib from 'gi://GLib?version=2.0';
+import Gio from 'gi://Gio?version=2.0';
+
+/** Каталоги размеров миниатюр в кэше */
+export const THUMBNAIL_SIZES = ['normal', 'large', 'x-large', 'xx-large'] as const;
+
+/** Каталог кэша миниатюр по умолчанию: `$XDG_CACHE_HOME/thumbnails` */
+export function default_thumbnails_dir(): string {
+    return GLib.build_filenamev([GLib.get_user_cache_dir(), 'thumbnails']);
+}
+
+/** Возможные пути миниатюр URI в кэше.
+ *
+ * Имя миниатюры - MD5 от URI: `<размер>/<md5(uri)>.png`. Неудачные попытки
+ * хранятся по приложениям: `fail/<приложение>/<md5(uri)>.png`, поэтому
+ * каталог `fail` читается (синхронно: в нем единицы подкаталогов).
+ *
+ * @param uri URI файла
+ * @param thumbnails_dir Каталог кэша миниатюр. По умолчанию {@link default_thumbnails_dir} */
+export function thumbnail_paths(uri: string, thumbnails_dir: string = default_thumbnails_dir()): string[] {
+
+    const name = `${GLib.compute_checksum_for_string(GLib.ChecksumType.MD5, uri, -1)}.png`;
+
+    const paths = THUMBNAIL_SIZES.map(size => GLib.build_filenamev([thumbnails_dir, size, name]));
+
+    const fail_dir = GLib.build_filenamev([thumbnails_dir, 'fail']);
+    try {
+        const dir = GLib.Dir.open(fail_dir, 0);
+        try {
+            for (let app = dir.read_name(); app !== null; app = dir.read_name()) {
+                paths.push(GLib.build_filenamev([fail_dir, app, name]));
+            }
+        } finally {
+            dir.close();
+        }
+    } catch {
+        // нет каталога `fail` - нет неудачных попыток
+    }
+
+    return paths;
+}
+
+/** Удаляет миниатюры URI из кэша.
+ *
+ * Файлы удаляются асинхронно (пул потоков GIO). Отсутствующие миниатюры
+ * пропускаются, остальные ошибки пишутся в журнал и не прерывают удаление.
+ *
+ * @param uri URI файла
+ * @param thumbnails_dir Каталог кэша миниатюр. По умолчанию {@link default_thumbnails_dir}
+ * @param cancellable Отмена удаления
+ *
+ * @returns Количество удаленных миниатюр */
+export function purge_thumbnails(uri: string, thumbnails_dir?: string, cancellable: Gio.Cancellable | null = null): Promise<number> {
+
+    const paths = thumbnail_paths(uri, thumbnails_dir);
+
+    return new Promise<number>((resolve) => {
+
+        let remaining = paths.length;
+        let deleted = 0;
+
+        for (const path of paths) {
+            Gio.File.new_for_path(path).delete_async(GLib.PRIORITY_LOW, cancellable, (file, result) => {
+                try {
+                    file!.delete_finish(result);
+                    deleted++;
+                } catch (error) {
+                    if (!(error instanceof GLib.Error
+                        && (error.matches(Gio.IOErrorEnum, Gio.IOErrorEnum.NOT_FOUND)
+                            || error.matches(Gio.IOErrorEnum, Gio.IOErrorEnum.CANCELLED)))) {
+                        console.warn(`ThumbnailCache: failed to delete '${path}':`, (error as Error).message);
+                    }
+                }
+
+                if (--remaining === 0) {
+                    resolve(deleted);
+                }
+            });
+        }
+    });
+}
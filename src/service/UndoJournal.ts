@@ -0,0 +1,405 @@
+/** @file: src/service/UndoJournal.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.2.0 */
+/**
+ * @changelog
+ *
+ * # 1.2.0 - Записи истории - `HistoryItem`
+ *         - Параметр `backend`: восстановление через хранилище истории
+ *
+ * # 1.1.0 - `record_all()`: запись нескольких записей одним сохранением
+ *
+ * # 1.0.0 - Первый вариант.
+ *           - Журнал удаленных записей истории с ограниченным размером
+ *           - Восстановление записей через `Gtk.RecentManager.add_full()`
+ */
+
+import GObject from 'gi://GObject?version=2.0';
+import GLib from 'gi://GLib?version=2.0';
+import Gtk from 'gi://Gtk?version=4.0';
+
+import {
+    IDecommissionable,
+    DecommissionedError,
+    DECOMMISSIONED,
+    DecommissionType
+} from '../Ljs/Decommissionable.js';
+import {
+    GDecorator
+} from '../Ljs/GObjectDecorators.js';
+import type {
+    HistoryBackend,
+    HistoryItem,
+    HistoryItemData
+} from './HistoryBackend.js';
+import {
+    add_recent_item
+} from './GtkHistoryBackend.js';
+
+/** Приложение, зарегистрированное для записи истории */
+export interface JournalApplication {
+    /** Имя приложения */
+    name: string,
+    /** Командная строка запуска */
+    exec: string,
+}
+
+/** Запись журнала: метаданные удаленной записи истории */
+export interface JournalEntry {
+    uri: string,
+    display_name: string,
+    description: string,
+    mime_type: string,
+    /** Зарегистрированные приложения */
+    applications: JournalApplication[],
+    groups: string[],
+    is_private: boolean,
+    /** Время удаления (unix-время, секунды) */
+    removed_at: number,
+}
+
+/** Содержимое файла журнала */
+interface JournalFile {
+    version: number,
+    entries: JournalEntry[],
+}
+
+/** Ошибка записи журнала.
+ *
+ * Выбрасывается, если журнал не удалось сохранить на диск.
+ * Исходная ошибка доступна через свойство `cause`. */
+export class UndoJournalError extends Error {
+    constructor(message = 'Undo journal error', options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'UndoJournalError';
+    }
+}
+
+/** UndoJournal - журнал удаленных записей истории.
+ *
+ * ### Описание
+ *
+ * При удалении записи из истории (`Gtk.RecentManager.remove_item()`) ее
+ * метаданные теряются. Журнал сохраняет их *до* удаления
+ * (@see {@link RecentFilesProvider.remove_item}) и позволяет вернуть
+ * записи обратно:
+ * - MIME-тип, отображаемое имя и описание
+ * - зарегистрированные приложения с командами запуска
+ * - группы и признак приватности
+ *
+ * Журнал ограничен `max_entries` записями (старые вытесняются) и хранится
+ * в JSON-файле (по умолчанию `$XDG_STATE_HOME/recent-files-blacklist/undo-journal.json`).
+ * Файл перезаписывается при каждом изменении.
+ *
+ * Ограничения восстановления:
+ * - время изменения и посещения записи становится текущим
+ * - если запись все еще попадает под критерии, фоновая уборка удалит ее снова.
+ *   Сначала нужно исправить критерии, затем восстанавливать
+ *
+ * ### API
+ *
+ * #### Параметры конструктора:
+ * - `file_path?: string` Путь к файлу журнала
+ * - `max_entries?: number` Максимальное количество записей. По умолчанию `MAX_ENTRIES`
+ * - `backend?: HistoryBackend` Хранилище истории для восстановления
+ * - `recent_manager?: Gtk.RecentManager` Менеджер истории для восстановления, если `backend` не задан
+ *   (в основном для тестирования). По умолчанию `Gtk.RecentManager.get_default()`
+ *
+ * #### Константы:
+ * - `MAX_ENTRIES` Максимальное количество записей по умолчанию
+ *
+ * #### Свойства:
+ * - `entries: JournalEntry[]` Записи журнала (копия), от старых к новым. Только чтение.
+ *
+ * #### Методы:
+ * - `record(info: HistoryItem): void` Записывает метаданные перед удалением.
+ * - `record_all(infos: HistoryItem[]): void` Записывает метаданные нескольких записей (одно сохранение).
+ * - `restore_item(uri: string): boolean` Восстанавливает последнюю удаленную запись с этим URI.
+ * - `restore_all_since(time: number): number` Восстанавливает все записи, удаленные начиная с `time`.
+ * - `clear(): void` Очищает журнал.
+ * - `decommission(): void` Выводит объект из эксплуатации.
+ *
+ * #### Ошибки:
+ * - `UndoJournalError` Журнал не удалось сохранить
+ * - `DecommissionedError`
+ *
+ * @example
+ * ```typescript
+ * const journal = new UndoJournal();
+ * const provider = new RecentFilesProvider({ journal });
+ *
+ * // "неудачный glob" удалил лишнее за последний час
+ * const restored = journal.restore_all_since(Date.now() / 1000 - 3600);
+ * ```
+ * */
+@GDecorator.Class({
+    GTypeName: 'UndoJournal',
+    GTypeFlags: GObject.TypeFlags.FINAL,
+})
+export class UndoJournal extends GObject.Object implements IDecommissionable {
+
+    /** Максимальное количество записей по умолчанию */
+    static MAX_ENTRIES = 500 as const;
+
+    /** Версия формата файла журнала */
+    private static FILE_VERSION = 1 as const;
+
+    /** Путь к файлу журнала */
+    private file_path: string;
+
+    /** Максимальное количество записей */
+    private max_entries: number;
+
+    /** Добавление записи в историю при восстановлении */
+    private add_item: (uri: string, data: HistoryItemData) => boolean;
+
+    /** Записи журнала, от старых к новым */
+    private journal_entries: JournalEntry[] = [];
+
+    /** Constructor */
+    constructor(constructor_options: {
+        /** Путь к файлу журнала */
+        file_path?: string,
+        /** Максимальное количество записей */
+        max_entries?: number,
+        /** Хранилище истории для восстановления. Не принадлежит журналу */
+        backend?: HistoryBackend,
+        /** Менеджер истории для восстановления, если `backend` не задан (в основном для тестирования) */
+        recent_manager?: Gtk.RecentManager,
+    } = {}) {
+
+        super();
+
+        this.file_path = constructor_options.file_path
+            ?? GLib.build_filenamev([GLib.get_user_state_dir(), 'recent-files-blacklist', 'undo-journal.json']);
+        this.max_entries = Math.max(1, constructor_options.max_entries ?? UndoJournal.MAX_ENTRIES);
+
+        const backend = constructor_options.backend;
+        if (backend) {
+            this.add_item = (uri, data) => backend.add_item(uri, data);
+        } else {
+            const recent_manager = constructor_options.recent_manager ?? Gtk.RecentManager.get_default();
+            this.add_item = (uri, data) => add_recent_item(recent_manager, uri, data);
+        }
+
+        this.load();
+    }
+
+    /** Записи журнала (копия), от старых к новым */
+    @GDecorator.JSObjectProperty({
+        flags: GObject.ParamFlags.READABLE
+    })
+    public get entries(): JournalEntry[] {
+        if (this.journal_entries === undefined) {
+            throw new DecommissionedError();
+        }
+        return this.journal_entries.map(entry => ({ ...entry }));
+    }
+
+    /** Записывает метаданные записи истории перед ее удалением.
+     *
+     * Если журнал переполнен, самая старая запись вытесняется.
+     *
+     * @param info Запись истории
+     *
+     * @throws {UndoJournalError} Если журнал не удалось сохранить. Запись при этом
+     *                            не добавляется, и удалять запись истории нельзя
+     *
+     * @fires notify::entries */
+    public record(info: HistoryItem): void {
+        this.record_all([info]);
+    }
+
+    /** Записывает метаданные нескольких записей истории перед их удалением.
+     *
+     * Журнал сохраняется один раз. Если журнал переполнен, самые старые
+     * записи вытесняются.
+     *
+     * @param infos Записи истории
+     *
+     * @throws {UndoJournalError} Если журнал не удалось сохранить. Записи при этом
+     *                            не добавляются, и удалять записи истории нельзя
+     *
+     * @fires notify::entries */
+    public record_all(infos: HistoryItem[]): void {
+
+        const removed_at = Math.floor(Date.now() / 1000);
+
+        const entries = infos.map((info): JournalEntry => ({
+            uri: info.get_uri(),
+            display_name: info.get_display_name() ?? '',
+            description: info.get_description() ?? '',
+            mime_type: info.get_mime_type() ?? '',
+            applications: (info.get_applications() ?? []).map((name) => {
+                const [, exec] = info.get_application_info(name);
+                return { name, exec: exec ?? '' };
+            }),
+            groups: info.get_groups() ?? [],
+            is_private: info.get_private_hint(),
+            removed_at,
+        }));
+
+        this.update([...this.journal_entries, ...entries].slice(-this.max_entries));
+    }
+
+    /** Восстанавливает последнюю удаленную запись с указанным URI.
+     *
+     * @param uri URI записи
+     *
+     * @returns `true`, если запись восстановлена. `false`, если в журнале
+     *          нет такой записи или ее не удалось добавить в историю
+     *
+     * @throws {UndoJournalError} Если журнал не удалось сохранить
+     *
+     * @fires notify::entries Если запись восстановлена */
+    public restore_item(uri: string): boolean {
+
+        const index = this.journal_entries.map(entry => entry.uri).lastIndexOf(uri);
+        if (index === -1 || !this.add_to_history(this.journal_entries[index])) {
+            return false;
+        }
+
+        this.update(this.journal_entries.filter((_entry, i) => i !== index));
+        return true;
+    }
+
+    /** Восстанавливает все записи, удаленные начиная с указанного времени.
+     *
+     * Записи, которые не удалось добавить в историю, остаются в журнале.
+     *
+     * @param time Unix-время, секунды
+     *
+     * @returns Количество восстановленных записей
+     *
+     * @throws {UndoJournalError} Если журнал не удалось сохранить
+     *
+     * @fires notify::entries Если восстановлена хотя бы одна запись */
+    public restore_all_since(time: number): number {
+
+        const restored = new Set<JournalEntry>();
+
+        // от новых к старым: для повторно удаленных URI восстанавливается последняя версия
+        const uris = new Set<string>();
+        for (const entry of [...this.journal_entries].reverse()) {
+            if (entry.removed_at < time) {
+                continue;
+            }
+            if (uris.has(entry.uri)) {
+                restored.add(entry); // устаревшая версия уже восстановленной записи
+                continue;
+            }
+            if (this.add_to_history(entry)) {
+                uris.add(entry.uri);
+                restored.add(entry);
+            }
+        }
+
+        if (uris.size > 0) {
+            this.update(this.journal_entries.filter(entry => !restored.has(entry)));
+        }
+        return uris.size;
+    }
+
+    /** Очищает журнал.
+     *
+     * @throws {UndoJournalError} Если журнал не удалось сохранить
+     *
+     * @fires notify::entries */
+    public clear(): void {
+        this.update([]);
+    }
+
+    /** Добавляет запись журнала в историю.
+     *
+     * `add_item()` регистрирует одно приложение за вызов, поэтому
+     * вызывается для каждого приложения записи.
+     *
+     * @returns `true`, если запись добавлена */
+    private add_to_history(entry: JournalEntry): boolean {
+
+        const applications = (entry.applications.length > 0) ? entry.applications : [{ name: '', exec: '' }];
+
+        return applications.every(({ name, exec }) => this.add_item(entry.uri, {
+            display_name: entry.display_name,
+            description: entry.description,
+            mime_type: entry.mime_type || 'application/octet-stream',
+            app_name: name || GLib.get_application_name() || 'recent-files-blacklist',
+            app_exec: exec || `${GLib.get_prgname() ?? 'gjs'} %u`,
+            groups: entry.groups,
+            is_private: entry.is_private,
+        }));
+    }
+
+    /** Сохраняет и применяет новый список записей
+     *
+     * @fires notify::entries */
+    private update(entries: JournalEntry[]): void {
+        this.save(entries);
+        this.journal_entries = entries;
+        this.notify('entries');
+    }
+
+    /** Читает журнал из файла.
+     *
+     * Отсутствующий файл - пустой журнал. Поврежденный файл
+     * игнорируется (с предупреждением) и будет перезаписан. */
+    private load(): void {
+
+        if (!GLib.file_test(this.file_path, GLib.FileTest.EXISTS)) {
+            return;
+        }
+
+        try {
+            const [, contents] = GLib.file_get_contents(this.file_path);
+            const journal_file = JSON.parse(new TextDecoder().decode(contents)) as Partial<JournalFile>;
+            if (journal_file.version !== UndoJournal.FILE_VERSION || !Array.isArray(journal_file.entries)) {
+                throw new Error('unsupported format');
+            }
+            this.journal_entries = journal_file.entries.slice(-this.max_entries);
+        } catch (error) {
+            console.warn(`UndoJournal: ignoring unreadable journal '${this.file_path}':`, (error as Error).message);
+        }
+    }
+
+    /** Записывает журнал в файл.
+     *
+     * @throws {UndoJournalError} Если журнал не удалось сохранить */
+    private save(entries: JournalEntry[]): void {
+
+        const journal_file: JournalFile = {
+            version: UndoJournal.FILE_VERSION,
+            entries,
+        };
+
+        try {
+            GLib.mkdir_with_parents(GLib.path_get_dirname(this.file_path), 0o700);
+            GLib.file_set_contents(this.file_path, JSON.stringify(journal_file));
+        } catch (error) {
+            throw new UndoJournalError(`Failed to save undo journal '${this.file_path}': ${(error as Error).message}`, { cause: error });
+        }
+    }
+
+    /** Выводит объект из эксплуатации.
+     *
+     * Файл журнала не удаляется.
+     *
+     * @see {@link IDecommissionable} */
+    public decommission: DecommissionType = () => {
+
+        function throw_decommissioned(): never {
+            throw new DecommissionedError();
+        }
+
+        // "Ломаем" все публичные методы
+        this.record = (throw_decommissioned as typeof this.record);
+        this.record_all = (throw_decommissioned as typeof this.record_all);
+        this.restore_item = (throw_decommissioned as typeof this.restore_item);
+        this.restore_all_since = (throw_decommissioned as typeof this.restore_all_since);
+        this.clear = (throw_decommissioned as typeof this.clear);
+
+        this.journal_entries = (undefined as unknown as typeof this.journal_entries);
+        this.add_item = (undefined as unknown as typeof this.add_item);
+
+        this.decommission = DECOMMISSIONED;
+    };
+}
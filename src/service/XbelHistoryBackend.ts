@@ -0,0 +1,474 @@
+/** @file: src/service/XbelHistoryBackend.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+/**
+ * @changelog
+ *
+ * # 1.0.0 - Первый вариант.
+ *           - Прямое чтение и запись `recently-used.xbel` без GTK
+ */
+
+import GObject from 'gi://GObject?version=2.0';
+import GLib from 'gi://GLib?version=2.0';
+import Gio from 'gi://Gio?version=2.0';
+
+import type {
+    HandlerID
+} from '../Ljs/common-types.js';
+import {
+    NO_HANDLER
+} from '../Ljs/common-types.js';
+import {
+    IDecommissionable,
+    DecommissionedError,
+    decommission_signals,
+    DECOMMISSIONED,
+    DecommissionType
+} from '../Ljs/Decommissionable.js';
+import {
+    GDecorator
+} from '../Ljs/GObjectDecorators.js';
+import type {
+    HistoryBackend,
+    HistoryItem,
+    HistoryItemData
+} from './HistoryBackend.js';
+
+/** Схема системных настроек приватности GNOME */
+const PRIVACY_SCHEMA_ID = 'org.gnome.desktop.privacy';
+
+/** Ключ доступности истории в `PRIVACY_SCHEMA_ID` */
+const REMEMBER_RECENT_FILES_KEY = 'remember-recent-files';
+
+/** Время "не задано" для записей без метки времени */
+const UNIX_EPOCH = GLib.DateTime.new_from_unix_utc(0);
+
+/** Вызывает геттер `GLib.BookmarkFile`, который выбрасывает ошибку для не заданного поля */
+function read_optional<T>(getter: () => T | null, fallback: T): T {
+    try {
+        return getter() ?? fallback;
+    } catch {
+        return fallback;
+    }
+}
+
+/** Запись истории из `GLib.BookmarkFile`.
+ *
+ * Поля читаются при создании: запись не меняется, если файл перечитан. */
+class XbelHistoryItem implements HistoryItem {
+
+    private uri: string;
+    private title: string;
+    private description: string;
+    private mime_type: string;
+    private applications: Map<string, [exec: string, count: number, stamp: GLib.DateTime]>;
+    private groups: string[];
+    private is_private: boolean;
+    private modified: GLib.DateTime;
+    private visited: GLib.DateTime;
+    private added: GLib.DateTime;
+
+    constructor(bookmarks: GLib.BookmarkFile, uri: string) {
+        this.uri = uri;
+        this.title = read_optional(() => bookmarks.get_title(uri), '');
+        this.description = read_optional(() => bookmarks.get_description(uri), '');
+        this.mime_type = read_optional(() => bookmarks.get_mime_type(uri), '');
+        this.applications = new Map(read_optional(() => bookmarks.get_applications(uri), []).map((name) => {
+            const [, exec, count, stamp] = read_optional(
+                () => bookmarks.get_application_info(uri, name),
+                [false, '', 0, null] as ReturnType<GLib.BookmarkFile['get_application_info']>
+            );
+            return [name, [exec ?? '', count, stamp ?? UNIX_EPOCH]];
+        }));
+        this.groups = read_optional(() => bookmarks.get_groups(uri), []);
+        this.is_private = read_optional(() => bookmarks.get_is_private(uri), false);
+        this.modified = read_optional(() => bookmarks.get_modified_date_time(uri), UNIX_EPOCH);
+        this.visited = read_optional(() => bookmarks.get_visited_date_time(uri), UNIX_EPOCH);
+        this.added = read_optional(() => bookmarks.get_added_date_time(uri), UNIX_EPOCH);
+    }
+
+    public get_uri(): string {
+        return this.uri;
+    }
+
+    public get_uri_display(): string | null {
+        try {
+            const [path] = GLib.filename_from_uri(this.uri);
+            return GLib.filename_display_name(path);
+        } catch {
+            return GLib.Uri.unescape_string(this.uri, null) ?? this.uri;
+        }
+    }
+
+    /** Заголовок записи или, как в Gtk.RecentInfo, имя файла */
+    public get_display_name(): string {
+        if (this.title) {
+            return this.title;
+        }
+        try {
+            const [path] = GLib.filename_from_uri(this.uri);
+            return GLib.filename_display_basename(path);
+        } catch {
+            const name = this.uri.replace(/\/+$/u, '').split('/').pop() ?? this.uri;
+            return GLib.Uri.unescape_string(name, null) ?? name;
+        }
+    }
+
+    public get_description(): string {
+        return this.description;
+    }
+
+    public get_mime_type(): string {
+        return this.mime_type;
+    }
+
+    public get_applications(): string[] {
+        return [...this.applications.keys()];
+    }
+
+    public get_application_info(app_name: string): [boolean, string, number, GLib.DateTime] {
+        const info = this.applications.get(app_name);
+        return info ? [true, ...info] : [false, '', 0, UNIX_EPOCH];
+    }
+
+    public has_application(app_name: string): boolean {
+        return this.applications.has(app_name);
+    }
+
+    public get_groups(): string[] {
+        return [...this.groups];
+    }
+
+    public has_group(group_name: string): boolean {
+        return this.groups.includes(group_name);
+    }
+
+    public get_private_hint(): boolean {
+        return this.is_private;
+    }
+
+    public get_modified(): GLib.DateTime {
+        return this.modified;
+    }
+
+    public get_visited(): GLib.DateTime {
+        return this.visited;
+    }
+
+    public get_added(): GLib.DateTime {
+        return this.added;
+    }
+}
+
+/** XbelHistoryBackend - прямое чтение и запись `recently-used.xbel`.
+ *
+ * ### Описание
+ *
+ * Хранилище истории без GTK и дисплея: сеанс без графики, systemd user unit,
+ * CI, тесты на файлах-образцах.
+ *
+ * - Файл читается в `GLib.BookmarkFile` (формат XBEL, как у Gtk.RecentManager)
+ * - Изменения других процессов отслеживаются файловым монитором
+ *   (`Gio.FileMonitor`): файл перечитывается, отправляется `'changed'`
+ * - Каждое изменение записывается сразу и атомарно (`GLib.BookmarkFile.to_file()`
+ *   пишет во временный файл и переименовывает его). Собственная запись
+ *   тоже приходит через монитор и вызывает `'changed'`
+ * - Доступность истории - ключ `remember-recent-files` схемы
+ *   `org.gnome.desktop.privacy`. Если схема не установлена, история
+ *   считается включенной
+ *
+ * Отсутствующий файл - пустая история. Поврежденный файл игнорируется
+ * (с предупреждением) и будет перезаписан при первом изменении, как это
+ * делает Gtk.RecentManager.
+ *
+ * ### API
+ *
+ * #### Параметры конструктора:
+ * - `file_path?: string` Путь к файлу истории. По умолчанию `$XDG_DATA_HOME/recently-used.xbel`
+ * - `privacy_settings?: Gio.Settings | null` Настройки с ключом `remember-recent-files`.
+ *   `null` - история всегда включена (в основном для тестирования)
+ *
+ * Остальное - @see {@link HistoryBackend}
+ *
+ * #### Ошибки:
+ * - `GLib.Error` Ошибки записи файла и `GLib.BookmarkFileError` (например, записи нет)
+ * - `DecommissionedError`
+ *
+ * @example
+ * ```typescript
+ * const provider = new RecentFilesProvider({
+ *     backend: new XbelHistoryBackend({ file_path: 'fixtures/recently-used.xbel', privacy_settings: null }),
+ * });
+ * ```
+ * */
+@GDecorator.Class({
+    GTypeName: 'XbelHistoryBackend',
+    GTypeFlags: GObject.TypeFlags.FINAL,
+    Signals: {
+        /** История изменилась */
+        'changed': {},
+    },
+})
+export class XbelHistoryBackend extends GObject.Object implements HistoryBackend, IDecommissionable {
+
+    /** Путь к файлу истории */
+    private file_path: string;
+
+    /** Содержимое файла истории */
+    private bookmarks = new GLib.BookmarkFile();
+
+    /** Монитор файла истории */
+    private monitor: Gio.FileMonitor;
+
+    /** Настройки доступности истории */
+    private privacy_settings: Gio.Settings | null;
+
+    /** ID обработчиков */
+    private handlers_ids = {
+        /** ID обработчика сигнала 'changed' от монитора файла */
+        monitor: NO_HANDLER as HandlerID,
+        /** ID обработчика сигнала 'changed::remember-recent-files' от настроек */
+        privacy_settings: NO_HANDLER as HandlerID,
+    };
+
+    /** Constructor */
+    constructor(constructor_options: {
+        /** Путь к файлу истории */
+        file_path?: string,
+        /** Настройки с ключом `remember-recent-files`. `null` - история всегда включена */
+        privacy_settings?: Gio.Settings | null,
+    } = {}) {
+
+        super();
+
+        this.file_path = constructor_options.file_path
+            ?? GLib.build_filenamev([GLib.get_user_data_dir(), 'recently-used.xbel']);
+
+        if (constructor_options.privacy_settings !== undefined) {
+            this.privacy_settings = constructor_options.privacy_settings;
+        } else {
+            const schema = Gio.SettingsSchemaSource.get_default()?.lookup(PRIVACY_SCHEMA_ID, true) ?? null;
+            this.privacy_settings = schema ? new Gio.Settings({ settings_schema: schema }) : null;
+        }
+
+        if (this.privacy_settings) {
+            this.handlers_ids.privacy_settings = this.privacy_settings.connect(
+                `changed::${REMEMBER_RECENT_FILES_KEY}`,
+                () => this.notify('enabled')
+            );
+        }
+
+        this.load();
+
+        // как Gtk.RecentManager: монитор самого файла, без WATCH_MOVES
+        this.monitor = Gio.File.new_for_path(this.file_path).monitor_file(Gio.FileMonitorFlags.NONE, null);
+        this.handlers_ids.monitor = this.monitor.connect(
+            'changed',
+            this.file_changed_cb.bind(this)
+        );
+    }
+
+    /** Включена ли история в системе (`remember-recent-files`) */
+    @GDecorator.BooleanProperty({
+        flags: GObject.ParamFlags.READABLE, default_value: true
+    })
+    public get enabled(): boolean {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return this.privacy_settings?.get_boolean(REMEMBER_RECENT_FILES_KEY) ?? true;
+    }
+
+    /** Путь к файлу истории */
+    @GDecorator.StringProperty({
+        flags: GObject.ParamFlags.READABLE
+    })
+    public get filename(): string {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return this.file_path;
+    }
+
+    /** Количество записей */
+    @GDecorator.UIntProperty({
+        flags: GObject.ParamFlags.READABLE,
+        minimum: 0,
+        maximum: GLib.MAXUINT32,
+        default_value: 0
+    })
+    public get size(): number {
+        if (this.handlers_ids === undefined) {
+            throw new DecommissionedError();
+        }
+        return this.bookmarks.get_size();
+    }
+
+    public get_items(): HistoryItem[] {
+        return this.bookmarks.get_uris().map(uri => new XbelHistoryItem(this.bookmarks, uri));
+    }
+
+    public get_uris(): string[] {
+        return this.bookmarks.get_uris();
+    }
+
+    public has_item(uri: string): boolean {
+        return this.bookmarks.has_item(uri);
+    }
+
+    public lookup_item(uri: string): HistoryItem | null {
+        return this.bookmarks.has_item(uri) ? new XbelHistoryItem(this.bookmarks, uri) : null;
+    }
+
+    /** Удаляет запись и записывает файл.
+     *
+     * @throws {GLib.BookmarkFileError} Если записи нет
+     * @throws {GLib.Error} Если файл не удалось записать. Запись остается в истории */
+    public remove_item(uri: string): void {
+        this.bookmarks.remove_item(uri);
+        this.save();
+    }
+
+    /** Удаляет записи и записывает файл один раз.
+     *
+     * Отсутствующие записи пропускаются.
+     *
+     * @returns Удаленные URI (в порядке `uris`)
+     * @throws {GLib.Error} Если файл не удалось записать. Записи остаются в истории */
+    public remove_items(uris: string[]): string[] {
+
+        const removed = [...new Set(uris)].filter(uri => this.bookmarks.has_item(uri));
+        if (removed.length === 0) {
+            return removed;
+        }
+
+        for (const uri of removed) {
+            this.bookmarks.remove_item(uri);
+        }
+        this.save();
+        return removed;
+    }
+
+    /** Добавляет или обновляет запись и записывает файл.
+     *
+     * Как `Gtk.RecentManager.add_full()`: регистрирует приложение
+     * (увеличивает счетчик запусков), обновляет время изменения и посещения.
+     *
+     * @returns `true`, если запись добавлена и файл записан */
+    public add_item(uri: string, data: HistoryItemData): boolean {
+
+        const now = GLib.DateTime.new_now_utc();
+
+        try {
+            if (!this.bookmarks.has_item(uri)) {
+                this.bookmarks.set_added_date_time(uri, now);
+            }
+            if (data.display_name) {
+                this.bookmarks.set_title(uri, data.display_name);
+            }
+            if (data.description) {
+                this.bookmarks.set_description(uri, data.description);
+            }
+            this.bookmarks.set_mime_type(uri, data.mime_type || 'application/octet-stream');
+            this.bookmarks.add_application(uri, data.app_name, data.app_exec);
+            for (const group of data.groups ?? []) {
+                this.bookmarks.add_group(uri, group);
+            }
+            this.bookmarks.set_is_private(uri, data.is_private ?? false);
+            this.bookmarks.set_modified_date_time(uri, now);
+            this.bookmarks.set_visited_date_time(uri, now);
+
+            this.save();
+            return true;
+        } catch (error) {
+            console.warn(`XbelHistoryBackend: failed to add '${uri}':`, (error as Error).message);
+            return false;
+        }
+    }
+
+    /** Реакция на изменение файла истории.
+     *
+     * Обрабатываются те же события, что и в Gtk.RecentManager.
+     *
+     * @fires 'changed' */
+    private file_changed_cb(_monitor: Gio.FileMonitor, _file: Gio.File, _other_file: Gio.File | null, event_type: Gio.FileMonitorEvent): void {
+        switch (event_type) {
+            case Gio.FileMonitorEvent.CHANGED:
+            case Gio.FileMonitorEvent.CREATED:
+            case Gio.FileMonitorEvent.DELETED:
+                this.load();
+                this.emit('changed');
+                break;
+            default:
+                break;
+        }
+    }
+
+    /** Читает файл истории.
+     *
+     * Отсутствующий файл - пустая история. Поврежденный файл
+     * игнорируется (с предупреждением). */
+    private load(): void {
+
+        const bookmarks = new GLib.BookmarkFile();
+        try {
+            bookmarks.load_from_file(this.file_path);
+        } catch (error) {
+            if (!(error instanceof GLib.Error && error.matches(GLib.FileError, GLib.FileError.NOENT))) {
+                console.warn(`XbelHistoryBackend: ignoring unreadable history '${this.file_path}':`, (error as Error).message);
+            }
+        }
+        this.bookmarks = bookmarks;
+    }
+
+    /** Атомарно записывает файл истории.
+     *
+     * Если запись не удалась, содержимое перечитывается из файла:
+     * в памяти не остается не записанных изменений.
+     *
+     * @throws {GLib.Error} Если файл не удалось записать */
+    private save(): void {
+        try {
+            GLib.mkdir_with_parents(GLib.path_get_dirname(this.file_path), 0o700);
+            this.bookmarks.to_file(this.file_path);
+        } catch (error) {
+            this.load();
+            throw error;
+        }
+    }
+
+    /** Выводит объект из эксплуатации.
+     *
+     * Файл истории не меняется.
+     *
+     * @see {@link IDecommissionable} */
+    public decommission: DecommissionType = () => {
+
+        decommission_signals(this.monitor, this.handlers_ids.monitor);
+        this.monitor.cancel();
+
+        if (this.privacy_settings) {
+            decommission_signals(this.privacy_settings, this.handlers_ids.privacy_settings);
+        }
+
+        function throw_decommissioned(): never {
+            throw new DecommissionedError();
+        }
+
+        // "Ломаем" все публичные методы
+        this.get_items = (throw_decommissioned as typeof this.get_items);
+        this.get_uris = (throw_decommissioned as typeof this.get_uris);
+        this.has_item = (throw_decommissioned as typeof this.has_item);
+        this.lookup_item = (throw_decommissioned as typeof this.lookup_item);
+        this.remove_item = (throw_decommissioned as typeof this.remove_item);
+        this.remove_items = (throw_decommissioned as typeof this.remove_items);
+        this.add_item = (throw_decommissioned as typeof this.add_item);
+
+        this.bookmarks = (undefined as unknown as typeof this.bookmarks);
+        this.monitor = (undefined as unknown as typeof this.monitor);
+        this.privacy_settings = (undefined as unknown as typeof this.privacy_settings);
+        this.handlers_ids = (undefined as unknown as typeof this.handlers_ids);
+
+        this.decommission = DECOMMISSIONED;
+    };
+}
@@ -0,0 +1,37 @@
+/** @file: src/shared/dbus-interface.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.1.0 */
+/**
+ * @changelog
+ *
+ * # 1.1.0 - Introspection XML генерируется декораторами `DBusService`
+ *
+ * # 1.0.0 - Первый вариант.
+ *           - Имена и описание (introspection XML) D-Bus интерфейса сервиса
+ */
+
+/** Имя сервиса на шине сеанса */
+export const DBUS_NAME = 'org.gnome.shell.extensions.RecentFilesBlacklist' as const;
+
+/** Путь объекта сервиса */
+export const DBUS_PATH = '/org/gnome/shell/extensions/RecentFilesBlacklist' as const;
+
+/** Имя интерфейса сервиса */
+export const DBUS_INTERFACE = 'org.gnome.shell.extensions.RecentFilesBlacklist' as const;
+
+/** Имена D-Bus ошибок сервиса */
+export const DBusErrorName = {
+    /** Критерии не прошли валидацию (`CriteriaValidateError`) */
+    INVALID_CRITERIA: `${DBUS_INTERFACE}.Error.InvalidCriteria`,
+    /** История недавних файлов отключена в системе (`HistoryDisabledError`) */
+    HISTORY_DISABLED: `${DBUS_INTERFACE}.Error.HistoryDisabled`,
+    /** Операция прервана более новой операцией (`ProcessAbortError`, `SetCriteriaCancelledError`) */
+    ABORTED: `${DBUS_INTERFACE}.Error.Aborted`,
+    /** Аргумент не является JSON-массивом (`InvalidJsonError`) */
+    INVALID_JSON: `${DBUS_INTERFACE}.Error.InvalidJson`,
+    /** Аргументы не соответствуют сигнатуре метода (ошибка упаковки GDBus).
+     * Не соответствует JS ошибке: прокси передает `GLib.Error` */
+    INVALID_ARGS: 'org.freedesktop.DBus.Error.InvalidArgs',
+    /** Прочие ошибки */
+    FAILED: 'org.freedesktop.DBus.Error.Failed',
+} as const;
@@ -0,0 +1,182 @@
+#!/usr/bin/env -S jasmine --verbose --module
+/** @file: src/specs/DBusDecorators.spec.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+
+/// <reference types="jasmine" />
+
+import GLib from 'gi://GLib?version=2.0';
+import Gio from 'gi://Gio?version=2.0';
+
+import {
+    DBusDecorator,
+    DBusInterfaceError,
+    dbus_export,
+    dbus_unexport,
+    get_introspection_xml,
+    make_proxy,
+} from '../Ljs/DBusDecorators.js';
+
+const COUNTER_PATH = '/org/example/Counter';
+
+@DBusDecorator.Interface({
+    Name: 'org.example.Counter',
+    Errors: [[RangeError, 'org.example.Counter.Error.Range']],
+})
+class Counter {
+
+    private count = 0;
+
+    @DBusDecorator.Method({ in: [['step', 'u']], out: [['count', 'u']] })
+    public async increment(step: number): Promise<number> {
+        if (step === 0) {
+            throw new RangeError('Step must be positive');
+        }
+        this.count += step;
+        this.changed(this.count);
+        return this.count;
+    }
+
+    @DBusDecorator.Method({ out: [['count', 'u'], ['label', 's']] })
+    public get_pair(): [number, string] {
+        return [this.count, `count: ${this.count}`];
+    }
+
+    @DBusDecorator.Method({ out: [['count', 'u']] })
+    public broken(): unknown {
+        return 'not a number';
+    }
+
+    @DBusDecorator.Property({ signature: 'u', access: 'readwrite' })
+    public get value(): number {
+        return this.count;
+    }
+
+    public set value(value: number) {
+        this.count = value;
+    }
+
+    @DBusDecorator.Signal({ args: [['count', 'u']] })
+    public changed(_count: number): void { /* сигнал */ }
+}
+
+/** Открывает отдельное соединение с приватной шиной */
+function open_connection(address: string): Gio.DBusConnection {
+    return Gio.DBusConnection.new_for_address_sync(
+        address,
+        Gio.DBusConnectionFlags.AUTHENTICATION_CLIENT | Gio.DBusConnectionFlags.MESSAGE_BUS_CONNECTION,
+        null,
+        null
+    );
+}
+
+describe('DBusDecorators', () => {
+
+    it('генерирует introspection XML', () => {
+        const node_info = Gio.DBusNodeInfo.new_for_xml(get_introspection_xml(Counter));
+        const interface_info = node_info.lookup_interface('org.example.Counter')!;
+
+        expect(interface_info.lookup_method('Increment')).not.toBeNull();
+        expect(interface_info.lookup_method('GetPair')).not.toBeNull();
+        expect(interface_info.lookup_property('Value')).not.toBeNull();
+        expect(interface_info.lookup_signal('Changed')).not.toBeNull();
+    });
+
+    it('отклоняет не валидную сигнатуру', () => {
+        expect(() => DBusDecorator.Method({ in: [['bad', 'a']] })(Counter.prototype, 'bad', {}))
+            .toThrowError(DBusInterfaceError);
+    });
+
+    it('отклоняет не декорированный класс', () => {
+        class Plain { }
+        expect(() => get_introspection_xml(Plain)).toThrowError(DBusInterfaceError);
+    });
+
+    describe('на приватной шине', () => {
+
+        let test_bus: Gio.TestDBus;
+        let server: Gio.DBusConnection;
+        let client: Gio.DBusConnection;
+        let counter: Counter;
+
+        beforeAll(() => {
+            test_bus = Gio.TestDBus.new(Gio.TestDBusFlags.NONE);
+            test_bus.up();
+        });
+
+        afterAll(() => {
+            test_bus.down();
+        });
+
+        beforeEach(() => {
+            server = open_connection(test_bus.get_bus_address()!);
+            client = open_connection(test_bus.get_bus_address()!);
+            counter = new Counter();
+            dbus_export(counter, server, COUNTER_PATH);
+        });
+
+        afterEach(() => {
+            dbus_unexport(counter);
+            client.close_sync(null);
+            server.close_sync(null);
+        });
+
+        it('вызывает методы через прокси', async () => {
+            const proxy = make_proxy(Counter, client, server.get_unique_name()!, COUNTER_PATH);
+
+            expect(await proxy.increment(2)).toBe(2);
+            expect(await proxy.get_pair()).toEqual([2, 'count: 2']);
+        });
+
+        it('доставляет сигналы', async () => {
+            const proxy = make_proxy(Counter, client, server.get_unique_name()!, COUNTER_PATH);
+
+            const changed = new Promise<number>((resolve) => {
+                const subscription_id = proxy.connect_signal('changed', (count) => {
+                    proxy.disconnect_signal(subscription_id);
+                    resolve(count);
+                });
+            });
+            await proxy.increment(3);
+
+            expect(await changed).toBe(3);
+        });
+
+        it('читает и записывает свойства', async () => {
+            const proxy = make_proxy(Counter, client, server.get_unique_name()!, COUNTER_PATH);
+
+            await proxy.set_property('value', 5);
+
+            expect(counter.value).toBe(5);
+            expect(await proxy.get_property('value')).toBe(5);
+        });
+
+        it('передает ошибки по имени D-Bus ошибки', async () => {
+            const proxy = make_proxy(Counter, client, server.get_unique_name()!, COUNTER_PATH);
+
+            await expectAsync(proxy.increment(0)).toBeRejectedWithError(RangeError, 'Step must be positive');
+
+            await client.call(
+                server.get_unique_name(), COUNTER_PATH, 'org.example.Counter', 'Increment',
+                new GLib.Variant('(u)', [0]), null, Gio.DBusCallFlags.NONE, -1, null
+            ).then(
+                () => fail('Ожидалась ошибка'),
+                (error: GLib.Error) => expect(Gio.DBusError.get_remote_error(error)).toBe('org.example.Counter.Error.Range')
+            );
+        });
+
+        it('ошибки упаковки - InvalidArgs', async () => {
+            const proxy = make_proxy(Counter, client, server.get_unique_name()!, COUNTER_PATH);
+
+            await proxy.broken().then(
+                () => fail('Ожидалась ошибка'),
+                (error: GLib.Error) => expect(Gio.DBusError.get_remote_error(error)).toBe('org.freedesktop.DBus.Error.InvalidArgs')
+            );
+
+            await proxy.increment('two' as unknown as number).then(
+                () => fail('Ожидалась ошибка'),
+                (error: GLib.Error) => expect(error.matches(Gio.DBusError, Gio.DBusError.INVALID_ARGS)).toBeTrue()
+            );
+        });
+    });
+});
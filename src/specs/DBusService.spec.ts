@@ -0,0 +1,456 @@
+#!/usr/bin/env -S jasmine --verbose --module
+/** @file: src/specs/DBusService.spec.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.4.0 */
+
+/// <reference types="jasmine" />
+
+import GLib from 'gi://GLib?version=2.0';
+import Gio from 'gi://Gio?version=2.0';
+import Gtk from 'gi://Gtk?version=4.0';
+
+import {
+    make_proxy,
+} from '../Ljs/DBusDecorators.js';
+import {
+    DBusService,
+    InvalidJsonError,
+} from '../service/DBusService.js';
+import {
+    CriteriaValidateError,
+} from '../service/Inquisitor.js';
+import {
+    RecentFilesProvider,
+} from '../service/RecentFilesProvider.js';
+import {
+    DEFAULT_SOURCE,
+    RecentFilesService,
+} from '../service/RecentFilesService.js';
+import {
+    SettingsProvider,
+} from '../service/SettingsProvider.js';
+import {
+    UndoJournal,
+} from '../service/UndoJournal.js';
+import {
+    DBUS_INTERFACE,
+    DBUS_PATH,
+    DBusErrorName,
+} from '../shared/dbus-interface.js';
+
+Gio._promisify(Gio.DBusConnection.prototype, 'call', 'call_finish');
+
+/** Открывает отдельное соединение с приватной шиной */
+function open_connection(address: string): Gio.DBusConnection {
+    return Gio.DBusConnection.new_for_address_sync(
+        address,
+        Gio.DBusConnectionFlags.AUTHENTICATION_CLIENT | Gio.DBusConnectionFlags.MESSAGE_BUS_CONNECTION,
+        null,
+        null
+    );
+}
+
+describe('DBusService', () => {
+
+    // приватная шина сеанса (`dbus-daemon --session`)
+    let test_bus: Gio.TestDBus;
+
+    // схема компилируется из каталога `schemas` проекта (тесты запускаются из корня проекта)
+    let schema_dir: string;
+    let schema: Gio.SettingsSchema;
+    let history_dir: string;
+
+    // каталог данных Flatpak-приложений с историей приложения `org.example.Editor`
+    let apps_dir: string;
+    const SANDBOX_SOURCE = 'flatpak:org.example.Editor';
+    const SANDBOX_URI = 'file:///tmp/sandbox-draft.odt';
+
+    let server: Gio.DBusConnection;
+    let client: Gio.DBusConnection;
+
+    let recent_manager: Gtk.RecentManager;
+    let provider: RecentFilesProvider;
+    let stash: UndoJournal;
+    let service: RecentFilesService;
+    let settings_provider: SettingsProvider;
+    let dbus_service: DBusService;
+
+    /** Вызывает метод интерфейса сервиса от имени клиента */
+    function call(method: string, parameters: GLib.Variant | null = null): Promise<GLib.Variant> {
+        return client.call(
+            server.get_unique_name(), DBUS_PATH, DBUS_INTERFACE, method,
+            parameters, null, Gio.DBusCallFlags.NONE, -1, null
+        );
+    }
+
+    /** Ожидает сигнал интерфейса сервиса на стороне клиента */
+    function wait_signal(signal: string): Promise<GLib.Variant> {
+        return new Promise((resolve) => {
+            const subscription_id = client.signal_subscribe(
+                null, DBUS_INTERFACE, signal, DBUS_PATH, null, Gio.DBusSignalFlags.NONE,
+                (_connection, _sender, _path, _interface, _signal, parameters) => {
+                    client.signal_unsubscribe(subscription_id);
+                    resolve(parameters);
+                }
+            );
+        });
+    }
+
+    /** Добавляет записи в историю и ожидает их записи в файл истории */
+    function add_items(uris: string[]): Promise<void> {
+        const saved = new Promise<void>((resolve) => {
+            const handler_id = recent_manager.connect('changed', () => {
+                recent_manager.disconnect(handler_id);
+                resolve();
+            });
+        });
+        for (const uri of uris) {
+            recent_manager.add_full(uri, new Gtk.RecentData({
+                mime_type: 'text/plain',
+                app_name: 'Editor',
+                app_exec: 'editor %u',
+            }));
+        }
+        return saved;
+    }
+
+    /** Ожидает применения сохраненных правил к проверяющему сервиса */
+    function wait_criteria_applied(): Promise<void> {
+        return new Promise((resolve) => {
+            const handler_id = service.inquisitor.connect('notify::criteria', () => {
+                if (service.inquisitor.criteria.length > 0) {
+                    service.inquisitor.disconnect(handler_id);
+                    resolve();
+                }
+            });
+        });
+    }
+
+    beforeAll(() => {
+        Gtk.init();
+
+        test_bus = Gio.TestDBus.new(Gio.TestDBusFlags.NONE);
+        test_bus.up();
+
+        schema_dir = GLib.dir_make_tmp('dbus-service-spec-XXXXXX');
+        const [ok] = GLib.spawn_command_line_sync(`glib-compile-schemas --targetdir=${schema_dir} schemas`);
+        expect(ok).withContext('Схема скомпилирована').toBeTrue();
+
+        const source = Gio.SettingsSchemaSource.new_from_directory(schema_dir, null, false);
+        schema = source.lookup(SettingsProvider.SCHEMA_ID, false)!;
+
+        history_dir = GLib.dir_make_tmp('dbus-service-history-XXXXXX');
+
+        apps_dir = GLib.dir_make_tmp('dbus-service-apps-XXXXXX');
+        GLib.mkdir_with_parents(`${apps_dir}/org.example.Editor/data`, 0o700);
+    });
+
+    afterAll(() => {
+        GLib.unlink(`${schema_dir}/gschemas.compiled`);
+        GLib.rmdir(schema_dir);
+        GLib.unlink(`${history_dir}/recently-used.xbel`);
+        GLib.unlink(`${history_dir}/presentation-stash.json`);
+        GLib.rmdir(history_dir);
+        GLib.unlink(`${apps_dir}/org.example.Editor/data/recently-used.xbel`);
+        GLib.rmdir(`${apps_dir}/org.example.Editor/data`);
+        GLib.rmdir(`${apps_dir}/org.example.Editor`);
+        GLib.rmdir(apps_dir);
+        test_bus.down();
+    });
+
+    beforeEach(() => {
+        server = open_connection(test_bus.get_bus_address()!);
+        client = open_connection(test_bus.get_bus_address()!);
+
+        // история приложения в песочнице (запись удаляется в некоторых тестах)
+        const bookmarks = new GLib.BookmarkFile();
+        bookmarks.set_mime_type(SANDBOX_URI, 'application/vnd.oasis.opendocument.text');
+        bookmarks.add_application(SANDBOX_URI, 'Writer', 'writer %u');
+        bookmarks.to_file(`${apps_dir}/org.example.Editor/data/recently-used.xbel`);
+
+        recent_manager = new Gtk.RecentManager({ filename: `${history_dir}/recently-used.xbel` });
+        provider = new RecentFilesProvider({ recent_manager });
+        stash = new UndoJournal({ file_path: `${history_dir}/presentation-stash.json`, recent_manager });
+        service = new RecentFilesService({ provider, sandbox_apps_dir: apps_dir, stash });
+        settings_provider = new SettingsProvider(service.inquisitor, {
+            settings: new Gio.Settings({
+                settings_schema: schema,
+                backend: Gio.memory_settings_backend_new(),
+            }),
+        });
+
+        dbus_service = new DBusService(service, settings_provider);
+        dbus_service.export(server);
+    });
+
+    afterEach(() => {
+        if (dbus_service.decommission) {
+            dbus_service.decommission();
+        }
+        if (settings_provider.decommission) {
+            settings_provider.decommission();
+        }
+        // переданные объекты сервису не принадлежат
+        for (const decommissionable of [service, stash, provider]) {
+            if (decommissionable.decommission) {
+                decommissionable.decommission();
+            }
+        }
+        client.close_sync(null);
+        server.close_sync(null);
+    });
+
+    it('SetCriteria сохраняет правила, GetCriteria возвращает их', async () => {
+        const criteria = [{ type: 'glob', pattern: '*.tmp' }];
+
+        const changed = wait_signal('CriteriaChanged');
+        const applied = wait_criteria_applied();
+        await call('SetCriteria', new GLib.Variant('(s)', [JSON.stringify(criteria)]));
+
+        const [changed_json] = (await changed).deepUnpack<[string]>();
+        expect(JSON.parse(changed_json)).toEqual(criteria);
+
+        const [stored_json] = (await call('GetCriteria')).deepUnpack<[string]>();
+        expect(JSON.parse(stored_json)).toEqual(criteria);
+
+        // правила применяет SettingsProvider
+        await applied;
+        expect(service.inquisitor.criteria.map(criterion => criterion.label)).toEqual(['*.tmp']);
+    });
+
+    it('CriteriaChanged отправляется при изменении правил в обход сервиса', async () => {
+        const criteria = [{ type: 'glob' as const, pattern: '*.bak' }];
+
+        const changed = wait_signal('CriteriaChanged');
+        settings_provider.store_criteria(criteria);
+
+        const [changed_json] = (await changed).deepUnpack<[string]>();
+        expect(JSON.parse(changed_json)).toEqual(criteria);
+    });
+
+    it('SetCriteria возвращает ошибку валидации и не сохраняет правила', async () => {
+        await call('SetCriteria', new GLib.Variant('(s)', [JSON.stringify([{ type: 'glob', pattern: '' }])])).then(
+            () => fail('Ожидалась ошибка'),
+            (error: GLib.Error) => {
+                expect(Gio.DBusError.get_remote_error(error)).toBe(DBusErrorName.INVALID_CRITERIA);
+                expect(error.message).toMatch(/Criterion \[0\]: Invalid glob pattern/);
+            }
+        );
+
+        const [stored_json] = (await call('GetCriteria')).deepUnpack<[string]>();
+        expect(JSON.parse(stored_json)).toEqual([]);
+    });
+
+    it('SetCriteria отклоняет не JSON и не JSON-массив', async () => {
+        for (const criteria_json of ['{ not json', '{}']) {
+            await call('SetCriteria', new GLib.Variant('(s)', [criteria_json])).then(
+                () => fail('Ожидалась ошибка'),
+                (error: GLib.Error) => expect(Gio.DBusError.get_remote_error(error))
+                    .withContext(criteria_json)
+                    .toBe(DBusErrorName.INVALID_JSON)
+            );
+        }
+    });
+
+    it('SetCriteria отклоняет повторяющиеся id и не сохраняет правила', async () => {
+        const criteria = [
+            { type: 'glob', pattern: '*.tmp', id: 'junk' },
+            { type: 'glob', pattern: '*.bak', id: 'junk' },
+        ];
+
+        await call('SetCriteria', new GLib.Variant('(s)', [JSON.stringify(criteria)])).then(
+            () => fail('Ожидалась ошибка'),
+            (error: GLib.Error) => {
+                expect(Gio.DBusError.get_remote_error(error)).toBe(DBusErrorName.INVALID_CRITERIA);
+                expect(error.message).toMatch(/Criterion \[1\]: Duplicate id/);
+            }
+        );
+
+        const [stored_json] = (await call('GetCriteria')).deepUnpack<[string]>();
+        expect(JSON.parse(stored_json)).toEqual([]);
+    });
+
+    it('прокси восстанавливает ошибки JSON и валидации', async () => {
+        const proxy = make_proxy(DBusService, client, server.get_unique_name()!, DBUS_PATH);
+
+        await expectAsync(proxy.set_criteria('{ not json')).toBeRejectedWithError(InvalidJsonError);
+        await expectAsync(proxy.set_criteria('{}')).toBeRejectedWithError(InvalidJsonError, /must be a JSON array/);
+        await expectAsync(proxy.start_presentation('[')).toBeRejectedWithError(InvalidJsonError);
+        await expectAsync(proxy.set_criteria(JSON.stringify([{ type: 'glob', pattern: '' }])))
+            .toBeRejectedWithError(CriteriaValidateError);
+    });
+
+    it('GetState возвращает состояние мониторинга', async () => {
+        const [state] = (await call('GetState')).deepUnpack<[number]>();
+        expect(state).toBe(service.provider.state);
+    });
+
+    it('RemoveItems пропускает записи, которых нет в истории', async () => {
+        const [removed] = (await call('RemoveItems', new GLib.Variant('(as)', [['file:///nonexistent/file.txt']])))
+            .deepUnpack<[string[]]>();
+        expect(removed).toEqual([]);
+    });
+
+    it('RemoveItems удаляет записи пакетом', async () => {
+        const uris = ['file:///tmp/first.txt', 'file:///tmp/second.txt'];
+
+        await add_items(uris);
+
+        const removed_signal = wait_signal('ItemsRemoved');
+        const [removed] = (await call('RemoveItems', new GLib.Variant('(as)', [[...uris, 'file:///nonexistent/file.txt']])))
+            .deepUnpack<[string[]]>();
+
+        expect(removed).toEqual(uris);
+        expect((await removed_signal).deepUnpack<[string[], string]>()).toEqual([uris, DEFAULT_SOURCE]);
+        expect(uris.some(uri => recent_manager.has_item(uri))).toBeFalse();
+    });
+
+    it('ItemsRemoved отправляется при удалении записи фоновой уборкой', async () => {
+        const [junk, notes] = ['file:///tmp/junk.tmp', 'file:///tmp/notes.txt'];
+
+        const applied = wait_criteria_applied();
+        settings_provider.store_criteria([{ type: 'glob', pattern: '*.tmp' }]);
+        await applied;
+
+        const removed_signal = wait_signal('ItemsRemoved');
+        service.start();
+        await add_items([junk, notes]);
+
+        expect((await removed_signal).deepUnpack<[string[], string]>()).toEqual([[junk], DEFAULT_SOURCE]);
+        expect(recent_manager.has_item(notes)).toBeTrue();
+
+        recent_manager.remove_item(notes);
+    });
+
+    it('GetReport проверяет историю сохраненными правилами', async () => {
+        const [junk, notes] = ['file:///tmp/report.tmp', 'file:///tmp/report.txt'];
+        await add_items([junk, notes]);
+
+        // сохраненные правила еще не применены к проверяющему сервиса
+        settings_provider.store_criteria([{ type: 'glob', pattern: '*.tmp', label: 'Временные' }]);
+
+        const [report] = (await call('GetReport')).deepUnpack<[[string, string, [string, string][], string][]]>();
+        const sins = new Map(report
+            .filter(([_uri, _uri_display, _sins, source]) => source === DEFAULT_SOURCE)
+            .map(([uri, _uri_display, item_sins]) => [uri, item_sins]));
+
+        expect(sins.get(junk)).toEqual([['glob', 'Временные']]);
+        expect(sins.get(notes)).toEqual([]);
+
+        for (const uri of [junk, notes]) {
+            recent_manager.remove_item(uri);
+        }
+    });
+
+    it('GetReport не прерывается фоновой уборкой', async () => {
+        const uris = ['file:///tmp/background.tmp', 'file:///tmp/background.txt'];
+        await add_items(uris);
+
+        const applied = wait_criteria_applied();
+        settings_provider.store_criteria([{ type: 'glob', pattern: '*.tmp' }]);
+        await applied;
+
+        // режим наблюдения: уборка проверяет историю, но не удаляет записи
+        service.dry_run = true;
+        service.start();
+
+        const reply = call('GetReport');
+        service.inspect();
+        const [report] = (await reply).deepUnpack<[[string, string, [string, string][], string][]]>();
+
+        expect(report.filter(([_uri, _uri_display, _sins, source]) => source === DEFAULT_SOURCE).length)
+            .toBe(recent_manager.size);
+
+        for (const uri of uris) {
+            recent_manager.remove_item(uri);
+        }
+    });
+
+    it('GetReport возвращает ABORTED, если отчет прерван более новым', async () => {
+        const uris = ['file:///tmp/first-report.tmp', 'file:///tmp/second-report.tmp'];
+        await add_items(uris);
+        settings_provider.store_criteria([{ type: 'glob', pattern: '*.tmp' }]);
+
+        const [first, second] = await Promise.allSettled([call('GetReport'), call('GetReport')]);
+
+        expect(first.status).toBe('rejected');
+        if (first.status === 'rejected') {
+            expect(Gio.DBusError.get_remote_error(first.reason as GLib.Error)).toBe(DBusErrorName.ABORTED);
+        }
+        expect(second.status).toBe('fulfilled');
+
+        for (const uri of uris) {
+            recent_manager.remove_item(uri);
+        }
+    });
+
+    it('GetReport, GetDryRunLog и ItemsRemoved передают источник Flatpak-приложения', async () => {
+        const criteria = [{ type: 'glob' as const, pattern: '*.odt' }];
+
+        const applied = wait_criteria_applied();
+        settings_provider.store_criteria(criteria);
+        await applied;
+
+        // отчет
+        const [report] = (await call('GetReport')).deepUnpack<[[string, string, [string, string][], string][]]>();
+        expect(report.find(([uri]) => uri === SANDBOX_URI))
+            .toEqual([SANDBOX_URI, jasmine.any(String), [['glob', '*.odt']], SANDBOX_SOURCE]);
+
+        // режим наблюдения
+        const would_remove = new Promise<string>((resolve) => {
+            const handler_id = service.connect('would-remove', (_service: RecentFilesService, uri: string, _sin: unknown, source: string) => {
+                if (uri === SANDBOX_URI) {
+                    service.disconnect(handler_id);
+                    resolve(source);
+                }
+            });
+        });
+        service.dry_run = true;
+        service.start();
+        expect(await would_remove).toBe(SANDBOX_SOURCE);
+
+        const [log] = (await call('GetDryRunLog')).deepUnpack<[[string, [string, string], number, string][]]>();
+        expect(log.find(([uri]) => uri === SANDBOX_URI))
+            .toEqual([SANDBOX_URI, ['glob', '*.odt'], jasmine.any(Number), SANDBOX_SOURCE]);
+
+        // удаление
+        const removed_signal = wait_signal('ItemsRemoved');
+        service.dry_run = false;
+        expect((await removed_signal).deepUnpack<[string[], string]>()).toEqual([[SANDBOX_URI], SANDBOX_SOURCE]);
+    });
+
+    it('DryRun переключает режим наблюдения сервиса', async () => {
+        await client.call(
+            server.get_unique_name(), DBUS_PATH, 'org.freedesktop.DBus.Properties', 'Set',
+            new GLib.Variant('(ssv)', [DBUS_INTERFACE, 'DryRun', new GLib.Variant('b', true)]),
+            null, Gio.DBusCallFlags.NONE, -1, null
+        );
+        expect(service.dry_run).toBeTrue();
+
+        const [log] = (await call('GetDryRunLog')).deepUnpack<[unknown[]]>();
+        expect(log).toEqual([]);
+    });
+
+    it('StartPresentation скрывает записи вне списка разрешенных, StopPresentation возвращает их', async () => {
+        const [slides, notes] = ['file:///tmp/slides.odp', 'file:///tmp/notes.txt'];
+
+        await add_items([slides, notes]);
+
+        const allowlist = [{ type: 'glob', pattern: '*.odp' }];
+        const [hidden] = (await call('StartPresentation', new GLib.Variant('(s)', [JSON.stringify(allowlist)])))
+            .deepUnpack<[number]>();
+
+        expect(hidden).toBe(1);
+        expect(service.presentation).toBeTrue();
+        expect(recent_manager.has_item(slides)).toBeTrue();
+        expect(recent_manager.has_item(notes)).toBeFalse();
+        expect(service.stash.entries.map(entry => entry.uri)).toEqual([notes]);
+
+        const [restored] = (await call('StopPresentation')).deepUnpack<[number]>();
+
+        expect(restored).toBe(1);
+        expect(service.presentation).toBeFalse();
+        expect(recent_manager.has_item(notes)).toBeTrue();
+        expect(service.stash.entries).toEqual([]);
+    });
+});
@@ -0,0 +1,89 @@
+#!/usr/bin/env -S jasmine --verbose --module
+/** @file: src/specs/FileTags.spec.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+
+/// <reference types="jasmine" />
+
+import GLib from 'gi://GLib?version=2.0';
+import Gio from 'gi://Gio?version=2.0';
+
+import {
+    set_file_tags,
+} from '../service/FileTags.js';
+
+describe('FileTags', () => {
+
+    // метаданные GVfs требуют gvfsd-metadata, расширенные атрибуты - нет
+    const attribute = 'xattr::rfb-private';
+
+    let work_dir: string;
+    let uris: string[];
+
+    /** Читает атрибут-метку файла */
+    function read_tag(uri: string): string | null {
+        return Gio.File.new_for_uri(uri)
+            .query_info(attribute, Gio.FileQueryInfoFlags.NONE, null)
+            .get_attribute_string(attribute);
+    }
+
+    beforeEach(() => {
+        work_dir = GLib.dir_make_tmp('file-tags-spec-XXXXXX');
+        uris = ['a.txt', 'b.txt'].map((name) => {
+            GLib.file_set_contents(`${work_dir}/${name}`, name);
+            return GLib.filename_to_uri(`${work_dir}/${name}`, null);
+        });
+    });
+
+    afterEach(() => {
+        for (const name of ['a.txt', 'b.txt']) {
+            GLib.unlink(`${work_dir}/${name}`);
+        }
+        GLib.rmdir(work_dir);
+    });
+
+    it('устанавливает и снимает метку, возвращая URI в порядке запроса', async () => {
+        const tagged = await set_file_tags([uris[1], uris[0]], attribute, true);
+        if (tagged.length === 0) {
+            pending('Файловая система не поддерживает расширенные атрибуты');
+        }
+
+        expect(tagged).toEqual([uris[1], uris[0]]);
+        expect(uris.map(read_tag)).toEqual(['true', 'true']);
+
+        expect(await set_file_tags([uris[0]], attribute, false)).toEqual([uris[0]]);
+        expect(uris.map(read_tag)).toEqual([null, 'true']);
+
+        await set_file_tags([uris[1]], attribute, false);
+    });
+
+    it('пропускает файлы, метку которых не удалось изменить', async () => {
+        const warn = spyOn(console, 'warn');
+        const missing_uri = GLib.filename_to_uri(`${work_dir}/missing.txt`, null);
+
+        const tagged = await set_file_tags([missing_uri, uris[0]], attribute, true);
+        if (tagged.length === 0) {
+            pending('Файловая система не поддерживает расширенные атрибуты');
+        }
+
+        expect(tagged).toEqual([uris[0]]);
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.calls.argsFor(0)[0]).toContain(missing_uri);
+
+        await set_file_tags([uris[0]], attribute, false);
+    });
+
+    it('не меняет файлы при отмене', async () => {
+        const warn = spyOn(console, 'warn');
+        const cancellable = new Gio.Cancellable();
+        cancellable.cancel();
+
+        expect(await set_file_tags(uris, attribute, true, cancellable)).toEqual([]);
+        expect(uris.map(read_tag)).toEqual([null, null]);
+        expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('возвращает пустой список для пустого запроса', async () => {
+        expect(await set_file_tags([], attribute, true)).toEqual([]);
+    });
+});
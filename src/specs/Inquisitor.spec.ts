@@ -0,0 +1,670 @@
+#!/usr/bin/env -S jasmine --verbose --module
+/** @file: src/specs/Inquisitor.spec.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+
+/// <reference types="jasmine" />
+
+import GLib from 'gi://GLib?version=2.0';
+
+import {
+    Inquisitor,
+    CriteriaValidateError,
+} from '../service/Inquisitor.js';
+import type {
+    RecentItemTuple,
+} from '../service/Inquisitor.js';
+import {
+    set_file_tags,
+} from '../service/FileTags.js';
+
+describe('Inquisitor', () => {
+
+    let inquisitor: Inquisitor;
+
+    beforeEach(() => {
+        inquisitor = new Inquisitor();
+    });
+
+    afterEach(() => {
+        if (inquisitor.decommission) {
+            inquisitor.decommission();
+        }
+    });
+
+    describe('критерий mime', () => {
+
+        const items: RecentItemTuple[] = [
+            ['file:///home/user/shot.png', '/home/user/shot.png', 'image/png'],
+            ['file:///home/user/clip.webm', '/home/user/clip.webm', 'video/webm'],
+            ['file:///home/user/linux.torrent', '/home/user/linux.torrent', 'application/x-bittorrent'],
+            ['file:///home/user/notes.txt', '/home/user/notes.txt', 'text/plain'],
+            ['file:///home/user/unknown', '/home/user/unknown'],
+        ];
+
+        it('совпадает с семейством и с точным типом', async () => {
+            await inquisitor.set_criteria([
+                { type: 'mime', mime_type: 'image/*' },
+                { type: 'mime', mime_type: 'application/x-bittorrent', label: 'Торренты' },
+            ]);
+
+            const report = await inquisitor.inspect_to_report([...items]);
+
+            expect(report.map(([, , sins]) => sins))
+                .withContext('Совпадения по каждой записи')
+                .toEqual([
+                    [['mime', 'image/*']],
+                    [],
+                    [['mime', 'Торренты']],
+                    [],
+                    [],
+                ]);
+        });
+
+        it('сравнивает без учета регистра', async () => {
+            await inquisitor.set_criteria([
+                { type: 'mime', mime_type: 'Video/*' },
+            ]);
+
+            const report = await inquisitor.inspect_to_report([...items]);
+
+            expect(report[1][2])
+                .withContext('video/webm совпадает с Video/*')
+                .toEqual([['mime', 'Video/*']]);
+        });
+
+        it('генерирует matched-result в режиме LAZY', async () => {
+            await inquisitor.set_criteria([
+                { type: 'mime', mime_type: 'text/plain' },
+            ]);
+
+            const matched: string[] = [];
+            inquisitor.connect('matched-result', (_obj: Inquisitor, uri: string) => {
+                matched.push(uri);
+            });
+
+            await inquisitor.inspect_to_signals([...items]);
+
+            expect(matched).toEqual(['file:///home/user/notes.txt']);
+        });
+
+        for (const mime_type of ['', 'image', '*/*', 'image/png/x', 'image/pn*', 42]) {
+            it(`отклоняет невалидный MIME-тип ${JSON.stringify(mime_type)}`, async () => {
+                await expectAsync(inquisitor.set_criteria([
+                    { type: 'mime', mime_type: mime_type as string },
+                ])).toBeRejectedWithError(CriteriaValidateError);
+
+                expect(inquisitor.criteria)
+                    .withContext('Критерии остаются пустыми')
+                    .toEqual([]);
+            });
+        }
+    });
+
+    describe('критерий application', () => {
+
+        const items: RecentItemTuple[] = [
+            ['file:///tmp/a.zip', '/tmp/a.zip', 'application/zip', ['org.gnome.FileRoller']],
+            ['file:///tmp/b.png', '/tmp/b.png', 'image/png', ['org.gnome.Loupe', 'org.gnome.FileRoller']],
+            ['file:///tmp/c.png', '/tmp/c.png', 'image/png', ['org.gnome.Loupe']],
+            ['file:///tmp/d.txt', '/tmp/d.txt', 'text/plain'],
+        ];
+
+        it('совпадает, если запись зарегистрирована хотя бы одним подходящим приложением', async () => {
+            await inquisitor.set_criteria([
+                { type: 'application', app_name: 'org.gnome.FileRoller' },
+            ]);
+
+            const report = await inquisitor.inspect_to_report([...items]);
+
+            expect(report.map(([, , sins]) => sins)).toEqual([
+                [['application', 'org.gnome.FileRoller']],
+                [['application', 'org.gnome.FileRoller']],
+                [],
+                [],
+            ]);
+        });
+
+        it('с exclusive совпадает, только если все приложения подходят', async () => {
+            await inquisitor.set_criteria([
+                { type: 'application', app_name: '*Loupe', exclusive: true, label: 'Просмотрщик' },
+            ]);
+
+            const report = await inquisitor.inspect_to_report([...items]);
+
+            expect(report.map(([, , sins]) => sins)).toEqual([
+                [],
+                [],
+                [['application', 'Просмотрщик (org.gnome.Loupe)']],
+                [],
+            ]);
+        });
+
+        it('отклоняет невалидные параметры', async () => {
+            await expectAsync(inquisitor.set_criteria([
+                { type: 'application', app_name: '' },
+            ])).toBeRejectedWithError(CriteriaValidateError);
+
+            await expectAsync(inquisitor.set_criteria([
+                { type: 'application', app_name: 'app', exclusive: 'yes' as unknown as boolean },
+            ])).toBeRejectedWithError(CriteriaValidateError);
+        });
+    });
+
+    describe('критерий regex', () => {
+
+        const items: RecentItemTuple[] = [
+            ['file:///tmp/0f8fad5b-d9cb-469f-a165-70867728950e.log', '/tmp/0f8fad5b-d9cb-469f-a165-70867728950e.log'],
+            ['file:///home/user/~$report.docx', '/home/user/~$report.docx'],
+            ['file:///home/user/Report.DOCX', '/home/user/Report.DOCX'],
+        ];
+
+        it('поддерживает классы символов и якоря', async () => {
+            await inquisitor.set_criteria([
+                { type: 'regex', pattern: '[0-9a-f]{8}(-[0-9a-f]{4}){3}-[0-9a-f]{12}', label: 'UUID' },
+                { type: 'regex', pattern: '/~\\$[^/]*$', label: 'Lock' },
+            ]);
+
+            const report = await inquisitor.inspect_to_report([...items]);
+
+            expect(report.map(([, , sins]) => sins)).toEqual([
+                [['regex', 'UUID']],
+                [['regex', 'Lock']],
+                [],
+            ]);
+        });
+
+        it('учитывает case_insensitive', async () => {
+            await inquisitor.set_criteria([
+                { type: 'regex', pattern: '\\.docx$', case_insensitive: true },
+            ]);
+
+            const report = await inquisitor.inspect_to_report([...items]);
+
+            expect(report[2][2]).toEqual([['regex', '\\.docx$']]);
+        });
+
+        it('сообщает путь к критерию и позицию ошибки компиляции', async () => {
+            await expectAsync(inquisitor.set_criteria([
+                { type: 'glob', pattern: '*.tmp' },
+                { type: 'regex', pattern: 'abc(' },
+            ])).toBeRejectedWithError(CriteriaValidateError, /^Criterion \[1\]: .*'abc\(' .* offset \d+/);
+        });
+    });
+
+    describe('критерий age', () => {
+
+        const now = Math.floor(Date.now() / 1000);
+        const day = 24 * 60 * 60;
+
+        const items: RecentItemTuple[] = [
+            ['file:///tmp/old', '/tmp/old', 'text/plain', [], now - 40 * day, now - 1 * day, now - 90 * day],
+            ['file:///tmp/fresh', '/tmp/fresh', 'text/plain', [], now - 1 * day, now - 1 * day, now - 1 * day],
+            ['file:///tmp/no-time', '/tmp/no-time'],
+        ];
+
+        it('совпадает с записями старше порога по выбранному полю', async () => {
+            await inquisitor.set_criteria([
+                { type: 'age', older_than: '30d' },
+                { type: 'age', older_than: 60 * day, field: 'added', label: 'Давно добавлено' },
+                { type: 'age', older_than: '1w', field: 'visited' },
+            ]);
+
+            const report = await inquisitor.inspect_to_report([...items]);
+
+            expect(report.map(([, , sins]) => sins)).toEqual([
+                [['age', 'modified > 30d'], ['age', 'Давно добавлено']],
+                [],
+                [],
+            ]);
+        });
+
+        for (const older_than of ['', '30', '30y', '-1d', 0, NaN]) {
+            it(`отклоняет невалидный порог ${JSON.stringify(older_than)}`, async () => {
+                await expectAsync(inquisitor.set_criteria([
+                    { type: 'age', older_than },
+                ])).toBeRejectedWithError(CriteriaValidateError);
+            });
+        }
+
+        it('отклоняет неизвестное поле', async () => {
+            await expectAsync(inquisitor.set_criteria([
+                { type: 'age', older_than: '1d', field: 'opened' as 'modified' },
+            ])).toBeRejectedWithError(CriteriaValidateError);
+        });
+    });
+
+    describe('критерии missing и scheme', () => {
+
+        let existing_path: string;
+
+        beforeAll(() => {
+            let fd: number;
+            [fd, existing_path] = GLib.file_open_tmp('inquisitor-spec-XXXXXX');
+            GLib.close(fd);
+        });
+
+        afterAll(() => {
+            GLib.unlink(existing_path);
+        });
+
+        it('missing совпадает только с несуществующими локальными файлами', async () => {
+            await inquisitor.set_criteria([
+                { type: 'missing' },
+            ]);
+
+            const missing_path = `${existing_path}-missing`;
+            const report = await inquisitor.inspect_to_report([
+                [GLib.filename_to_uri(existing_path, null), existing_path],
+                [GLib.filename_to_uri(missing_path, null), missing_path],
+                ['sftp://host/gone.txt', 'sftp://host/gone.txt'],
+            ]);
+
+            expect(report.map(([, , sins]) => sins)).toEqual([
+                [],
+                [['missing', 'missing']],
+                [],
+            ]);
+        });
+
+        it('scheme без списка совпадает с нелокальными записями', async () => {
+            await inquisitor.set_criteria([
+                { type: 'scheme' },
+                { type: 'scheme', schemes: ['TRASH', 'recent'], label: 'Виртуальные' },
+            ]);
+
+            const report = await inquisitor.inspect_to_report([
+                ['file:///tmp/a.txt', '/tmp/a.txt'],
+                ['smb://server/share/b.txt', 'smb://server/share/b.txt'],
+                ['trash:///c.txt', 'trash:///c.txt'],
+            ]);
+
+            expect(report.map(([, , sins]) => sins)).toEqual([
+                [],
+                [['scheme', 'non-local']],
+                [['scheme', 'non-local'], ['scheme', 'Виртуальные']],
+            ]);
+        });
+
+        it('scheme отклоняет невалидный список', async () => {
+            await expectAsync(inquisitor.set_criteria([
+                { type: 'scheme', schemes: [] },
+            ])).toBeRejectedWithError(CriteriaValidateError);
+
+            await expectAsync(inquisitor.set_criteria([
+                { type: 'scheme', schemes: ['file://'] },
+            ])).toBeRejectedWithError(CriteriaValidateError);
+        });
+    });
+
+    describe('критерий marker', () => {
+
+        let work_dir: string;
+        let marker_path: string;
+
+        beforeEach(() => {
+            work_dir = GLib.dir_make_tmp('inquisitor-marker-spec-XXXXXX');
+            GLib.mkdir_with_parents(`${work_dir}/private/nested`, 0o700);
+            GLib.mkdir_with_parents(`${work_dir}/public`, 0o700);
+            marker_path = `${work_dir}/private/.norecent`;
+            GLib.file_set_contents(marker_path, '');
+        });
+
+        afterEach(() => {
+            if (GLib.file_test(marker_path, GLib.FileTest.EXISTS)) {
+                GLib.unlink(marker_path);
+            }
+            GLib.rmdir(`${work_dir}/private/nested`);
+            GLib.rmdir(`${work_dir}/private`);
+            GLib.rmdir(`${work_dir}/public`);
+            GLib.rmdir(work_dir);
+        });
+
+        /** Записи во вложенных каталогах рабочего каталога */
+        function items(): RecentItemTuple[] {
+            return ['private/nested/a.txt', 'public/b.txt', 'private/c.txt'].map((name) => {
+                const path = `${work_dir}/${name}`;
+                return [GLib.filename_to_uri(path, null), path] as RecentItemTuple;
+            });
+        }
+
+        it('совпадает с записями в каталогах с маркером', async () => {
+            await inquisitor.set_criteria([
+                { type: 'marker' },
+                { type: 'marker', name: '.nomedia', label: 'Без медиа' },
+            ]);
+
+            const report = await inquisitor.inspect_to_report([
+                ...items(),
+                ['sftp://host/private/d.txt', 'sftp://host/private/d.txt'],
+            ]);
+
+            expect(report.map(([, , sins]) => sins)).toEqual([
+                [['marker', `.norecent (${work_dir}/private)`]],
+                [],
+                [['marker', `.norecent (${work_dir}/private)`]],
+                [],
+            ]);
+        });
+
+        it('замечает удаление маркера', async () => {
+            await inquisitor.set_criteria([
+                { type: 'marker' },
+            ]);
+            expect((await inquisitor.inspect_to_report(items()))[0][2].length).toBe(1);
+
+            GLib.unlink(marker_path);
+            // ждем событие файлового монитора
+            await new Promise(resolve => setTimeout(resolve, 500));
+
+            expect((await inquisitor.inspect_to_report(items())).map(([, , sins]) => sins))
+                .toEqual([[], [], []]);
+        });
+
+        it('отклоняет невалидное имя маркера', async () => {
+            for (const name of ['', 'dir/.norecent', '..']) {
+                await expectAsync(inquisitor.set_criteria([
+                    { type: 'marker', name },
+                ])).toBeRejectedWithError(CriteriaValidateError);
+            }
+        });
+    });
+
+    describe('критерий tag', () => {
+
+        // метаданные GVfs требуют gvfsd-metadata, расширенные атрибуты - нет
+        const attribute = 'xattr::rfb-private';
+
+        let paths: string[];
+
+        beforeEach(() => {
+            paths = ['tagged', 'plain'].map((name) => {
+                const [fd, path] = GLib.file_open_tmp(`inquisitor-tag-${name}-XXXXXX`);
+                GLib.close(fd);
+                return path;
+            });
+        });
+
+        afterEach(() => {
+            for (const path of paths) {
+                GLib.unlink(path);
+            }
+        });
+
+        it('совпадает с помеченными файлами после forget()', async () => {
+            const uris = paths.map(path => GLib.filename_to_uri(path, null));
+            const items = (): RecentItemTuple[] => paths.map((path, i) => [uris[i], path]);
+
+            await inquisitor.set_criteria([
+                { type: 'tag', attribute, label: 'Скрытые' },
+            ]);
+            expect((await inquisitor.inspect_to_report(items())).map(([, , sins]) => sins))
+                .toEqual([[], []]);
+
+            if ((await set_file_tags([uris[0]], attribute, true)).length === 0) {
+                pending('Файловая система не поддерживает расширенные атрибуты');
+            }
+
+            expect((await inquisitor.inspect_to_report(items())).map(([, , sins]) => sins))
+                .withContext('Вердикт "чистый" еще действует')
+                .toEqual([[], []]);
+
+            inquisitor.forget([uris[0]]);
+            expect((await inquisitor.inspect_to_report(items())).map(([, , sins]) => sins))
+                .toEqual([[['tag', 'Скрытые']], []]);
+
+            expect(await set_file_tags([uris[0]], attribute, false)).toEqual([uris[0]]);
+        });
+
+        it('отклоняет атрибут вне metadata и xattr', async () => {
+            for (const bad of ['standard::name', 'metadata::', 'xattr::a,b']) {
+                await expectAsync(inquisitor.set_criteria([
+                    { type: 'tag', attribute: bad },
+                ])).toBeRejectedWithError(CriteriaValidateError);
+            }
+        });
+    });
+
+    describe('составные критерии all, any, not', () => {
+
+        const items: RecentItemTuple[] = [
+            ['file:///home/user/Pictures/Private/a.png', '/home/user/Pictures/Private/a.png', 'image/png'],
+            ['file:///home/user/Pictures/b.png', '/home/user/Pictures/b.png', 'image/png'],
+            ['file:///home/user/Work/c.pdf', '/home/user/Work/c.pdf', 'application/pdf'],
+            ['file:///home/user/Downloads/d.pdf', '/home/user/Downloads/d.pdf', 'application/pdf'],
+        ];
+
+        it('all и not описывают сработавшую ветвь', async () => {
+            await inquisitor.set_criteria([
+                {
+                    type: 'all', criteria: [
+                        { type: 'mime', mime_type: 'image/*' },
+                        { type: 'glob', pattern: '/home/user/Pictures/Private/*', label: 'Private' },
+                    ]
+                },
+                {
+                    type: 'all', label: 'PDF вне Work', criteria: [
+                        { type: 'glob', pattern: '*.pdf' },
+                        { type: 'not', criterion: { type: 'glob', pattern: '/home/user/Work/*' } },
+                    ]
+                },
+            ]);
+
+            const report = await inquisitor.inspect_to_report([...items]);
+
+            expect(report.map(([, , sins]) => sins)).toEqual([
+                [['all', 'mime: image/* & glob: Private']],
+                [],
+                [],
+                [['all', 'PDF вне Work (glob: *.pdf & not: glob: /home/user/Work/*)']],
+            ]);
+        });
+
+        it('any сообщает первое совпавшее вложенное условие', async () => {
+            await inquisitor.set_criteria([
+                {
+                    type: 'any', criteria: [
+                        { type: 'mime', mime_type: 'application/pdf' },
+                        { type: 'glob', pattern: '*.png' },
+                    ]
+                },
+            ]);
+
+            const report = await inquisitor.inspect_to_report([...items]);
+
+            expect(report.map(([, , sins]) => sins)).toEqual([
+                [['any', 'glob: *.png']],
+                [['any', 'glob: *.png']],
+                [['any', 'mime: application/pdf']],
+                [['any', 'mime: application/pdf']],
+            ]);
+        });
+
+        it('сообщает путь к не валидному вложенному критерию', async () => {
+            const error = await inquisitor.set_criteria([
+                { type: 'glob', pattern: '*.tmp' },
+                {
+                    type: 'any', criteria: [
+                        { type: 'glob', pattern: '*.bak' },
+                        { type: 'not', criterion: { type: 'mime', mime_type: 'image' } },
+                    ]
+                },
+            ]).then(() => undefined, (reason: unknown) => reason);
+
+            expect(error).toBeInstanceOf(CriteriaValidateError);
+            expect((error as CriteriaValidateError).path).toBe('[1].criteria[1].criterion');
+            expect((error as CriteriaValidateError).message).toMatch(/^Criterion \[1\]\.criteria\[1\]\.criterion: Invalid MIME type/);
+        });
+
+        it('отклоняет пустой список вложенных критериев', async () => {
+            await expectAsync(inquisitor.set_criteria([
+                { type: 'all', criteria: [] },
+            ])).toBeRejectedWithError(CriteriaValidateError, /^Criterion \[0\]: /);
+        });
+    });
+
+    describe('правила-исключения', () => {
+
+        const items: RecentItemTuple[] = [
+            ['file:///home/user/Downloads/setup.iso', '/home/user/Downloads/setup.iso'],
+            ['file:///home/user/Downloads/keep-passport.pdf', '/home/user/Downloads/keep-passport.pdf'],
+            ['file:///home/user/keep-notes.txt', '/home/user/keep-notes.txt'],
+        ];
+
+        const criteria = [
+            { type: 'glob', pattern: '*/Downloads/*' },
+            { type: 'glob', pattern: '*/keep-*', action: 'allow', label: 'Оставить' },
+        ] as const;
+
+        it('в режиме REPORT помечают спасенную запись', async () => {
+            await inquisitor.set_criteria(criteria);
+
+            const report = await inquisitor.inspect_to_report([...items]);
+
+            expect(report.map(([, , sins]) => sins)).toEqual([
+                [['glob', '*/Downloads/*']],
+                [['allow', 'glob: Оставить'], ['glob', '*/Downloads/*']],
+                [],
+            ]);
+        });
+
+        it('в режиме LAZY подавляют matched-result', async () => {
+            await inquisitor.set_criteria(criteria);
+
+            const matched: string[] = [];
+            inquisitor.connect('matched-result', (_obj: Inquisitor, uri: string) => {
+                matched.push(uri);
+            });
+
+            await inquisitor.inspect_to_signals([...items]);
+
+            expect(matched).toEqual(['file:///home/user/Downloads/setup.iso']);
+        });
+
+        it('отклоняют action у вложенного критерия', async () => {
+            await expectAsync(inquisitor.set_criteria([
+                {
+                    type: 'not', criterion: { type: 'glob', pattern: '*.tmp', action: 'allow' }
+                },
+            ])).toBeRejectedWithError(CriteriaValidateError, /^Criterion \[0\]\.criterion: /);
+        });
+    });
+
+    describe('идентификаторы, отключение и статистика правил', () => {
+
+        const items: RecentItemTuple[] = [
+            ['file:///tmp/a.tmp', '/tmp/a.tmp'],
+            ['file:///tmp/b.tmp', '/tmp/b.tmp'],
+            ['file:///tmp/c.bak', '/tmp/c.bak'],
+        ];
+
+        it('вычисленный id не зависит от метки и состояния', async () => {
+            await inquisitor.set_criteria([{ type: 'glob', pattern: '*.tmp' }]);
+            const [first] = inquisitor.criteria;
+
+            await inquisitor.set_criteria([{ type: 'glob', label: 'Временные', enabled: false, pattern: '*.tmp' }]);
+            const [second] = inquisitor.criteria;
+
+            expect(second.id).toBe(first.id);
+            expect(second.enabled).toBeFalse();
+        });
+
+        it('вычисленный id не зависит от меток вложенных критериев', async () => {
+            await inquisitor.set_criteria([{
+                type: 'any',
+                criteria: [{ type: 'glob', pattern: '*.tmp' }, { type: 'glob', pattern: '*.bak', label: 'Копии' }],
+            }]);
+            const [first] = inquisitor.criteria;
+
+            await inquisitor.set_criteria([{
+                type: 'any',
+                label: 'Мусор',
+                criteria: [{ type: 'glob', pattern: '*.tmp', label: 'Временные' }, { type: 'glob', pattern: '*.bak' }],
+            }]);
+            const [second] = inquisitor.criteria;
+
+            expect(second.id).toBe(first.id);
+        });
+
+        it('отклоняет повторяющийся явный id', async () => {
+            await expectAsync(inquisitor.set_criteria([
+                { type: 'glob', pattern: '*.tmp', id: 'tmp' },
+                { type: 'glob', pattern: '*.bak', id: 'tmp' },
+            ])).toBeRejectedWithError(CriteriaValidateError, /^Criterion \[1\]: Duplicate id/);
+        });
+
+        it('validate_criteria() проверяет список так же, как set_criteria()', () => {
+            expect(() => Inquisitor.validate_criteria([
+                { type: 'glob', pattern: '*.tmp', id: 'tmp' },
+                { type: 'glob', pattern: '*.bak', id: 'tmp' },
+            ])).toThrowError(CriteriaValidateError, /^Criterion \[1\]: Duplicate id/);
+            expect(() => Inquisitor.validate_criteria([
+                { type: 'glob', pattern: '*.tmp' },
+                { type: 'glob', pattern: '' },
+            ])).toThrowError(CriteriaValidateError, /^Criterion \[1\]: Invalid glob pattern/);
+
+            // одинаковые условия без явного id допустимы
+            expect(() => Inquisitor.validate_criteria([
+                { type: 'glob', pattern: '*.tmp' },
+                { type: 'glob', pattern: '*.tmp', label: 'Временные' },
+            ])).not.toThrow();
+        });
+
+        it('считает совпадения в режиме LAZY и не проверяет отключенные правила', async () => {
+            await inquisitor.set_criteria([
+                { type: 'glob', pattern: '*.tmp', id: 'tmp' },
+                { type: 'glob', pattern: '*.bak', id: 'bak' },
+            ]);
+
+            await inquisitor.inspect_to_signals([...items]);
+            await inquisitor.inspect_to_report([...items]);
+
+            expect(inquisitor.statistics['tmp'].hits).withContext('REPORT не учитывается').toBe(2);
+            expect(inquisitor.statistics['bak'].hits).toBe(1);
+            expect(inquisitor.statistics['bak'].last_hit).not.toBeNull();
+
+            expect(inquisitor.set_rule_enabled('bak', false)).toBeTrue();
+            expect(inquisitor.set_rule_enabled('unknown', false)).toBeFalse();
+
+            const report = await inquisitor.inspect_to_report([...items]);
+            expect(report[2][2]).withContext('Отключенное правило не проверяется').toEqual([]);
+        });
+
+        it('засчитывает запись правилу один раз', async () => {
+            await inquisitor.set_criteria([{ type: 'glob', pattern: '*.tmp', id: 'tmp' }]);
+
+            // записи не удаляются (как в режиме наблюдения) и проверяются повторно
+            await inquisitor.inspect_to_signals([...items]);
+            await inquisitor.inspect_to_signals([...items]);
+            await inquisitor.inspect_to_signals([items[0]]);
+
+            expect(inquisitor.statistics['tmp'].hits).toBe(2);
+        });
+
+        it('обновляет время последнего совпадения для уже засчитанной записи', async () => {
+            await inquisitor.set_criteria([{ type: 'glob', pattern: '*.tmp', id: 'tmp' }]);
+            const now = spyOn(Date, 'now').and.returnValue(1_000_000);
+
+            await inquisitor.inspect_to_signals([items[0]]);
+            expect(inquisitor.statistics['tmp']).toEqual({ hits: 1, last_hit: 1_000 });
+
+            now.and.returnValue(2_000_000);
+            await inquisitor.inspect_to_signals([items[0]]);
+            expect(inquisitor.statistics['tmp']).toEqual({ hits: 1, last_hit: 2_000 });
+        });
+
+        it('сохраняет статистику при повторной установке критериев', async () => {
+            await inquisitor.set_criteria([{ type: 'glob', pattern: '*.tmp', id: 'tmp' }]);
+            await inquisitor.inspect_to_signals([...items]);
+
+            await inquisitor.set_criteria([
+                { type: 'glob', pattern: '*.tmp', id: 'tmp', label: 'Временные' },
+                { type: 'glob', pattern: '*.bak', id: 'bak' },
+            ]);
+            expect(Object.keys(inquisitor.statistics)).toEqual(['tmp']);
+
+            await inquisitor.set_criteria([{ type: 'glob', pattern: '*.bak', id: 'bak' }]);
+            expect(inquisitor.statistics).withContext('Статистика удаленных правил сбрасывается').toEqual({});
+        });
+    });
+});
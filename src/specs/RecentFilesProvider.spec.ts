@@ -0,0 +1,361 @@
+#!/usr/bin/env -S jasmine --verbose --module
+/** @file: src/specs/RecentFilesProvider.spec.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.4.0 */
+
+/// <reference types="jasmine" />
+
+import GLib from 'gi://GLib?version=2.0';
+import Gio from 'gi://Gio?version=2.0';
+
+import {
+    DuplicateUriError,
+    HistoryMutatedError,
+    InvalidUriError,
+    IterationCancelledError,
+    QueueCleanupError,
+    RecentFilesProvider,
+    RemoveCancelledError,
+} from '../service/RecentFilesProvider.js';
+import type {
+    HistoryItem,
+} from '../service/HistoryBackend.js';
+import type {
+    HistoryDiff,
+} from '../service/RecentFilesProvider.js';
+import {
+    XbelHistoryBackend,
+} from '../service/XbelHistoryBackend.js';
+
+/** Время изменения записей файла-образца (unix-время, секунды) */
+const FIXTURE_MODIFIED = 1_700_000_000;
+
+describe('RecentFilesProvider', () => {
+
+    let work_dir: string;
+    let file_path: string;
+    let backend: XbelHistoryBackend;
+    let provider: RecentFilesProvider;
+
+    /** Записывает файл-образец истории в обход хранилища.
+     *
+     * Записи получают время изменения `FIXTURE_MODIFIED + индекс` */
+    function write_fixture(uris: string[]): void {
+        const bookmarks = new GLib.BookmarkFile();
+        uris.forEach((uri, index) => {
+            bookmarks.set_mime_type(uri, 'text/plain');
+            bookmarks.add_application(uri, 'Editor', 'editor %u');
+            bookmarks.set_modified_date_time(uri, GLib.DateTime.new_from_unix_utc(FIXTURE_MODIFIED + index));
+        });
+        bookmarks.to_file(file_path);
+    }
+
+    /** Добавляет или обновляет запись через хранилище */
+    function add_item(uri: string): void {
+        expect(backend.add_item(uri, { mime_type: 'text/plain', app_name: 'Editor', app_exec: 'editor %u' }))
+            .withContext(`Запись ${uri} добавлена`).toBeTrue();
+    }
+
+    /** Ожидает следующий сигнал `'history-changes-settled'` */
+    function next_diff(): Promise<HistoryDiff> {
+        return new Promise((resolve) => {
+            const handler_id = provider.connect('history-changes-settled', (_provider: RecentFilesProvider, diff: HistoryDiff) => {
+                provider.disconnect(handler_id);
+                resolve(diff);
+            });
+        });
+    }
+
+    beforeEach(() => {
+        work_dir = GLib.dir_make_tmp('recent-files-provider-spec-XXXXXX');
+        file_path = `${work_dir}/recently-used.xbel`;
+        write_fixture(['file:///tmp/a.txt', 'file:///tmp/b.txt', 'file:///tmp/c.txt']);
+        backend = new XbelHistoryBackend({ file_path, privacy_settings: null });
+        provider = new RecentFilesProvider({ backend });
+    });
+
+    afterEach(() => {
+        if (provider.decommission) {
+            provider.decommission();
+        }
+        if (backend.decommission) {
+            backend.decommission();
+        }
+        GLib.unlink(file_path);
+        GLib.rmdir(work_dir);
+    });
+
+    describe('HistoryDiff', () => {
+
+        /** Запускает мониторинг и пропускает первый (полный) сигнал */
+        async function start_monitoring(): Promise<void> {
+            const initial = next_diff();
+            provider.request_monitoring();
+            await initial;
+        }
+
+        it('первый сигнал после активации передает всю историю как новую', async () => {
+            const initial = next_diff();
+            provider.request_monitoring();
+
+            expect(await initial).toEqual({
+                added: new Set(['file:///tmp/a.txt', 'file:///tmp/b.txt', 'file:///tmp/c.txt']),
+                removed: new Set(),
+                modified: new Set(),
+            });
+        });
+
+        it('передает добавленные записи', async () => {
+            await start_monitoring();
+
+            const diff = next_diff();
+            add_item('file:///tmp/d.txt');
+
+            expect(await diff).toEqual({
+                added: new Set(['file:///tmp/d.txt']),
+                removed: new Set(),
+                modified: new Set(),
+            });
+        });
+
+        it('передает удаленные записи', async () => {
+            await start_monitoring();
+
+            const diff = next_diff();
+            backend.remove_items(['file:///tmp/a.txt', 'file:///tmp/c.txt']);
+
+            expect(await diff).toEqual({
+                added: new Set(),
+                removed: new Set(['file:///tmp/a.txt', 'file:///tmp/c.txt']),
+                modified: new Set(),
+            });
+        });
+
+        it('передает записи с изменившимся временем изменения', async () => {
+            await start_monitoring();
+
+            // повторное добавление обновляет время изменения записи
+            const diff = next_diff();
+            add_item('file:///tmp/b.txt');
+
+            expect(await diff).toEqual({
+                added: new Set(),
+                removed: new Set(),
+                modified: new Set(['file:///tmp/b.txt']),
+            });
+        });
+
+        it('после остановки мониторинга снова передает всю историю как новую', async () => {
+            await start_monitoring();
+
+            provider.withdraw_monitoring();
+            backend.remove_item('file:///tmp/a.txt');
+
+            const diff = next_diff();
+            provider.request_monitoring();
+
+            expect(await diff).toEqual({
+                added: new Set(['file:///tmp/b.txt', 'file:///tmp/c.txt']),
+                removed: new Set(),
+                modified: new Set(),
+            });
+        });
+    });
+
+    describe('iterate()', () => {
+
+        it('получает записи порциями перед их выдачей', async () => {
+            const lookup = spyOn(backend, 'lookup_item').and.callThrough();
+            const iterator = provider.iterate({ batch: 2, converter: item => item.get_uri() });
+
+            expect((await iterator.next()).value).toBe('file:///tmp/a.txt');
+            expect(lookup).withContext('Первая порция').toHaveBeenCalledTimes(2);
+
+            const rest: string[] = [];
+            for await (const uri of iterator) {
+                rest.push(uri);
+            }
+
+            expect(rest).toEqual(['file:///tmp/b.txt', 'file:///tmp/c.txt']);
+            expect(lookup).toHaveBeenCalledTimes(3);
+        });
+
+        it('прерывается через cancellable перед следующей порцией', async () => {
+            const cancellable = new Gio.Cancellable();
+            const iterator = provider.iterate({ batch: 1, converter: item => item.get_uri(), cancellable });
+
+            expect((await iterator.next()).value).toBe('file:///tmp/a.txt');
+
+            cancellable.cancel();
+            await expectAsync(iterator.next()).toBeRejectedWithError(IterationCancelledError);
+        });
+
+        it('выбрасывает HistoryMutatedError, если история изменилась во время перебора', async () => {
+            const iterated: string[] = [];
+            const iteration = (async () => {
+                for await (const uri of provider.iterate({ batch: 1, converter: item => item.get_uri() })) {
+                    iterated.push(uri);
+                    if (iterated.length === 1) {
+                        backend.remove_item('file:///tmp/c.txt');
+                    }
+                }
+            })();
+
+            await expectAsync(iteration).toBeRejectedWithError(HistoryMutatedError);
+            expect(iterated).not.toContain('file:///tmp/c.txt');
+        });
+    });
+
+    describe('get_items()', () => {
+
+        /** Возвращает URI записи */
+        const to_uri = (item: HistoryItem): string => item.get_uri();
+
+        it('возвращает пустой массив для start_index за пределами истории', async () => {
+            expect(await provider.get_items(to_uri, 1, 1)).toEqual(['file:///tmp/b.txt']);
+            expect(await provider.get_items(to_uri, 3)).toEqual([]);
+            await expectAsync(provider.get_items(to_uri, -1)).toBeRejectedWithError(TypeError);
+        });
+
+        it('возвращает пустой массив для пустой истории', async () => {
+            backend.remove_items(['file:///tmp/a.txt', 'file:///tmp/b.txt', 'file:///tmp/c.txt']);
+            expect(await provider.get_items(to_uri)).toEqual([]);
+        });
+
+        it('сортирует записи по ключу запроса', async () => {
+            expect((await provider.get_items(to_uri, { sort: 'modified' })).items)
+                .withContext('Время - новые первыми')
+                .toEqual(['file:///tmp/c.txt', 'file:///tmp/b.txt', 'file:///tmp/a.txt']);
+            expect((await provider.get_items(to_uri, { sort: 'modified', descending: false })).items)
+                .toEqual(['file:///tmp/a.txt', 'file:///tmp/b.txt', 'file:///tmp/c.txt']);
+            expect((await provider.get_items(to_uri, { sort: 'uri', descending: true })).items)
+                .toEqual(['file:///tmp/c.txt', 'file:///tmp/b.txt', 'file:///tmp/a.txt']);
+        });
+
+        it('фильтрует записи', async () => {
+            expect(backend.add_item('file:///tmp/photo.png', {
+                mime_type: 'image/png', app_name: 'Viewer', app_exec: 'viewer %u', groups: ['photos'],
+            })).toBeTrue();
+
+            expect((await provider.get_items(to_uri, { filter: { mime_type: 'image/*' } })).items)
+                .toEqual(['file:///tmp/photo.png']);
+            expect((await provider.get_items(to_uri, { filter: { application: 'Editor', group: 'photos' } })).items)
+                .toEqual([]);
+            expect((await provider.get_items(to_uri, { sort: 'uri', filter: { scheme: 'FILE', is_private: false } })).items.length)
+                .toBe(4);
+        });
+
+        it('курсор не сдвигается при изменении истории между страницами', async () => {
+            const first = await provider.get_items(to_uri, { sort: 'modified', descending: false, limit: 2 });
+            expect(first.items).toEqual(['file:///tmp/a.txt', 'file:///tmp/b.txt']);
+            expect(first.next_cursor).not.toBeNull();
+
+            // удаление уже выданной записи не пропускает следующую
+            backend.remove_item('file:///tmp/a.txt');
+
+            const second = await provider.get_items(to_uri, { sort: 'modified', descending: false, limit: 2, cursor: first.next_cursor });
+            expect(second).toEqual({ items: ['file:///tmp/c.txt'], next_cursor: null });
+        });
+
+        it('отклоняет не валидный курсор и курсор другой сортировки', async () => {
+            await expectAsync(provider.get_items(to_uri, { cursor: '{ not json' })).toBeRejectedWithError(TypeError);
+
+            const page = await provider.get_items(to_uri, { sort: 'uri', limit: 1 });
+            await expectAsync(provider.get_items(to_uri, { sort: 'modified', cursor: page.next_cursor }))
+                .toBeRejectedWithError(TypeError);
+        });
+
+        it('отклоняет не валидный limit', async () => {
+            for (const limit of [NaN, 0, -1, 1.5]) {
+                await expectAsync(provider.get_items(to_uri, { limit }))
+                    .withContext(`limit: ${limit}`)
+                    .toBeRejectedWithError(TypeError);
+            }
+        });
+    });
+
+    describe('remove_items()', () => {
+
+        const FIXTURE_URIS = ['file:///tmp/a.txt', 'file:///tmp/b.txt', 'file:///tmp/c.txt'];
+
+        /** Пакет длиннее одной порции: записи и отсутствующие в истории URI */
+        const long_batch = (uris = FIXTURE_URIS): string[] => [
+            ...uris,
+            ...Array.from({ length: RecentFilesProvider.REMOVE_BATCH_SIZE }, (_, i) => `file:///tmp/missing-${i}.txt`),
+        ];
+
+        /** Проверяет, что история не изменилась */
+        function expect_history_unchanged(): void {
+            for (const uri of FIXTURE_URIS) {
+                expect(backend.has_item(uri)).withContext(uri).toBeTrue();
+            }
+        }
+
+        it('возвращает результат для каждого URI', async () => {
+            const result = await provider.remove_items(['file:///tmp/a.txt', 'file:///tmp/missing.txt', 'file:///tmp/a.txt', '']);
+
+            expect([...result.keys()]).toEqual(jasmine.arrayWithExactContents(['file:///tmp/a.txt', 'file:///tmp/missing.txt', '']));
+            expect(result.get('file:///tmp/a.txt')).toBeNull();
+            expect(result.get('file:///tmp/missing.txt')).toBeInstanceOf(InvalidUriError);
+            expect(result.get('')).toBeInstanceOf(InvalidUriError);
+            expect(backend.get_uris()).toEqual(['file:///tmp/b.txt', 'file:///tmp/c.txt']);
+        });
+
+        it('отмечает DuplicateUriError записи, которые удаляет другой пакет', async () => {
+            // первая порция первого пакета принимает запись до начала второго пакета
+            const first = provider.remove_items(long_batch(['file:///tmp/a.txt']));
+            const second = provider.remove_items(['file:///tmp/a.txt', 'file:///tmp/b.txt']);
+
+            const second_result = await second;
+            expect(second_result.get('file:///tmp/a.txt')).toBeInstanceOf(DuplicateUriError);
+            expect(second_result.get('file:///tmp/b.txt')).toBeNull();
+
+            const first_result = await first;
+            expect(first_result.get('file:///tmp/a.txt')).toBeNull();
+            expect(backend.get_uris()).toEqual(['file:///tmp/c.txt']);
+        });
+
+        it('сообщает о ходе проверки после каждой порции', async () => {
+            const uris = long_batch();
+            const progress = jasmine.createSpy('progress_cb');
+
+            await provider.remove_items(uris, null, progress);
+
+            expect(progress.calls.allArgs()).toEqual([
+                [RecentFilesProvider.REMOVE_BATCH_SIZE, uris.length],
+                [uris.length, uris.length],
+            ]);
+        });
+
+        it('при отмене не меняет историю', async () => {
+            const cancellable = new Gio.Cancellable();
+            const removal = provider.remove_items(long_batch(), cancellable, () => cancellable.cancel());
+
+            await expectAsync(removal).toBeRejectedWithError(RemoveCancelledError);
+            expect_history_unchanged();
+        });
+
+        it('при отключении истории прерывается QueueCleanupError и не меняет историю', async () => {
+            const enabled = spyOnProperty(backend, 'enabled').and.returnValue(true);
+            const removal = provider.remove_items(long_batch(), null, () => {
+                enabled.and.returnValue(false);
+                backend.notify('enabled');
+            });
+
+            await expectAsync(removal).toBeRejectedWithError(QueueCleanupError);
+            enabled.and.callThrough();
+            expect_history_unchanged();
+        });
+
+        it('при выводе из эксплуатации прерывается QueueCleanupError и не меняет историю', async () => {
+            const removal = provider.remove_items(long_batch(), null, () => {
+                if (provider.decommission) {
+                    provider.decommission();
+                }
+            });
+
+            await expectAsync(removal).toBeRejectedWithError(QueueCleanupError);
+            expect_history_unchanged();
+        });
+    });
+});
@@ -0,0 +1,552 @@
+#!/usr/bin/env -S jasmine --verbose --module
+/** @file: src/specs/RecentFilesService.spec.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.8.0 */
+
+/// <reference types="jasmine" />
+
+import GLib from 'gi://GLib?version=2.0';
+import Gio from 'gi://Gio?version=2.0';
+
+import {
+    DecommissionedError,
+} from '../Ljs/Decommissionable.js';
+import {
+    CriteriaValidateError,
+    ProcessAbortError,
+} from '../service/Inquisitor.js';
+import type {
+    RecentItemTuple,
+} from '../service/Inquisitor.js';
+import {
+    DuplicateUriError,
+    HistoryDisabledError,
+} from '../service/RecentFilesProvider.js';
+import type {
+    RecentFilesProvider,
+} from '../service/RecentFilesProvider.js';
+import {
+    DEFAULT_SOURCE,
+    RecentFilesService,
+} from '../service/RecentFilesService.js';
+import {
+    UndoJournal,
+    UndoJournalError,
+} from '../service/UndoJournal.js';
+import {
+    XbelHistoryBackend,
+} from '../service/XbelHistoryBackend.js';
+import type {
+    SinInfo,
+} from '../shared/common-types.js';
+
+/** Запись, совпадающая с критерием */
+const PHOTO_URI = 'file:///tmp/photo.png';
+/** Запись, не совпадающая с критерием */
+const NOTES_URI = 'file:///tmp/notes.txt';
+
+/** Ожидает обработки событий главного цикла */
+function idle(): Promise<void> {
+    return new Promise((resolve) => {
+        GLib.idle_add(GLib.PRIORITY_DEFAULT_IDLE, () => {
+            resolve();
+            return GLib.SOURCE_REMOVE;
+        });
+    });
+}
+
+describe('RecentFilesService', () => {
+
+    let work_dir: string;
+    let backend: XbelHistoryBackend;
+    let journal: UndoJournal;
+    let stash: UndoJournal;
+    let service: RecentFilesService;
+    let provider: RecentFilesProvider;
+    let removed: [string, SinInfo, string][];
+    let warn: jasmine.Spy;
+
+    /** Записывает файл-образец истории в обход хранилища */
+    function write_fixture(): void {
+        const bookmarks = new GLib.BookmarkFile();
+        for (const [uri, mime_type] of [[PHOTO_URI, 'image/png'], [NOTES_URI, 'text/plain']]) {
+            bookmarks.set_mime_type(uri, mime_type);
+            bookmarks.add_application(uri, 'Editor', 'editor %u');
+        }
+        bookmarks.to_file(`${work_dir}/recently-used.xbel`);
+    }
+
+    /** Добавляет записи через хранилище */
+    function add_items(uris: string[], mime_type: string): void {
+        for (const uri of uris) {
+            expect(backend.add_item(uri, { mime_type, app_name: 'Editor', app_exec: 'editor %u' }))
+                .withContext(`Запись ${uri} добавлена`).toBeTrue();
+        }
+    }
+
+    /** Ожидает сигналы `'item-removed'` для всех URI */
+    function wait_removed(uris: string[]): Promise<void> {
+        const waiting = new Set(uris);
+        return new Promise((resolve) => {
+            const handler_id = service.connect('item-removed', (_service: RecentFilesService, uri: string) => {
+                waiting.delete(uri);
+                if (waiting.size === 0) {
+                    service.disconnect(handler_id);
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /** Записывает проверки истории сервисом.
+     *
+     * @param on_inspect Вызывается сразу после начала каждой проверки
+     *
+     * @returns Проверенные URI и Promise каждой проверки */
+    function record_inspections(on_inspect?: () => void): { uris: string[][], inspections: Promise<void>[] } {
+        const inquisitor = service.inquisitor;
+        const inspect_to_signals = inquisitor.inspect_to_signals.bind(inquisitor);
+        const recorded = { uris: [] as string[][], inspections: [] as Promise<void>[] };
+        spyOn(inquisitor, 'inspect_to_signals').and.callFake((items: RecentItemTuple[]) => {
+            // список записей очищается проверкой
+            recorded.uris.push(items.map(([uri]) => uri));
+            const inspection = inspect_to_signals(items);
+            recorded.inspections.push(inspection);
+            on_inspect?.();
+            return inspection;
+        });
+        return recorded;
+    }
+
+    /** Ожидает сигнал `'item-removed'` */
+    function next_removed(): Promise<[string, SinInfo, string]> {
+        return new Promise((resolve) => {
+            const handler_id = service.connect('item-removed', (_service: RecentFilesService, uri: string, sin: SinInfo, source: string) => {
+                service.disconnect(handler_id);
+                resolve([uri, sin, source]);
+            });
+        });
+    }
+
+    /** Перехватывает проверку истории сервисом.
+     *
+     * @param intercept Вызывается сразу после начала проверки
+     *
+     * @returns Promise начатой проверки */
+    function intercept_inspection(intercept: () => void): Promise<Promise<void>> {
+        const inquisitor = service.inquisitor;
+        const inspect_to_signals = inquisitor.inspect_to_signals.bind(inquisitor);
+        return new Promise((resolve) => {
+            spyOn(inquisitor, 'inspect_to_signals').and.callFake((items: RecentItemTuple[]) => {
+                const inspection = inspect_to_signals(items);
+                intercept();
+                resolve(inspection);
+                return inspection;
+            });
+        });
+    }
+
+    beforeEach(async () => {
+        work_dir = GLib.dir_make_tmp('recent-files-service-spec-XXXXXX');
+        write_fixture();
+
+        backend = new XbelHistoryBackend({ file_path: `${work_dir}/recently-used.xbel`, privacy_settings: null });
+        journal = new UndoJournal({ file_path: `${work_dir}/undo-journal.json`, backend });
+        stash = new UndoJournal({ file_path: `${work_dir}/presentation-stash.json`, backend });
+        service = new RecentFilesService({ backend, journal, stash, sandbox_apps_dir: null });
+        provider = service.get_source_provider(DEFAULT_SOURCE)!;
+
+        await service.inquisitor.set_criteria([{ type: 'mime', mime_type: 'image/*', label: 'Изображения' }]);
+
+        removed = [];
+        service.connect('item-removed', (_service: RecentFilesService, uri: string, sin: SinInfo, source: string) => {
+            removed.push([uri, sin, source]);
+        });
+        warn = spyOn(console, 'warn').and.callThrough();
+    });
+
+    afterEach(() => {
+        // переданные объекты сервису не принадлежат
+        for (const decommissionable of [service, stash, journal, backend]) {
+            if (decommissionable.decommission) {
+                decommissionable.decommission();
+            }
+        }
+        for (const name of ['recently-used.xbel', 'undo-journal.json', 'presentation-stash.json']) {
+            GLib.unlink(`${work_dir}/${name}`);
+        }
+        GLib.rmdir(work_dir);
+    });
+
+    it('удаляет совпавшую запись и отправляет item-removed', async () => {
+        const item_removed = next_removed();
+        service.start();
+
+        expect(await item_removed).toEqual([PHOTO_URI, ['mime', 'Изображения'], DEFAULT_SOURCE]);
+        expect(backend.has_item(PHOTO_URI)).withContext('Совпавшая запись').toBeFalse();
+        expect(backend.has_item(NOTES_URI)).withContext('Остальные записи').toBeTrue();
+        expect(journal.entries.map(entry => entry.uri)).withContext('Журнал удаленных').toEqual([PHOTO_URI]);
+        expect(warn).not.toHaveBeenCalled();
+    });
+
+    describe('проверка всей истории', () => {
+
+        /** Записи, которые проверяются до и после совпадающих */
+        const fillers = (prefix: string): string[] => Array.from({ length: 100 }, (_, i) => `file:///tmp/${prefix}-${i}.txt`);
+        const photos = ['file:///tmp/photo-1.png', 'file:///tmp/photo-2.png', 'file:///tmp/photo-3.png'];
+
+        beforeEach(() => {
+            // проверка длится дольше дебаунса 'history-changes-settled'
+            add_items(fillers('before'), 'text/plain');
+            add_items(photos, 'image/png');
+            add_items(fillers('after'), 'text/plain');
+        });
+
+        it('удаления совпавших записей не прерывают проверку', async () => {
+            const history_size = provider.history_items_count;
+            const recorded = record_inspections();
+            spyOn(provider, 'remove_items').and.callThrough();
+            const all_removed = wait_removed([PHOTO_URI, ...photos]);
+            service.start();
+
+            await all_removed;
+            await expectAsync(recorded.inspections[0]).withContext('Проверка всей истории').toBeResolved();
+            await idle();
+
+            expect(recorded.inspections.length).withContext('Проверка не начиналась заново').toBe(1);
+            expect(recorded.uris[0].length).toBe(history_size);
+            expect(provider.remove_items).withContext('Удаление одним пакетом')
+                .toHaveBeenCalledOnceWith(jasmine.arrayWithExactContents([PHOTO_URI, ...photos]));
+            expect(warn).not.toHaveBeenCalled();
+        });
+
+        it('записи, добавленные во время проверки, проверяются после нее', async () => {
+            const late_uri = 'file:///tmp/late.png';
+            let inspection_started = (): void => undefined;
+            const started = new Promise<void>((resolve) => {
+                inspection_started = resolve;
+            });
+            const recorded = record_inspections(() => inspection_started());
+            const late_removed = wait_removed([late_uri]);
+            service.start();
+
+            await started;
+            add_items([late_uri], 'image/png');
+            await late_removed;
+
+            await expectAsync(recorded.inspections[0]).withContext('Проверка всей истории').toBeResolved();
+            expect(recorded.uris.length).toBe(2);
+            expect(recorded.uris[0]).not.toContain(late_uri);
+            expect(recorded.uris[1]).toEqual([late_uri]);
+        });
+    });
+
+    describe('режим наблюдения', () => {
+
+        /** Ожидает сигнал `'would-remove'` */
+        function next_would_remove(): Promise<[string, SinInfo, string]> {
+            return new Promise((resolve) => {
+                const handler_id = service.connect('would-remove', (_service: RecentFilesService, uri: string, sin: SinInfo, source: string) => {
+                    service.disconnect(handler_id);
+                    resolve([uri, sin, source]);
+                });
+            });
+        }
+
+        beforeEach(() => {
+            service.dry_run = true;
+        });
+
+        it('записывает совпадения в журнал, не удаляя записи', async () => {
+            const recorded = record_inspections();
+            const would_remove = next_would_remove();
+            service.start();
+
+            expect(await would_remove).toEqual([PHOTO_URI, ['mime', 'Изображения'], DEFAULT_SOURCE]);
+            await recorded.inspections[0];
+            await idle();
+
+            expect(service.dry_run_log).toEqual([
+                { uri: PHOTO_URI, source: DEFAULT_SOURCE, sin: ['mime', 'Изображения'], time: jasmine.any(Number) },
+            ]);
+            expect(removed).toEqual([]);
+            expect(backend.has_item(PHOTO_URI)).toBeTrue();
+            expect(journal.entries).toEqual([]);
+        });
+
+        it('после выключения проверяет историю заново и удаляет совпадения', async () => {
+            const recorded = record_inspections();
+            const would_remove = next_would_remove();
+            service.start();
+            await would_remove;
+            await recorded.inspections[0];
+
+            const item_removed = next_removed();
+            service.dry_run = false;
+
+            expect(await item_removed).toEqual([PHOTO_URI, ['mime', 'Изображения'], DEFAULT_SOURCE]);
+            expect(recorded.uris.length).withContext('Повторная проверка').toBe(2);
+            expect(recorded.uris[1]).toEqual(jasmine.arrayWithExactContents([PHOTO_URI, NOTES_URI]));
+            expect(backend.has_item(PHOTO_URI)).toBeFalse();
+            expect(journal.entries.map(entry => entry.uri)).toEqual([PHOTO_URI]);
+        });
+    });
+
+    it('stop() прерывает проверку без ошибок в журнале', async () => {
+        const inspection = intercept_inspection(() => service.stop());
+        service.start();
+
+        await expectAsync(await inspection).toBeRejectedWithError(ProcessAbortError);
+        await idle();
+
+        expect(service.running).toBeFalse();
+        expect(removed).toEqual([]);
+        expect(backend.has_item(PHOTO_URI)).toBeTrue();
+        expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('после stop() и повторного start() проверяет историю заново', async () => {
+        const inspection = intercept_inspection(() => service.stop());
+        service.start();
+        await expectAsync(await inspection).toBeRejectedWithError(ProcessAbortError);
+
+        (service.inquisitor.inspect_to_signals as jasmine.Spy).and.callThrough();
+        const item_removed = next_removed();
+        service.start();
+
+        expect((await item_removed)[0]).toBe(PHOTO_URI);
+    });
+
+    it('пропускает записи, уже стоящие в очереди удаления', async () => {
+        const removal = new Promise<void>((resolve) => {
+            spyOn(provider, 'remove_items').and.callFake((uris: string[]) => {
+                resolve();
+                return Promise.resolve(new Map(uris.map(uri => [uri, new DuplicateUriError()])));
+            });
+        });
+        service.start();
+
+        await removal;
+        await idle();
+
+        expect(provider.remove_items).toHaveBeenCalledOnceWith([PHOTO_URI]);
+        expect(removed).toEqual([]);
+        expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('пропускает HistoryDisabledError при удалении записей', async () => {
+        const removal = new Promise<void>((resolve) => {
+            spyOn(provider, 'remove_items').and.callFake(() => {
+                resolve();
+                return Promise.reject(new HistoryDisabledError());
+            });
+        });
+        service.start();
+
+        await removal;
+        await idle();
+
+        expect(removed).toEqual([]);
+        expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('пропускает источник с отключенной историей', async () => {
+        const reading = new Promise<void>((resolve) => {
+            spyOn(provider, 'get_items').and.callFake((): Promise<never> => {
+                resolve();
+                return Promise.reject(new HistoryDisabledError());
+            });
+        });
+        service.start();
+
+        await reading;
+        await idle();
+
+        expect(removed).toEqual([]);
+        expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('decommission() во время проверки завершает работу без ошибок', async () => {
+        const inspection = intercept_inspection(() => {
+            if (service.decommission) {
+                service.decommission();
+            }
+        });
+        service.start();
+
+        await expectAsync(await inspection).toBeRejectedWithError(ProcessAbortError);
+        await idle();
+
+        expect(removed).toEqual([]);
+        expect(warn).not.toHaveBeenCalled();
+        expect(provider.decommission).withContext('Созданный сервисом провайдер').toBeFalse();
+        for (const [name, decommissionable] of [['Хранилище', backend], ['Журнал', journal], ['Хранилище презентации', stash]] as const) {
+            expect(decommissionable.decommission).withContext(`${name} остается рабочим`).not.toBeFalse();
+        }
+        expect(backend.has_item(PHOTO_URI)).toBeTrue();
+        expect(() => service.start()).toThrowError(DecommissionedError);
+        expect(() => service.get_source_provider(DEFAULT_SOURCE)).toThrowError(DecommissionedError);
+    });
+
+    describe('режим презентации', () => {
+
+        /** Разрешены только текстовые файлы: изображение скрывается */
+        const ALLOWLIST = [{ type: 'mime' as const, mime_type: 'text/*' }];
+
+        it('возвращает записи, скрытые до аварийного завершения', () => {
+            const stash_path = `${work_dir}/crashed-stash.json`;
+
+            // хранилище предыдущего запуска, не выключившего режим
+            const crashed_stash = new UndoJournal({ file_path: stash_path, backend });
+            crashed_stash.record(backend.lookup_item(PHOTO_URI)!);
+            backend.remove_item(PHOTO_URI);
+            if (crashed_stash.decommission) {
+                crashed_stash.decommission();
+            }
+
+            const restored_stash = new UndoJournal({ file_path: stash_path, backend });
+            const restored = new RecentFilesService({ backend, journal, stash: restored_stash, sandbox_apps_dir: null });
+
+            expect(backend.has_item(PHOTO_URI)).withContext('Запись возвращена').toBeTrue();
+            expect(restored_stash.entries).withContext('Хранилище очищено').toEqual([]);
+            expect(restored.presentation).toBeFalse();
+
+            for (const decommissionable of [restored, restored_stash]) {
+                if (decommissionable.decommission) {
+                    decommissionable.decommission();
+                }
+            }
+            GLib.unlink(stash_path);
+        });
+
+        it('скрывает записи вне списка и возвращает их при выключении', async () => {
+            expect(await service.start_presentation(ALLOWLIST)).toBe(1);
+
+            expect(service.presentation).toBeTrue();
+            expect(backend.has_item(PHOTO_URI)).withContext('Скрытая запись').toBeFalse();
+            expect(backend.has_item(NOTES_URI)).withContext('Разрешенная запись').toBeTrue();
+            expect(stash.entries.map(entry => entry.uri)).toEqual([PHOTO_URI]);
+            expect(journal.entries).withContext('Журнал удаленных').toEqual([]);
+
+            expect(service.stop_presentation()).toBe(1);
+
+            expect(service.presentation).toBeFalse();
+            expect(backend.has_item(PHOTO_URI)).toBeTrue();
+            expect(stash.entries).toEqual([]);
+        });
+
+        it('возвращает записи, скрытые после выключения режима', async () => {
+            const remove_items = provider.remove_items.bind(provider);
+            spyOn(provider, 'remove_items').and.callFake((...args: Parameters<typeof provider.remove_items>) => {
+                const removal = remove_items(...args);
+                // режим выключается, пока записи переносятся в хранилище
+                service.stop_presentation();
+                return removal;
+            });
+
+            await service.start_presentation(ALLOWLIST);
+
+            expect(service.presentation).toBeFalse();
+            expect(backend.has_item(PHOTO_URI)).withContext('Запись возвращена').toBeTrue();
+            expect(stash.entries).withContext('Хранилище очищено').toEqual([]);
+        });
+
+        it('при ошибке скрытия выключает режим и возвращает скрытые записи', async () => {
+            await service.start_presentation(ALLOWLIST);
+            expect(backend.has_item(PHOTO_URI)).toBeFalse();
+
+            spyOn(provider, 'remove_items').and.rejectWith(new UndoJournalError());
+            const notify = jasmine.createSpy('notify::presentation');
+            service.connect('notify::presentation', notify);
+
+            // новый список скрывает и текстовые файлы
+            await expectAsync(service.start_presentation([{ type: 'mime', mime_type: 'application/*' }]))
+                .toBeRejectedWithError(UndoJournalError);
+
+            expect(service.presentation).toBeFalse();
+            expect(notify).toHaveBeenCalledTimes(1);
+            expect(backend.has_item(PHOTO_URI)).withContext('Ранее скрытая запись возвращена').toBeTrue();
+            expect(backend.has_item(NOTES_URI)).toBeTrue();
+            expect(stash.entries).toEqual([]);
+        });
+    });
+
+    describe('метки файлов', () => {
+
+        // метаданные GVfs требуют gvfsd-metadata, расширенные атрибуты - нет
+        const attribute = 'xattr::rfb-private';
+
+        let path: string;
+        let uri: string;
+
+        /** Читает атрибут-метку файла */
+        const read_tag = (): string | null => Gio.File.new_for_path(path)
+            .query_info(attribute, Gio.FileQueryInfoFlags.NONE, null)
+            .get_attribute_string(attribute);
+
+        beforeEach(async () => {
+            path = `${work_dir}/tagged.txt`;
+            GLib.file_set_contents(path, 'tagged');
+            uri = GLib.filename_to_uri(path, null);
+            add_items([uri], 'text/plain');
+
+            await service.inquisitor.set_criteria([{ type: 'tag', attribute, label: 'Скрытые' }]);
+        });
+
+        afterEach(() => {
+            GLib.unlink(path);
+        });
+
+        it('tag_files() сбрасывает вердикт "чистый", и запись удаляется повторной проверкой', async () => {
+            let inspection_started = (): void => undefined;
+            const started = new Promise<void>((resolve) => {
+                inspection_started = resolve;
+            });
+            const recorded = record_inspections(() => inspection_started());
+            const forget = spyOn(service.inquisitor, 'forget').and.callThrough();
+            service.start();
+
+            // первая проверка запоминает запись как "чистую"
+            await started;
+            await recorded.inspections[0];
+            expect(backend.has_item(uri)).withContext('Запись без метки').toBeTrue();
+
+            const item_removed = wait_removed([uri]);
+            const tagged = await service.tag_files([uri], attribute);
+            if (tagged === 0) {
+                pending('Файловая система не поддерживает расширенные атрибуты');
+            }
+            await item_removed;
+
+            expect(tagged).toBe(1);
+            expect(forget).toHaveBeenCalledOnceWith([uri]);
+            expect(recorded.uris.at(-1)).withContext('Повторная проверка').toContain(uri);
+            expect(removed).toEqual([[uri, ['tag', 'Скрытые'], DEFAULT_SOURCE]]);
+            expect(backend.has_item(uri)).toBeFalse();
+            expect(read_tag()).toBe('true');
+        });
+
+        it('untag_files() снимает метку', async () => {
+            if (await service.tag_files([uri], attribute) === 0) {
+                pending('Файловая система не поддерживает расширенные атрибуты');
+            }
+
+            expect(await service.untag_files([uri], attribute)).toBe(1);
+            expect(read_tag()).toBeNull();
+        });
+
+        it('отклоняет не валидный атрибут, не меняя файлы', async () => {
+            const forget = spyOn(service.inquisitor, 'forget');
+
+            for (const bad of ['standard::name', 'metadata::', 'xattr::a,b']) {
+                await expectAsync(service.tag_files([uri], bad))
+                    .withContext(`tag_files: ${bad}`).toBeRejectedWithError(CriteriaValidateError);
+                await expectAsync(service.untag_files([uri], bad))
+                    .withContext(`untag_files: ${bad}`).toBeRejectedWithError(CriteriaValidateError);
+            }
+
+            expect(forget).not.toHaveBeenCalled();
+            expect(read_tag()).toBeNull();
+        });
+    });
+});
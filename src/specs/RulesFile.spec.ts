@@ -0,0 +1,86 @@
+#!/usr/bin/env -S jasmine --verbose --module
+/** @file: src/specs/RulesFile.spec.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+
+/// <reference types="jasmine" />
+
+import {
+    CriteriaValidateError,
+} from '../service/Inquisitor.js';
+import {
+    export_rules,
+    import_rules,
+    ImportMode,
+    RulesFileError,
+    RULES_FILE_FORMAT,
+    RULES_FILE_VERSION,
+} from '../service/RulesFile.js';
+import type {
+    Rule,
+} from '../service/RulesFile.js';
+
+describe('RulesFile', () => {
+
+    const created_at = '2025-01-01T00:00:00.000Z';
+
+    const rules: Rule[] = [
+        { type: 'glob', pattern: '*.torrent', label: 'Торренты', enabled: true, comment: 'Общий список', created_at },
+        { type: 'mime', mime_type: 'image/*', enabled: false, created_at },
+    ];
+
+    function make_file(file_rules: unknown[]): string {
+        return JSON.stringify({ format: RULES_FILE_FORMAT, version: RULES_FILE_VERSION, rules: file_rules });
+    }
+
+    it('экспорт и импорт (REPLACE) сохраняют правила без изменений', () => {
+        const result = import_rules(export_rules(rules), [], ImportMode.REPLACE);
+
+        expect(result.rules).toEqual(rules);
+        expect(result.added).toBe(2);
+        expect(result.errors).toEqual([]);
+    });
+
+    it('заполняет метаданные по умолчанию', () => {
+        const result = import_rules(make_file([{ type: 'glob', pattern: '*.tmp' }]), [], ImportMode.REPLACE);
+
+        expect(result.rules[0].enabled).toBeTrue();
+        expect(typeof result.rules[0].created_at).toBe('string');
+    });
+
+    it('MERGE пропускает правила с тем же условием', () => {
+        const result = import_rules(make_file([
+            { pattern: '*.torrent', type: 'glob', label: 'Другая метка' },
+            { type: 'glob', pattern: '*.iso' },
+        ]), rules, ImportMode.MERGE);
+
+        expect(result.rules.map(rule => rule.label ?? null)).toEqual(['Торренты', null, null]);
+        expect(result.added).toBe(1);
+        expect(result.duplicates).toBe(1);
+    });
+
+    it('сообщает об ошибках отдельных правил, не прерывая импорт', () => {
+        const result = import_rules(make_file([
+            { type: 'glob', pattern: '*.tmp' },
+            { type: 'glob', pattern: '' },
+            { type: 'glob', pattern: '*.bak', enabled: 'yes' },
+            { type: 'glob', pattern: '*.old', created_at: 'yesterday' },
+        ]), [], ImportMode.REPLACE);
+
+        expect(result.rules.map(rule => (rule as Rule & { pattern: string }).pattern)).toEqual(['*.tmp']);
+        expect(result.errors.length).toBe(3);
+        expect(result.errors.every(error => error instanceof CriteriaValidateError)).toBeTrue();
+        expect(result.errors.map(error => error.path)).toEqual(['[1]', '[2]', '[3]']);
+    });
+
+    for (const [title, text] of [
+        ['не JSON', '{ rules: '],
+        ['чужой формат', JSON.stringify({ format: 'other', version: 1, rules: [] })],
+        ['будущую версию', JSON.stringify({ format: RULES_FILE_FORMAT, version: RULES_FILE_VERSION + 1, rules: [] })],
+        ['rules не массив', JSON.stringify({ format: RULES_FILE_FORMAT, version: RULES_FILE_VERSION, rules: {} })],
+    ]) {
+        it(`отклоняет файл целиком: ${title}`, () => {
+            expect(() => import_rules(text, rules, ImportMode.MERGE)).toThrowError(RulesFileError);
+        });
+    }
+});
@@ -0,0 +1,64 @@
+#!/usr/bin/env -S jasmine --verbose --module
+/** @file: src/specs/SandboxHistorySources.spec.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+
+/// <reference types="jasmine" />
+
+import GLib from 'gi://GLib?version=2.0';
+
+import {
+    SandboxHistorySources,
+} from '../service/SandboxHistorySources.js';
+
+describe('SandboxHistorySources', () => {
+
+    let apps_dir: string;
+    let sandbox: SandboxHistorySources;
+
+    /** Ожидает сигнал источников */
+    function next_signal(signal: 'source-added' | 'source-removed'): Promise<string> {
+        return new Promise((resolve) => {
+            const handler_id = sandbox.connect(signal, (_sandbox: SandboxHistorySources, source: string) => {
+                sandbox.disconnect(handler_id);
+                resolve(source);
+            });
+        });
+    }
+
+    beforeEach(() => {
+        apps_dir = GLib.dir_make_tmp('sandbox-sources-spec-XXXXXX');
+        GLib.mkdir_with_parents(`${apps_dir}/org.example.Editor/data`, 0o700);
+        sandbox = new SandboxHistorySources({ apps_dir });
+    });
+
+    afterEach(() => {
+        if (sandbox.decommission) {
+            sandbox.decommission();
+        }
+        for (const app_id of ['org.example.Editor', 'org.example.Viewer']) {
+            GLib.rmdir(`${apps_dir}/${app_id}/data`);
+            GLib.rmdir(`${apps_dir}/${app_id}`);
+        }
+        GLib.rmdir(apps_dir);
+    });
+
+    it('находит каталоги установленных приложений', () => {
+        expect(sandbox.sources).toEqual(new Map([
+            ['flatpak:org.example.Editor', `${apps_dir}/org.example.Editor/data/recently-used.xbel`],
+        ]));
+    });
+
+    it('отслеживает установку и удаление приложений', async () => {
+        const added = next_signal('source-added');
+        GLib.mkdir_with_parents(`${apps_dir}/org.example.Viewer/data`, 0o700);
+        expect(await added).toBe('flatpak:org.example.Viewer');
+        expect([...sandbox.sources.keys()]).toContain('flatpak:org.example.Viewer');
+
+        const removed = next_signal('source-removed');
+        GLib.rmdir(`${apps_dir}/org.example.Viewer/data`);
+        GLib.rmdir(`${apps_dir}/org.example.Viewer`);
+        expect(await removed).toBe('flatpak:org.example.Viewer');
+        expect([...sandbox.sources.keys()]).toEqual(['flatpak:org.example.Editor']);
+    });
+});
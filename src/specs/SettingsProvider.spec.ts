@@ -0,0 +1,133 @@
+#!/usr/bin/env -S jasmine --verbose --module
+/** @file: src/specs/SettingsProvider.spec.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+
+/// <reference types="jasmine" />
+
+import GLib from 'gi://GLib?version=2.0';
+import Gio from 'gi://Gio?version=2.0';
+
+import {
+    Inquisitor,
+} from '../service/Inquisitor.js';
+import {
+    SettingsProvider,
+    StoredCriteriaError,
+} from '../service/SettingsProvider.js';
+
+/** Ожидает уведомление `notify::last-error` */
+function wait_last_error(provider: SettingsProvider): Promise<string> {
+    return new Promise((resolve) => {
+        const handler_id = provider.connect('notify::last-error', () => {
+            provider.disconnect(handler_id);
+            resolve(provider.last_error);
+        });
+    });
+}
+
+describe('SettingsProvider', () => {
+
+    // схема компилируется из каталога `schemas` проекта (тесты запускаются из корня проекта)
+    let schema_dir: string;
+    let schema: Gio.SettingsSchema;
+
+    let settings: Gio.Settings;
+    let inquisitor: Inquisitor;
+    let provider: SettingsProvider;
+
+    beforeAll(() => {
+        schema_dir = GLib.dir_make_tmp('settings-provider-spec-XXXXXX');
+        const [ok] = GLib.spawn_command_line_sync(`glib-compile-schemas --targetdir=${schema_dir} schemas`);
+        expect(ok).withContext('Схема скомпилирована').toBeTrue();
+
+        const source = Gio.SettingsSchemaSource.new_from_directory(schema_dir, null, false);
+        schema = source.lookup(SettingsProvider.SCHEMA_ID, false)!;
+    });
+
+    afterAll(() => {
+        GLib.unlink(`${schema_dir}/gschemas.compiled`);
+        GLib.rmdir(schema_dir);
+    });
+
+    beforeEach(() => {
+        settings = new Gio.Settings({
+            settings_schema: schema,
+            backend: Gio.memory_settings_backend_new(),
+        });
+        inquisitor = new Inquisitor();
+    });
+
+    afterEach(() => {
+        if (provider.decommission) {
+            provider.decommission();
+        }
+        if (inquisitor.decommission) {
+            inquisitor.decommission();
+        }
+    });
+
+    it('применяет сохраненные критерии при запуске', async () => {
+        settings.set_string('criteria', JSON.stringify([{ type: 'glob', pattern: '*.tmp' }]));
+
+        provider = new SettingsProvider(inquisitor, { settings });
+        await provider.reload();
+
+        expect(inquisitor.criteria.map(criterion => criterion.label)).toEqual(['*.tmp']);
+        expect(provider.last_error).toBe('');
+    });
+
+    it('передает отключенные правила в Inquisitor', async () => {
+        settings.set_string('criteria', JSON.stringify([
+            { type: 'glob', pattern: '*.tmp', enabled: false },
+            { type: 'glob', pattern: '*.bak' },
+        ]));
+
+        provider = new SettingsProvider(inquisitor, { settings });
+        await provider.reload();
+
+        expect(inquisitor.criteria.map(criterion => [criterion.label, criterion.enabled])).toEqual([
+            ['*.tmp', false],
+            ['*.bak', true],
+        ]);
+    });
+
+    it('применяет критерии заново при изменении ключа', async () => {
+        provider = new SettingsProvider(inquisitor, { settings });
+        await provider.reload();
+
+        provider.store_criteria([{ type: 'mime', mime_type: 'image/*' }]);
+        await provider.reload();
+
+        expect(inquisitor.criteria.map(criterion => criterion.type)).toEqual(['mime']);
+    });
+
+    it('сообщает об ошибке валидации через last-error и сбрасывает ее после исправления', async () => {
+        provider = new SettingsProvider(inquisitor, { settings });
+        await provider.reload();
+
+        const failed = wait_last_error(provider);
+        provider.store_criteria([{ type: 'glob', pattern: '' }]);
+
+        expect(await failed).toMatch(/^Criterion \[0\]: Invalid glob pattern/);
+        expect(settings.get_string('last-error')).toBe(provider.last_error);
+
+        const fixed = wait_last_error(provider);
+        provider.store_criteria([{ type: 'glob', pattern: '*.bak' }]);
+
+        expect(await fixed).toBe('');
+    });
+
+    it('сообщает о поврежденном значении и не оставляет старые критерии', async () => {
+        settings.set_string('criteria', JSON.stringify([{ type: 'glob', pattern: '*.tmp' }]));
+        provider = new SettingsProvider(inquisitor, { settings });
+        await provider.reload();
+
+        settings.set_string('criteria', '{ not json');
+        await provider.reload();
+
+        expect(() => provider.read_criteria()).toThrowError(StoredCriteriaError);
+        expect(provider.last_error).toMatch(/^Invalid stored criteria/);
+        expect(inquisitor.criteria).toEqual([]);
+    });
+});
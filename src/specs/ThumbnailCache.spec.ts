@@ -0,0 +1,66 @@
+#!/usr/bin/env -S jasmine --verbose --module
+/** @file: src/specs/ThumbnailCache.spec.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+
+/// <reference types="jasmine" />
+
+import GLib from 'gi://GLib?version=2.0';
+
+import {
+    purge_thumbnails,
+    thumbnail_paths,
+} from '../service/ThumbnailCache.js';
+
+describe('ThumbnailCache', () => {
+
+    const uri = 'file:///home/user/Pictures/private.png';
+    const other_uri = 'file:///home/user/Pictures/public.png';
+
+    let thumbnails_dir: string;
+    let dirs: string[];
+
+    /** Имя миниатюры URI */
+    function thumbnail_name(thumbnail_uri: string): string {
+        return `${GLib.compute_checksum_for_string(GLib.ChecksumType.MD5, thumbnail_uri, -1)}.png`;
+    }
+
+    beforeEach(() => {
+        thumbnails_dir = GLib.dir_make_tmp('thumbnail-cache-spec-XXXXXX');
+        dirs = ['normal', 'large', 'fail/gnome-thumbnail-factory'].map(dir => `${thumbnails_dir}/${dir}`);
+        for (const dir of dirs) {
+            GLib.mkdir_with_parents(dir, 0o700);
+            GLib.file_set_contents(`${dir}/${thumbnail_name(uri)}`, 'png');
+        }
+        GLib.file_set_contents(`${dirs[0]}/${thumbnail_name(other_uri)}`, 'png');
+    });
+
+    afterEach(() => {
+        for (const dir of dirs) {
+            for (const name of [thumbnail_name(uri), thumbnail_name(other_uri)]) {
+                GLib.unlink(`${dir}/${name}`);
+            }
+            GLib.rmdir(dir);
+        }
+        GLib.rmdir(`${thumbnails_dir}/fail`);
+        GLib.rmdir(thumbnails_dir);
+    });
+
+    it('thumbnail_paths включает все размеры и неудачные попытки приложений', () => {
+        const paths = thumbnail_paths(uri, thumbnails_dir);
+
+        expect(paths).toContain(`${thumbnails_dir}/xx-large/${thumbnail_name(uri)}`);
+        expect(paths).toContain(`${thumbnails_dir}/fail/gnome-thumbnail-factory/${thumbnail_name(uri)}`);
+    });
+
+    it('purge_thumbnails удаляет только миниатюры указанного URI', async () => {
+        expect(await purge_thumbnails(uri, thumbnails_dir)).toBe(3);
+
+        for (const dir of dirs) {
+            expect(GLib.file_test(`${dir}/${thumbnail_name(uri)}`, GLib.FileTest.EXISTS)).toBeFalse();
+        }
+        expect(GLib.file_test(`${dirs[0]}/${thumbnail_name(other_uri)}`, GLib.FileTest.EXISTS)).toBeTrue();
+
+        expect(await purge_thumbnails(uri, thumbnails_dir)).withContext('Удалять больше нечего').toBe(0);
+    });
+});
@@ -0,0 +1,121 @@
+#!/usr/bin/env -S jasmine --verbose --module
+/** @file: src/specs/UndoJournal.spec.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+
+/// <reference types="jasmine" />
+
+import GLib from 'gi://GLib?version=2.0';
+import Gtk from 'gi://Gtk?version=4.0';
+
+import {
+    UndoJournal,
+} from '../service/UndoJournal.js';
+
+describe('UndoJournal', () => {
+
+    let work_dir: string;
+    let journal_path: string;
+    let recent_manager: Gtk.RecentManager;
+    let journal: UndoJournal;
+
+    /** Добавляет запись в историю и возвращает ее */
+    function add_item(uri: string): Gtk.RecentInfo {
+        recent_manager.add_full(uri, new Gtk.RecentData({
+            display_name: 'Отчет',
+            description: 'Квартальный отчет',
+            mime_type: 'application/pdf',
+            app_name: 'Viewer',
+            app_exec: 'viewer %u',
+            groups: ['documents'],
+            is_private: true,
+        }));
+        return recent_manager.lookup_item(uri)!;
+    }
+
+    beforeEach(() => {
+        work_dir = GLib.dir_make_tmp('undo-journal-spec-XXXXXX');
+        journal_path = `${work_dir}/undo-journal.json`;
+        recent_manager = new Gtk.RecentManager({ filename: `${work_dir}/recently-used.xbel` });
+        journal = new UndoJournal({ file_path: journal_path, recent_manager, max_entries: 3 });
+    });
+
+    afterEach(() => {
+        if (journal.decommission) {
+            journal.decommission();
+        }
+        for (const name of ['undo-journal.json', 'recently-used.xbel']) {
+            GLib.unlink(`${work_dir}/${name}`);
+        }
+        GLib.rmdir(work_dir);
+    });
+
+    it('сохраняет метаданные записи и переживает перезапуск', () => {
+        journal.record(add_item('file:///tmp/report.pdf'));
+
+        const reloaded = new UndoJournal({ file_path: journal_path, recent_manager });
+        const [entry] = reloaded.entries;
+        if (reloaded.decommission) {
+            reloaded.decommission();
+        }
+
+        expect(entry).toEqual(jasmine.objectContaining({
+            uri: 'file:///tmp/report.pdf',
+            display_name: 'Отчет',
+            mime_type: 'application/pdf',
+            applications: [{ name: 'Viewer', exec: 'viewer %u' }],
+            groups: ['documents'],
+            is_private: true,
+        }));
+    });
+
+    it('вытесняет старые записи сверх max_entries', () => {
+        for (const name of ['a', 'b', 'c', 'd']) {
+            journal.record(add_item(`file:///tmp/${name}.pdf`));
+        }
+
+        expect(journal.entries.map(entry => entry.uri))
+            .toEqual(['file:///tmp/b.pdf', 'file:///tmp/c.pdf', 'file:///tmp/d.pdf']);
+    });
+
+    it('restore_item возвращает запись в историю с метаданными', () => {
+        const uri = 'file:///tmp/report.pdf';
+        journal.record(add_item(uri));
+        recent_manager.remove_item(uri);
+
+        expect(journal.restore_item(uri)).toBeTrue();
+        expect(journal.entries).toEqual([]);
+
+        const info = recent_manager.lookup_item(uri)!;
+        expect(info.get_mime_type()).toBe('application/pdf');
+        expect(info.get_groups()).toEqual(['documents']);
+        expect(info.has_application('Viewer')).toBeTrue();
+
+        expect(journal.restore_item(uri)).withContext('Повторно восстановить нечего').toBeFalse();
+    });
+
+    it('restore_all_since восстанавливает только записи, удаленные после указанного времени', () => {
+        const old_uri = 'file:///tmp/old.pdf';
+        journal.record(add_item(old_uri));
+        recent_manager.remove_item(old_uri);
+
+        // запись из прошлого
+        const [old_entry] = journal.entries;
+        old_entry.removed_at -= 3600;
+        journal.clear();
+        GLib.file_set_contents(journal_path, JSON.stringify({ version: 1, entries: [old_entry] }));
+        if (journal.decommission) {
+            journal.decommission();
+        }
+        journal = new UndoJournal({ file_path: journal_path, recent_manager, max_entries: 3 });
+
+        const new_uri = 'file:///tmp/new.pdf';
+        journal.record(add_item(new_uri));
+        recent_manager.remove_item(new_uri);
+
+        expect(journal.restore_all_since(Math.floor(Date.now() / 1000) - 60)).toBe(1);
+        expect(recent_manager.has_item(new_uri)).toBeTrue();
+        expect(recent_manager.has_item(old_uri)).toBeFalse();
+        expect(journal.entries.map(entry => entry.uri)).toEqual([old_uri]);
+    });
+});
@@ -0,0 +1,120 @@
+#!/usr/bin/env -S jasmine --verbose --module
+/** @file: src/specs/XbelHistoryBackend.spec.ts */
+/** @license: https://www.gnu.org/licenses/gpl.txt */
+/** @version: 1.0.0 */
+
+/// <reference types="jasmine" />
+
+import GLib from 'gi://GLib?version=2.0';
+
+import {
+    XbelHistoryBackend,
+} from '../service/XbelHistoryBackend.js';
+
+describe('XbelHistoryBackend', () => {
+
+    let work_dir: string;
+    let file_path: string;
+    let backend: XbelHistoryBackend;
+
+    /** Записывает файл-образец истории в обход хранилища */
+    function write_fixture(uris: string[]): void {
+        const bookmarks = new GLib.BookmarkFile();
+        for (const uri of uris) {
+            bookmarks.set_title(uri, 'Отчет');
+            bookmarks.set_mime_type(uri, 'application/pdf');
+            bookmarks.add_application(uri, 'Viewer', 'viewer %u');
+            bookmarks.add_group(uri, 'documents');
+        }
+        bookmarks.to_file(file_path);
+    }
+
+    beforeEach(() => {
+        work_dir = GLib.dir_make_tmp('xbel-backend-spec-XXXXXX');
+        file_path = `${work_dir}/recently-used.xbel`;
+        write_fixture(['file:///tmp/a.pdf', 'file:///tmp/b.pdf']);
+        backend = new XbelHistoryBackend({ file_path, privacy_settings: null });
+    });
+
+    afterEach(() => {
+        if (backend.decommission) {
+            backend.decommission();
+        }
+        GLib.unlink(file_path);
+        GLib.rmdir(work_dir);
+    });
+
+    it('читает записи и их поля из файла', () => {
+        expect(backend.enabled).toBeTrue();
+        expect(backend.filename).toBe(file_path);
+        expect(backend.size).toBe(2);
+        expect(backend.get_items().map(item => item.get_uri()))
+            .toEqual(['file:///tmp/a.pdf', 'file:///tmp/b.pdf']);
+
+        const item = backend.lookup_item('file:///tmp/a.pdf')!;
+        expect(item.get_display_name()).toBe('Отчет');
+        expect(item.get_mime_type()).toBe('application/pdf');
+        expect(item.get_applications()).toEqual(['Viewer']);
+        expect(item.get_application_info('Viewer').slice(0, 2)).toEqual([true, 'viewer %u']);
+        expect(item.has_group('documents')).toBeTrue();
+
+        expect(backend.lookup_item('file:///tmp/missing.pdf')).toBeNull();
+    });
+
+    it('remove_item сохраняет изменение в файл', () => {
+        backend.remove_item('file:///tmp/a.pdf');
+
+        const reloaded = new XbelHistoryBackend({ file_path, privacy_settings: null });
+        const uris = reloaded.get_items().map(item => item.get_uri());
+        if (reloaded.decommission) {
+            reloaded.decommission();
+        }
+
+        expect(uris).toEqual(['file:///tmp/b.pdf']);
+        expect(() => backend.remove_item('file:///tmp/a.pdf')).withContext('Записи уже нет').toThrow();
+    });
+
+    it('remove_items удаляет записи одной записью файла и пропускает отсутствующие', () => {
+        expect(backend.remove_items(['file:///tmp/missing.pdf', 'file:///tmp/b.pdf', 'file:///tmp/a.pdf', 'file:///tmp/b.pdf']))
+            .toEqual(['file:///tmp/b.pdf', 'file:///tmp/a.pdf']);
+
+        const reloaded = new XbelHistoryBackend({ file_path, privacy_settings: null });
+        const size = reloaded.size;
+        if (reloaded.decommission) {
+            reloaded.decommission();
+        }
+
+        expect(size).toBe(0);
+        expect(backend.remove_items(['file:///tmp/a.pdf'])).withContext('Записей уже нет').toEqual([]);
+    });
+
+    it('add_item добавляет запись как Gtk.RecentManager.add_full()', () => {
+        expect(backend.add_item('file:///tmp/c.txt', {
+            mime_type: 'text/plain',
+            app_name: 'Editor',
+            app_exec: 'editor %u',
+            groups: ['notes'],
+            is_private: true,
+        })).toBeTrue();
+
+        const item = backend.lookup_item('file:///tmp/c.txt')!;
+        expect(item.get_mime_type()).toBe('text/plain');
+        expect(item.has_application('Editor')).toBeTrue();
+        expect(item.get_groups()).toEqual(['notes']);
+        expect(item.get_private_hint()).toBeTrue();
+    });
+
+    it("перечитывает файл и отправляет 'changed' при записи другим процессом", async () => {
+        const changed = new Promise<void>((resolve) => {
+            const handler_id = backend.connect('changed', () => {
+                backend.disconnect(handler_id);
+                resolve();
+            });
+        });
+
+        write_fixture(['file:///tmp/d.pdf']);
+        await changed;
+
+        expect(backend.get_items().map(item => item.get_uri())).toEqual(['file:///tmp/d.pdf']);
+    });
+});